@@ -6,6 +6,7 @@ import Login from './pages/Login'
 import Dashboard from './pages/Dashboard'
 import RecipesList from './pages/RecipesList'
 import RecipeEditor from './pages/RecipeEditor'
+import Reviews from './pages/Reviews'
 import Layout from './components/Layout'
 
 function App() {
@@ -23,6 +24,7 @@ function App() {
           <Route path="recipes" element={<RecipesList />} />
           <Route path="recipes/new" element={<RecipeEditor />} />
           <Route path="recipes/:slug" element={<RecipeEditor />} />
+          <Route path="reviews" element={<Reviews />} />
         </Route>
         <Route path="*" element={<Navigate to="/dashboard" replace />} />
       </Routes>
@@ -38,7 +38,8 @@ const Dashboard = () => {
           action,
           created_at,
           meta,
-          profiles!inner(full_name, email),
+          actor:public_profiles!user_id(full_name),
+          profiles!user_id(email),
           recipes(title, slug)
         `)
         .order('created_at', { ascending: false })
@@ -108,11 +109,30 @@ const Dashboard = () => {
         return <span className="text-purple-500">📢</span>
       case 'unpublish':
         return <span className="text-gray-500">📝</span>
+      case 'approve_review':
+        return <span className="text-green-500">✓</span>
+      case 'reject_review':
+        return <span className="text-yellow-500">✕</span>
+      case 'delete_review':
+        return <span className="text-red-500">🗑️</span>
       default:
         return <span className="text-gray-400">•</span>
     }
   }
 
+  const getActionLabel = (action) => {
+    switch (action) {
+      case 'approve_review':
+        return 'Approved a review of'
+      case 'reject_review':
+        return 'Rejected a review of'
+      case 'delete_review':
+        return 'Deleted a review of'
+      default:
+        return action.charAt(0).toUpperCase() + action.slice(1)
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -200,10 +220,10 @@ const Dashboard = () => {
                           <div>
                             <p className="text-sm text-gray-500">
                               <span className="font-medium text-gray-900">
-                                {activity.profiles?.full_name || activity.profiles?.email || 'Unknown user'}
+                                {activity.actor?.full_name || activity.profiles?.email || 'Unknown user'}
                               </span>
                               {' '}
-                              <span className="capitalize">{activity.action}</span>
+                              <span>{getActionLabel(activity.action)}</span>
                               {activity.recipes && (
                                 <>
                                   {' recipe '}
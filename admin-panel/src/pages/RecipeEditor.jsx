@@ -3,6 +3,26 @@ import { useParams, useNavigate } from 'react-router-dom'
 import { supabase } from '../lib/supabaseClient'
 import ImageUploader from '../components/ImageUploader'
 
+// Per-serving values an admin can set in place of the calculated ones
+const NUTRITION_FIELDS = [
+  { key: 'calories', label: 'Energy (kcal)' },
+  { key: 'protein', label: 'Protein (g)' },
+  { key: 'carbs', label: 'Carbs (g)' },
+  { key: 'sugars', label: 'Sugars (g)' },
+  { key: 'fat', label: 'Fat (g)' },
+  { key: 'saturates', label: 'Saturates (g)' },
+  { key: 'fibre', label: 'Fibre (g)' },
+  { key: 'salt', label: 'Salt (g)' }
+]
+
+// Dietary tags and the catalogue entries that contradict them. Mirrors
+// dietary_tag_conflicts() in sql/schema.sql.
+const DIETARY_TAG_RULES = {
+  vegetarian: entry => entry.diet === 'non-vegetarian',
+  vegan: entry => entry.diet !== 'vegan',
+  'gluten-free': entry => entry.allergens.includes('gluten')
+}
+
 const RecipeEditor = () => {
   const { slug } = useParams()
   const navigate = useNavigate()
@@ -23,20 +43,28 @@ const RecipeEditor = () => {
     image_url: '',
     image_alt: '',
     author_name: 'Chef',
+    nutrition: null,
     is_published: false,
     is_featured: false
   })
+  // Rows get their id up front so steps can refer to them before saving
   const [ingredients, setIngredients] = useState([
-    { ingredient_name: '', quantity: '', unit: '', notes: '', sort_order: 0 }
+    { id: crypto.randomUUID(), ingredient_id: null, ingredient_name: '', quantity: '', unit: '', notes: '', scalable: true, round_to: '', section: '', sort_order: 0 }
   ])
   const [steps, setSteps] = useState([
-    { step_number: 1, instruction: '', image_url: '', image_alt: '' }
+    { id: crypto.randomUUID(), step_number: 1, instruction: '', section: '', image_url: '', image_alt: '', ingredients: [] }
   ])
   const [tags, setTags] = useState([])
   const [selectedTags, setSelectedTags] = useState([])
+  const [catalogue, setCatalogue] = useState([])
+  // Other recipes used in this one, e.g. a gravy, scaled from their own servings
+  const [components, setComponents] = useState([])
+  const [recipeOptions, setRecipeOptions] = useState([])
 
   useEffect(() => {
     loadTags()
+    loadCatalogue()
+    loadRecipeOptions()
     if (isEditing) {
       loadRecipe()
     }
@@ -56,6 +84,48 @@ const RecipeEditor = () => {
     }
   }
 
+  const loadCatalogue = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('ingredients')
+        .select('id, name, aliases, category, allergens, diet')
+        .order('name')
+
+      if (error) throw error
+      setCatalogue(data || [])
+    } catch (error) {
+      console.error('Error loading ingredient catalogue:', error)
+    }
+  }
+
+  const loadRecipeOptions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recipes')
+        .select('id, title, slug, base_servings')
+        .order('title')
+
+      if (error) throw error
+      setRecipeOptions(data || [])
+    } catch (error) {
+      console.error('Error loading recipes:', error)
+    }
+  }
+
+  // Exact (case-insensitive) name or alias match. Anything looser is left
+  // to the database, which resolves ingredient_id from the name on save.
+  const findCatalogueEntry = (name) => {
+    const lower = name.trim().toLowerCase()
+    if (!lower) return null
+    return catalogue.find(entry =>
+      entry.name.toLowerCase() === lower ||
+      entry.aliases.some(alias => alias.toLowerCase() === lower)
+    ) || null
+  }
+
+  const getCatalogueEntry = (ingredient) =>
+    catalogue.find(entry => entry.id === ingredient.ingredient_id) || null
+
   const loadRecipe = async () => {
     try {
       setLoading(true)
@@ -65,7 +135,8 @@ const RecipeEditor = () => {
         .select(`
           *,
           recipe_ingredients(*),
-          recipe_steps(*),
+          recipe_steps(*, recipe_step_ingredients(recipe_ingredient_id, quantity)),
+          recipe_components!recipe_id(component_recipe_id, label, servings, sort_order),
           recipe_tags(tag_id)
         `)
         .eq('slug', slug)
@@ -73,10 +144,31 @@ const RecipeEditor = () => {
 
       if (recipeError) throw recipeError
 
-      setRecipe(recipeData)
-      setIngredients(recipeData.recipe_ingredients.sort((a, b) => a.sort_order - b.sort_order) || [])
-      setSteps(recipeData.recipe_steps.sort((a, b) => a.step_number - b.step_number) || [])
-      setSelectedTags(recipeData.recipe_tags.map(rt => rt.tag_id) || [])
+      const { recipe_ingredients, recipe_steps, recipe_components, recipe_tags, ...recipeFields } = recipeData
+      setRecipe(recipeFields)
+      setIngredients(recipe_ingredients
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(ing => ({ ...ing, section: ing.section || '' })))
+      setSteps((recipe_steps || [])
+        .sort((a, b) => a.step_number - b.step_number)
+        .map(step => ({
+          id: step.id,
+          step_number: step.step_number,
+          instruction: step.instruction,
+          section: step.section || '',
+          image_url: step.image_url || '',
+          image_alt: step.image_alt || '',
+          ingredients: step.recipe_step_ingredients || []
+        })))
+      setComponents((recipe_components || [])
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(component => ({
+          key: crypto.randomUUID(),
+          component_recipe_id: component.component_recipe_id,
+          label: component.label || '',
+          servings: component.servings
+        })))
+      setSelectedTags(recipe_tags.map(rt => rt.tag_id) || [])
     } catch (error) {
       console.error('Error loading recipe:', error)
       alert('Error loading recipe. Please try again.')
@@ -103,10 +195,20 @@ const RecipeEditor = () => {
     }))
   }
 
+  const updateNutrition = (field, value) => {
+    setRecipe(prev => ({
+      ...prev,
+      nutrition: { ...(prev.nutrition || {}), [field]: value }
+    }))
+  }
+
+  // New rows carry on in the section of the row above
+  const lastSection = (rows) => (rows.length ? rows[rows.length - 1].section || '' : '')
+
   const addIngredient = () => {
     setIngredients(prev => [
       ...prev,
-      { ingredient_name: '', quantity: '', unit: '', notes: '', sort_order: prev.length }
+      { id: crypto.randomUUID(), ingredient_id: null, ingredient_name: '', quantity: '', unit: '', notes: '', scalable: true, round_to: '', section: lastSection(prev), sort_order: prev.length }
     ])
   }
 
@@ -116,14 +218,26 @@ const RecipeEditor = () => {
     ))
   }
 
+  const updateIngredientName = (index, value) => {
+    const entry = findCatalogueEntry(value)
+    setIngredients(prev => prev.map((ing, i) =>
+      i === index ? { ...ing, ingredient_name: value, ingredient_id: entry ? entry.id : null } : ing
+    ))
+  }
+
   const removeIngredient = (index) => {
+    const removedId = ingredients[index].id
     setIngredients(prev => prev.filter((_, i) => i !== index))
+    setSteps(prev => prev.map(step => ({
+      ...step,
+      ingredients: step.ingredients.filter(ref => ref.recipe_ingredient_id !== removedId)
+    })))
   }
 
   const addStep = () => {
     setSteps(prev => [
       ...prev,
-      { step_number: prev.length + 1, instruction: '', image_url: '', image_alt: '' }
+      { id: crypto.randomUUID(), step_number: prev.length + 1, instruction: '', section: lastSection(prev), image_url: '', image_alt: '', ingredients: [] }
     ])
   }
 
@@ -133,6 +247,32 @@ const RecipeEditor = () => {
     ))
   }
 
+  // A step uses all of an ingredient line unless a quantity is given
+  const toggleStepIngredient = (stepIndex, ingredientId) => {
+    setSteps(prev => prev.map((step, i) => {
+      if (i !== stepIndex) return step
+      const uses = step.ingredients.some(ref => ref.recipe_ingredient_id === ingredientId)
+      return {
+        ...step,
+        ingredients: uses
+          ? step.ingredients.filter(ref => ref.recipe_ingredient_id !== ingredientId)
+          : [...step.ingredients, { recipe_ingredient_id: ingredientId, quantity: null }]
+      }
+    }))
+  }
+
+  const updateStepIngredientQuantity = (stepIndex, ingredientId, quantity) => {
+    setSteps(prev => prev.map((step, i) => i === stepIndex
+      ? {
+          ...step,
+          ingredients: step.ingredients.map(ref =>
+            ref.recipe_ingredient_id === ingredientId ? { ...ref, quantity: quantity || null } : ref
+          )
+        }
+      : step
+    ))
+  }
+
   const removeStep = (index) => {
     setSteps(prev => prev.filter((_, i) => i !== index).map((step, i) => ({
       ...step,
@@ -140,6 +280,23 @@ const RecipeEditor = () => {
     })))
   }
 
+  const addComponent = () => {
+    setComponents(prev => [
+      ...prev,
+      { key: crypto.randomUUID(), component_recipe_id: '', label: '', servings: recipe.base_servings || 1 }
+    ])
+  }
+
+  const updateComponent = (index, field, value) => {
+    setComponents(prev => prev.map((component, i) =>
+      i === index ? { ...component, [field]: value } : component
+    ))
+  }
+
+  const removeComponent = (index) => {
+    setComponents(prev => prev.filter((_, i) => i !== index))
+  }
+
   const toggleTag = (tagId) => {
     setSelectedTags(prev => 
       prev.includes(tagId)
@@ -148,6 +305,27 @@ const RecipeEditor = () => {
     )
   }
 
+  // Selected dietary tags the ingredients contradict, e.g. vegetarian with
+  // chicken stock. Lines not recognised yet are left to the database.
+  const getDietaryConflicts = () => {
+    const selectedSlugs = tags.filter(tag => selectedTags.includes(tag.id)).map(tag => tag.slug)
+
+    return Object.entries(DIETARY_TAG_RULES)
+      .filter(([tag]) => selectedSlugs.includes(tag))
+      .map(([tag, contradicts]) => ({
+        tag,
+        ingredients: ingredients
+          .filter(ing => {
+            const entry = getCatalogueEntry(ing) || findCatalogueEntry(ing.ingredient_name)
+            return entry && contradicts(entry)
+          })
+          .map(ing => ing.ingredient_name)
+      }))
+      .filter(conflict => conflict.ingredients.length > 0)
+  }
+
+  const dietaryConflicts = getDietaryConflicts()
+
   const validateForm = () => {
     if (!recipe.title.trim()) {
       alert('Please enter a recipe title')
@@ -165,6 +343,12 @@ const RecipeEditor = () => {
       alert('Please add at least one cooking step')
       return false
     }
+    if (recipe.is_published && dietaryConflicts.length > 0) {
+      const details = dietaryConflicts
+        .map(conflict => `${conflict.tag}: ${conflict.ingredients.join(', ')}`)
+        .join('\n')
+      return confirm(`These tags conflict with the ingredients:\n${details}\n\nPublish anyway?`)
+    }
     return true
   }
 
@@ -173,16 +357,24 @@ const RecipeEditor = () => {
 
     setSaving(true)
     try {
-      let recipeData = { ...recipe }
+      // Keep only the nutrition values that were filled in
+      const nutrition = Object.fromEntries(
+        Object.entries(recipe.nutrition || {})
+          .filter(([, value]) => value !== '' && value !== null && !isNaN(Number(value)))
+          .map(([key, value]) => [key, Number(value)])
+      )
+      let recipeData = { ...recipe, nutrition: Object.keys(nutrition).length > 0 ? nutrition : null }
       
       // Clean up ingredients and steps
       const validIngredients = ingredients
         .filter(ing => ing.ingredient_name.trim())
-        .map((ing, index) => ({ ...ing, sort_order: index }))
+        .map((ing, index) => ({ ...ing, round_to: ing.round_to || null, section: ing.section.trim() || null, sort_order: index }))
       
       const validSteps = steps
         .filter(step => step.instruction.trim())
         .map((step, index) => ({ ...step, step_number: index + 1 }))
+      const validComponents = components
+        .filter(component => component.component_recipe_id && Number(component.servings) > 0)
 
       if (isEditing) {
         // Update existing recipe
@@ -196,6 +388,7 @@ const RecipeEditor = () => {
         // Delete existing ingredients and steps
         await supabase.from('recipe_ingredients').delete().eq('recipe_id', recipe.id)
         await supabase.from('recipe_steps').delete().eq('recipe_id', recipe.id)
+        await supabase.from('recipe_components').delete().eq('recipe_id', recipe.id)
         await supabase.from('recipe_tags').delete().eq('recipe_id', recipe.id)
 
         // Log audit
@@ -236,9 +429,45 @@ const RecipeEditor = () => {
       if (validSteps.length > 0) {
         const { error: stepsError } = await supabase
           .from('recipe_steps')
-          .insert(validSteps.map(step => ({ ...step, recipe_id: recipeData.id })))
+          .insert(validSteps.map(step => ({
+            id: step.id,
+            recipe_id: recipeData.id,
+            step_number: step.step_number,
+            instruction: step.instruction,
+            section: step.section.trim() || null,
+            image_url: step.image_url || null,
+            image_alt: step.image_alt || null
+          })))
 
         if (stepsError) throw stepsError
+
+        // Link steps to the ingredients they use
+        const stepIngredients = validSteps.flatMap(step => step.ingredients
+          .filter(ref => validIngredients.some(ing => ing.id === ref.recipe_ingredient_id))
+          .map(ref => ({ step_id: step.id, recipe_ingredient_id: ref.recipe_ingredient_id, quantity: ref.quantity || null })))
+
+        if (stepIngredients.length > 0) {
+          const { error: stepIngredientsError } = await supabase
+            .from('recipe_step_ingredients')
+            .insert(stepIngredients)
+
+          if (stepIngredientsError) throw stepIngredientsError
+        }
+      }
+
+      // Insert components
+      if (validComponents.length > 0) {
+        const { error: componentsError } = await supabase
+          .from('recipe_components')
+          .insert(validComponents.map((component, index) => ({
+            recipe_id: recipeData.id,
+            component_recipe_id: component.component_recipe_id,
+            label: component.label.trim() || null,
+            servings: Number(component.servings),
+            sort_order: index
+          })))
+
+        if (componentsError) throw componentsError
       }
 
       // Insert tags
@@ -432,6 +661,29 @@ const RecipeEditor = () => {
                 </div>
               </div>
 
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Nutrition per serving</h4>
+                <p className="mt-1 text-sm text-gray-500">
+                  Calculated on the site from the ingredients. Fill in a value only to replace the calculated one.
+                </p>
+                <div className="mt-3 grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  {NUTRITION_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <label className="block text-xs font-medium text-gray-700">{label}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        placeholder="Calculated"
+                        value={recipe.nutrition?.[key] ?? ''}
+                        onChange={(e) => updateNutrition(key, e.target.value)}
+                        className="mt-1 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div className="flex items-center space-x-6">
                 <label className="flex items-center">
                   <input
@@ -468,6 +720,22 @@ const RecipeEditor = () => {
                 </button>
               </div>
 
+              <datalist id="ingredient-catalogue">
+                {catalogue.map(entry => (
+                  <option key={entry.id} value={entry.name} />
+                ))}
+              </datalist>
+
+              <datalist id="ingredient-sections">
+                {[...new Set(ingredients.map(ing => ing.section.trim()).filter(Boolean))].map(section => (
+                  <option key={section} value={section} />
+                ))}
+              </datalist>
+
+              <p className="text-sm text-gray-500">
+                Give lines a section to show them under a heading such as "For the pastry". Keep each section's lines together.
+              </p>
+
               <div className="space-y-4">
                 {ingredients.map((ingredient, index) => (
                   <div key={index} className="grid grid-cols-12 gap-4 items-start">
@@ -475,10 +743,22 @@ const RecipeEditor = () => {
                       <input
                         type="text"
                         placeholder="Ingredient name"
+                        list="ingredient-catalogue"
                         value={ingredient.ingredient_name}
-                        onChange={(e) => updateIngredient(index, 'ingredient_name', e.target.value)}
+                        onChange={(e) => updateIngredientName(index, e.target.value)}
                         className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                       />
+                      {ingredient.ingredient_name.trim() && (
+                        getCatalogueEntry(ingredient) ? (
+                          <p className="mt-1 text-xs text-green-700">
+                            ✓ {getCatalogueEntry(ingredient).name} · {getCatalogueEntry(ingredient).category}
+                          </p>
+                        ) : (
+                          <p className="mt-1 text-xs text-gray-500">
+                            Not in catalogue yet, matched by name on save
+                          </p>
+                        )
+                      )}
                     </div>
                     <div className="col-span-2">
                       <input
@@ -515,6 +795,109 @@ const RecipeEditor = () => {
                         ✕
                       </button>
                     </div>
+                    <div className="col-span-11 -mt-2 flex items-center space-x-6 text-sm text-gray-700">
+                      <label className="inline-flex items-center">
+                        <span className="mr-2">Section</span>
+                        <input
+                          type="text"
+                          placeholder="e.g. For the batter"
+                          list="ingredient-sections"
+                          value={ingredient.section}
+                          onChange={(e) => updateIngredient(index, 'section', e.target.value)}
+                          className="w-40 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </label>
+                      <label className="inline-flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={ingredient.scalable !== false}
+                          onChange={(e) => updateIngredient(index, 'scalable', e.target.checked)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="ml-2">Scales with servings</span>
+                      </label>
+                      <label className="inline-flex items-center">
+                        <span className="mr-2">Round to</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          placeholder="Any"
+                          value={ingredient.round_to ?? ''}
+                          onChange={(e) => updateIngredient(index, 'round_to', e.target.value)}
+                          className="w-20 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        />
+                      </label>
+                      <span className="text-xs text-gray-500">
+                        Untick for "to taste" lines; round to 1 for eggs and other whole items
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-t border-gray-200 pt-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900">Components</h4>
+                    <p className="text-sm text-gray-500">
+                      Other recipes made as part of this one, e.g. a gravy. Servings is how much of it this recipe needs at its own servings.
+                    </p>
+                  </div>
+                  <button
+                    onClick={addComponent}
+                    className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-blue-700 bg-blue-100 hover:bg-blue-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    + Add Component
+                  </button>
+                </div>
+
+                {components.map((component, index) => (
+                  <div key={component.key} className="grid grid-cols-12 gap-4 items-center">
+                    <div className="col-span-5">
+                      <select
+                        value={component.component_recipe_id}
+                        onChange={(e) => updateComponent(index, 'component_recipe_id', e.target.value)}
+                        className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      >
+                        <option value="">Choose a recipe…</option>
+                        {recipeOptions
+                          .filter(option => option.id !== recipe.id)
+                          .map(option => (
+                            <option key={option.id} value={option.id}>
+                              {option.title} (serves {option.base_servings})
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                    <div className="col-span-4">
+                      <input
+                        type="text"
+                        placeholder="Heading, e.g. For the gravy"
+                        value={component.label}
+                        onChange={(e) => updateComponent(index, 'label', e.target.value)}
+                        className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        placeholder="Servings"
+                        value={component.servings}
+                        onChange={(e) => updateComponent(index, 'servings', e.target.value)}
+                        className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="col-span-1">
+                      <button
+                        onClick={() => removeComponent(index)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        ✕
+                      </button>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -545,6 +928,13 @@ const RecipeEditor = () => {
                         Remove Step
                       </button>
                     </div>
+                    <input
+                      type="text"
+                      placeholder="Section (optional), e.g. Make the pastry"
+                      value={step.section}
+                      onChange={(e) => updateStep(index, 'section', e.target.value)}
+                      className="mb-2 block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    />
                     <textarea
                       rows={3}
                       placeholder="Describe this cooking step..."
@@ -552,6 +942,44 @@ const RecipeEditor = () => {
                       onChange={(e) => updateStep(index, 'instruction', e.target.value)}
                       className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                     />
+
+                    {ingredients.some(ing => ing.ingredient_name.trim()) && (
+                      <div className="mt-3">
+                        <p className="text-xs font-medium text-gray-700 mb-2">
+                          Ingredients used in this step (leave the amount empty if it uses all of it)
+                        </p>
+                        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                          {ingredients.filter(ing => ing.ingredient_name.trim()).map((ing) => {
+                            const ref = step.ingredients.find(r => r.recipe_ingredient_id === ing.id)
+                            return (
+                              <div key={ing.id} className="flex items-center space-x-2 text-sm">
+                                <label className="flex items-center flex-1 min-w-0">
+                                  <input
+                                    type="checkbox"
+                                    checked={Boolean(ref)}
+                                    onChange={() => toggleStepIngredient(index, ing.id)}
+                                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                                  />
+                                  <span className="ml-2 text-gray-700 truncate">{ing.ingredient_name}</span>
+                                </label>
+                                {ref && (
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    placeholder={ing.quantity ? `All (${ing.quantity})` : 'All'}
+                                    value={ref.quantity ?? ''}
+                                    onChange={(e) => updateStepIngredientQuantity(index, ing.id, e.target.value)}
+                                    className="w-24 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                  />
+                                )}
+                                {ref && <span className="text-xs text-gray-500 w-10">{ing.unit}</span>}
+                              </div>
+                            )
+                          })}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -599,6 +1027,15 @@ const RecipeEditor = () => {
                     </label>
                   ))}
                 </div>
+                {dietaryConflicts.length > 0 && (
+                  <div className="mt-3 rounded-md bg-yellow-50 border border-yellow-200 p-3 text-sm text-yellow-800">
+                    {dietaryConflicts.map(conflict => (
+                      <p key={conflict.tag}>
+                        Tagged {conflict.tag} but uses {conflict.ingredients.join(', ')}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -82,6 +82,23 @@ const RecipesList = () => {
 
     setBulkActionLoading(true)
     try {
+      if (publish) {
+        const { data: conflicts, error: conflictsError } = await supabase
+          .rpc('dietary_tag_conflicts', { recipe_ids: selectedRecipes })
+
+        if (conflictsError) throw conflictsError
+
+        if (conflicts.length > 0) {
+          const details = conflicts
+            .map(conflict => {
+              const title = recipes.find(r => r.id === conflict.recipe_id)?.title || conflict.recipe_id
+              return `${title} is tagged ${conflict.tag} but uses ${conflict.ingredient_name}`
+            })
+            .join('\n')
+          if (!confirm(`${details}\n\nPublish anyway?`)) return
+        }
+      }
+
       const { error } = await supabase
         .from('recipes')
         .update({ is_published: publish })
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { useAuth } from '../contexts/AuthContext'
+
+const PHOTO_BUCKET = 'review-photos'
+const PHOTO_URL_EXPIRY_SECS = 60 * 60
+
+const Reviews = () => {
+  const [reviews, setReviews] = useState([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState('pending') // pending, approved, rejected
+  const [actionLoading, setActionLoading] = useState(null) // id of the review being moderated
+  const [photoUrls, setPhotoUrls] = useState({}) // signed URLs by path, the bucket is private
+
+  const { user, hasAdminOnlyAccess } = useAuth()
+
+  useEffect(() => {
+    loadReviews()
+  }, [statusFilter])
+
+  const loadReviews = async () => {
+    try {
+      setLoading(true)
+
+      const { data, error } = await supabase
+        .from('recipe_reviews')
+        .select(`
+          id,
+          recipe_id,
+          rating,
+          body,
+          made_it,
+          photo_paths,
+          status,
+          moderation_note,
+          created_at,
+          updated_at,
+          recipes(title, slug),
+          author:public_profiles!user_id(full_name),
+          profiles!user_id(email)
+        `)
+        .eq('status', statusFilter)
+        // Oldest first while working through the queue
+        .order('updated_at', { ascending: statusFilter === 'pending' })
+        .limit(100)
+
+      if (error) throw error
+
+      const paths = (data || []).flatMap(review => review.photo_paths)
+      if (paths.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from(PHOTO_BUCKET)
+          .createSignedUrls(paths, PHOTO_URL_EXPIRY_SECS)
+
+        if (signError) throw signError
+
+        setPhotoUrls(Object.fromEntries(
+          signed.filter(item => !item.error).map(item => [item.path, item.signedUrl])
+        ))
+      }
+
+      setReviews(data || [])
+    } catch (error) {
+      console.error('Error loading reviews:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleModerate = async (review, approve) => {
+    let note = null
+    if (!approve) {
+      note = prompt('Why is this review being rejected? The reviewer will see this.')
+      if (note === null) return
+    }
+
+    setActionLoading(review.id)
+    try {
+      // The audit log entry is added by a trigger on recipe_reviews
+      const { error } = await supabase
+        .from('recipe_reviews')
+        .update({
+          status: approve ? 'approved' : 'rejected',
+          moderation_note: note?.trim() || null,
+          moderated_by: user.id,
+          moderated_at: new Date().toISOString()
+        })
+        .eq('id', review.id)
+
+      if (error) throw error
+
+      setReviews(prev => prev.filter(r => r.id !== review.id))
+    } catch (error) {
+      console.error('Error moderating review:', error)
+      alert('Error updating review. Please try again.')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const handleDelete = async (review) => {
+    if (!hasAdminOnlyAccess()) {
+      alert('Only administrators can delete reviews.')
+      return
+    }
+
+    if (!confirm('Are you sure you want to delete this review? This action cannot be undone.')) {
+      return
+    }
+
+    setActionLoading(review.id)
+    try {
+      const { error } = await supabase
+        .from('recipe_reviews')
+        .delete()
+        .eq('id', review.id)
+
+      if (error) throw error
+
+      if (review.photo_paths.length > 0) {
+        await supabase.storage.from(PHOTO_BUCKET).remove(review.photo_paths)
+      }
+
+      setReviews(prev => prev.filter(r => r.id !== review.id))
+    } catch (error) {
+      console.error('Error deleting review:', error)
+      alert('Error deleting review. Please try again.')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const formatDate = (dateString) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric'
+    })
+  }
+
+  const renderStars = (rating) => {
+    return (
+      <span className="text-yellow-400" aria-label={`${rating} out of 5 stars`}>
+        {'★'.repeat(rating)}
+        <span className="text-gray-300">{'★'.repeat(5 - rating)}</span>
+      </span>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="sm:flex sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Reviews</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Approve or reject reviews before they appear on the site
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="block w-full pl-3 pr-10 py-2 text-base border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+          >
+            <option value="pending">Waiting for review</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-sm text-gray-500">Loading reviews...</p>
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="p-6 text-center">
+            <h3 className="text-sm font-medium text-gray-900">No reviews here</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              {statusFilter === 'pending' ? 'The queue is empty.' : 'Try another status.'}
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {reviews.map((review) => (
+              <li key={review.id} className="p-6">
+                <div className="sm:flex sm:items-start sm:justify-between sm:space-x-6">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                      {renderStars(review.rating)}
+                      {review.made_it && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                          Made it
+                        </span>
+                      )}
+                      <span className="font-medium text-gray-900">{review.recipes?.title}</span>
+                    </div>
+                    <p className="mt-1 text-sm text-gray-500">
+                      by {review.author?.full_name || review.profiles?.email || 'Unknown user'} · {formatDate(review.updated_at)}
+                    </p>
+                    {review.body && (
+                      <p className="mt-3 text-sm text-gray-800 whitespace-pre-line">{review.body}</p>
+                    )}
+                    {review.photo_paths.length > 0 && (
+                      <div className="mt-3 flex space-x-2">
+                        {review.photo_paths.filter((path) => photoUrls[path]).map((path) => (
+                          <a key={path} href={photoUrls[path]} target="_blank" rel="noopener noreferrer">
+                            <img src={photoUrls[path]} alt="" className="h-20 w-20 rounded object-cover" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {review.moderation_note && (
+                      <p className="mt-3 text-sm text-gray-500">Note: {review.moderation_note}</p>
+                    )}
+                  </div>
+
+                  <div className="mt-4 sm:mt-0 flex items-center space-x-2 text-sm font-medium">
+                    {review.status !== 'approved' && (
+                      <button
+                        onClick={() => handleModerate(review, true)}
+                        disabled={actionLoading === review.id}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-green-700 bg-green-100 hover:bg-green-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {review.status !== 'rejected' && (
+                      <button
+                        onClick={() => handleModerate(review, false)}
+                        disabled={actionLoading === review.id}
+                        className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-yellow-700 bg-yellow-100 hover:bg-yellow-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    )}
+                    {hasAdminOnlyAccess() && (
+                      <button
+                        onClick={() => handleDelete(review)}
+                        disabled={actionLoading === review.id}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default Reviews
@@ -11,6 +11,24 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY
 );
 
+// recipe_step_ingredients rows for the steps just inserted. Each step may
+// list `ingredients: [{ recipe_ingredient_id, quantity }]`, referring to
+// ingredient lines by the ids sent with them.
+function buildStepIngredients(steps, stepsData, insertedSteps) {
+  return steps.flatMap((step, index) => {
+    const inserted = (insertedSteps || []).find(row => row.step_number === stepsData[index].step_number);
+    if (!inserted || !Array.isArray(step.ingredients)) return [];
+
+    return step.ingredients
+      .filter(ref => ref.recipe_ingredient_id)
+      .map(ref => ({
+        step_id: inserted.id,
+        recipe_ingredient_id: ref.recipe_ingredient_id,
+        quantity: ref.quantity || null
+      }));
+  });
+}
+
 export default async function handler(req, res) {
   // Only allow POST requests
   if (req.method !== 'POST') {
@@ -57,7 +75,7 @@ export default async function handler(req, res) {
     }
 
     // Extract recipe data from request body
-    const { recipe, ingredients = [], steps = [], tags = [] } = req.body;
+    const { recipe, ingredients = [], steps = [], tags = [], components = [] } = req.body;
 
     if (!recipe) {
       return res.status(400).json({
@@ -116,17 +134,25 @@ export default async function handler(req, res) {
     // Insert ingredients if provided
     if (ingredients.length > 0) {
       const ingredientsData = ingredients.map((ing, index) => ({
+        // Client-chosen id, so steps can refer to the line
+        ...(ing.id ? { id: ing.id } : {}),
         recipe_id: newRecipe.id,
+        // Catalogue link; left null it is resolved from the name on insert
+        ingredient_id: ing.ingredient_id || null,
         ingredient_name: ing.ingredient_name,
         quantity: ing.quantity || null,
         unit: ing.unit || null,
         notes: ing.notes || null,
+        scalable: ing.scalable !== false,
+        round_to: ing.round_to || null,
+        section: ing.section || null,
         sort_order: ing.sort_order !== undefined ? ing.sort_order : index
       }));
 
+      // Rows sent without an id get a generated one rather than NULL
       const { error: ingredientsError } = await supabase
         .from('recipe_ingredients')
-        .insert(ingredientsData);
+        .insert(ingredientsData, { defaultToNull: false });
 
       if (ingredientsError) {
         console.error('Ingredients creation error:', ingredientsError);
@@ -142,16 +168,19 @@ export default async function handler(req, res) {
     // Insert steps if provided
     if (steps.length > 0) {
       const stepsData = steps.map((step, index) => ({
+        ...(step.id ? { id: step.id } : {}),
         recipe_id: newRecipe.id,
         step_number: step.step_number !== undefined ? step.step_number : index + 1,
         instruction: step.instruction,
+        section: step.section || null,
         image_url: step.image_url || null,
         image_alt: step.image_alt || null
       }));
 
-      const { error: stepsError } = await supabase
+      const { data: insertedSteps, error: stepsError } = await supabase
         .from('recipe_steps')
-        .insert(stepsData);
+        .insert(stepsData, { defaultToNull: false })
+        .select('id, step_number');
 
       if (stepsError) {
         console.error('Steps creation error:', stepsError);
@@ -162,6 +191,47 @@ export default async function handler(req, res) {
           error: 'Failed to create recipe steps'
         });
       }
+
+      // Link each step to the ingredient lines it uses
+      const stepIngredientsData = buildStepIngredients(steps, stepsData, insertedSteps);
+      if (stepIngredientsData.length > 0) {
+        const { error: stepIngredientsError } = await supabase
+          .from('recipe_step_ingredients')
+          .insert(stepIngredientsData);
+
+        if (stepIngredientsError) {
+          console.error('Step ingredients creation error:', stepIngredientsError);
+          await supabase.from('recipes').delete().eq('id', newRecipe.id);
+          return res.status(500).json({
+            success: false,
+            error: 'Failed to link ingredients to steps'
+          });
+        }
+      }
+    }
+
+    // Insert components (other recipes used in this one) if provided
+    if (components.length > 0) {
+      const componentsData = components.map((component, index) => ({
+        recipe_id: newRecipe.id,
+        component_recipe_id: component.component_recipe_id,
+        label: component.label || null,
+        servings: component.servings,
+        sort_order: component.sort_order !== undefined ? component.sort_order : index
+      }));
+
+      const { error: componentsError } = await supabase
+        .from('recipe_components')
+        .insert(componentsData);
+
+      if (componentsError) {
+        console.error('Components creation error:', componentsError);
+        await supabase.from('recipes').delete().eq('id', newRecipe.id);
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to create recipe components'
+        });
+      }
     }
 
     // Insert tags if provided
@@ -198,6 +268,7 @@ export default async function handler(req, res) {
           slug: recipe.slug,
           ingredients_count: ingredients.length,
           steps_count: steps.length,
+          components_count: components.length,
           tags_count: tags.length
         }
       });
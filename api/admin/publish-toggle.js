@@ -133,13 +133,37 @@ export default async function handler(req, res) {
       .from('admin_audit')
       .insert(auditEntries);
 
+    // Publishing goes ahead, but dietary tags the ingredients contradict
+    // (e.g. 'vegetarian' with chicken stock) come back as warnings
+    let warnings = [];
+    if (published) {
+      const { data: conflicts, error: conflictsError } = await supabase
+        .rpc('dietary_tag_conflicts', { recipe_ids: targetRecipeIds });
+
+      if (conflictsError) {
+        console.error('Dietary tag check error:', conflictsError);
+      }
+
+      warnings = (conflicts || []).map(conflict => {
+        const recipe = existingRecipes.find(r => r.id === conflict.recipe_id);
+        return {
+          recipe_id: conflict.recipe_id,
+          slug: recipe?.slug,
+          tag: conflict.tag,
+          ingredient: conflict.ingredient_name,
+          message: `${recipe?.title || 'Recipe'} is tagged ${conflict.tag} but uses ${conflict.ingredient_name}`
+        };
+      });
+    }
+
     // Return success response
     return res.status(200).json({
       success: true,
       data: {
         message: `${targetRecipeIds.length} recipe(s) ${published ? 'published' : 'unpublished'} successfully`,
         updated_recipes: updatedRecipes,
-        count: targetRecipeIds.length
+        count: targetRecipeIds.length,
+        warnings
       }
     });
 
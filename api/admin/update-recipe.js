@@ -11,6 +11,24 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY
 );
 
+// recipe_step_ingredients rows for the steps just inserted. Each step may
+// list `ingredients: [{ recipe_ingredient_id, quantity }]`, referring to
+// ingredient lines by the ids sent with them.
+function buildStepIngredients(steps, stepsData, insertedSteps) {
+  return steps.flatMap((step, index) => {
+    const inserted = (insertedSteps || []).find(row => row.step_number === stepsData[index].step_number);
+    if (!inserted || !Array.isArray(step.ingredients)) return [];
+
+    return step.ingredients
+      .filter(ref => ref.recipe_ingredient_id)
+      .map(ref => ({
+        step_id: inserted.id,
+        recipe_ingredient_id: ref.recipe_ingredient_id,
+        quantity: ref.quantity || null
+      }));
+  });
+}
+
 export default async function handler(req, res) {
   // Only allow PUT requests
   if (req.method !== 'PUT') {
@@ -57,7 +75,7 @@ export default async function handler(req, res) {
     }
 
     // Extract recipe data from request body
-    const { recipeId, recipe, ingredients = [], steps = [], tags = [] } = req.body;
+    const { recipeId, recipe, ingredients = [], steps = [], tags = [], components = [] } = req.body;
 
     if (!recipeId || !recipe) {
       return res.status(400).json({
@@ -118,10 +136,11 @@ export default async function handler(req, res) {
       });
     }
 
-    // Delete existing ingredients, steps, and tags
+    // Delete existing ingredients, steps, components, and tags
     await Promise.all([
       supabase.from('recipe_ingredients').delete().eq('recipe_id', recipeId),
       supabase.from('recipe_steps').delete().eq('recipe_id', recipeId),
+      supabase.from('recipe_components').delete().eq('recipe_id', recipeId),
       supabase.from('recipe_tags').delete().eq('recipe_id', recipeId)
     ]);
 
@@ -130,18 +149,26 @@ export default async function handler(req, res) {
       const ingredientsData = ingredients
         .filter(ing => ing.ingredient_name && ing.ingredient_name.trim())
         .map((ing, index) => ({
+          // Client-chosen id, so steps can refer to the line
+          ...(ing.id ? { id: ing.id } : {}),
           recipe_id: recipeId,
+          // Catalogue link; left null it is resolved from the name on insert
+          ingredient_id: ing.ingredient_id || null,
           ingredient_name: ing.ingredient_name,
           quantity: ing.quantity || null,
           unit: ing.unit || null,
           notes: ing.notes || null,
+          scalable: ing.scalable !== false,
+          round_to: ing.round_to || null,
+          section: ing.section || null,
           sort_order: ing.sort_order !== undefined ? ing.sort_order : index
         }));
 
       if (ingredientsData.length > 0) {
+        // Rows sent without an id get a generated one rather than NULL
         const { error: ingredientsError } = await supabase
           .from('recipe_ingredients')
-          .insert(ingredientsData);
+          .insert(ingredientsData, { defaultToNull: false });
 
         if (ingredientsError) {
           console.error('Ingredients update error:', ingredientsError);
@@ -155,20 +182,23 @@ export default async function handler(req, res) {
 
     // Insert new steps if provided
     if (steps.length > 0) {
-      const stepsData = steps
-        .filter(step => step.instruction && step.instruction.trim())
+      const validSteps = steps.filter(step => step.instruction && step.instruction.trim());
+      const stepsData = validSteps
         .map((step, index) => ({
+          ...(step.id ? { id: step.id } : {}),
           recipe_id: recipeId,
           step_number: step.step_number !== undefined ? step.step_number : index + 1,
           instruction: step.instruction,
+          section: step.section || null,
           image_url: step.image_url || null,
           image_alt: step.image_alt || null
         }));
 
       if (stepsData.length > 0) {
-        const { error: stepsError } = await supabase
+        const { data: insertedSteps, error: stepsError } = await supabase
           .from('recipe_steps')
-          .insert(stepsData);
+          .insert(stepsData, { defaultToNull: false })
+          .select('id, step_number');
 
         if (stepsError) {
           console.error('Steps update error:', stepsError);
@@ -177,6 +207,49 @@ export default async function handler(req, res) {
             error: 'Failed to update recipe steps'
           });
         }
+
+        // Link each step to the ingredient lines it uses
+        const stepIngredientsData = buildStepIngredients(validSteps, stepsData, insertedSteps);
+        if (stepIngredientsData.length > 0) {
+          const { error: stepIngredientsError } = await supabase
+            .from('recipe_step_ingredients')
+            .insert(stepIngredientsData);
+
+          if (stepIngredientsError) {
+            console.error('Step ingredients update error:', stepIngredientsError);
+            return res.status(500).json({
+              success: false,
+              error: 'Failed to link ingredients to steps'
+            });
+          }
+        }
+      }
+    }
+
+    // Insert new components if provided; a recipe can't include itself
+    if (components.length > 0) {
+      const componentsData = components
+        .filter(component => component.component_recipe_id && component.component_recipe_id !== recipeId)
+        .map((component, index) => ({
+          recipe_id: recipeId,
+          component_recipe_id: component.component_recipe_id,
+          label: component.label || null,
+          servings: component.servings,
+          sort_order: component.sort_order !== undefined ? component.sort_order : index
+        }));
+
+      if (componentsData.length > 0) {
+        const { error: componentsError } = await supabase
+          .from('recipe_components')
+          .insert(componentsData);
+
+        if (componentsError) {
+          console.error('Components update error:', componentsError);
+          return res.status(500).json({
+            success: false,
+            error: 'Failed to update recipe components'
+          });
+        }
       }
     }
 
@@ -212,6 +285,7 @@ export default async function handler(req, res) {
           slug: recipe.slug || existingRecipe.slug,
           ingredients_count: ingredients.length,
           steps_count: steps.length,
+          components_count: components.length,
           tags_count: tags.length,
           previous_title: existingRecipe.title
         }
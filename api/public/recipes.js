@@ -1,6 +1,11 @@
 // ============================================================================
 // Public Recipes API - Vercel Serverless Function
 // GET /api/public/recipes
+//
+// Request/response contract: see RecipeListQuery and RecipeListData in
+// src/types/api.ts. List parameters (tag, excludeTag, excludeAllergen, have,
+// cuisine, difficulty) are comma-separated; tagMode ('any' | 'all') controls how tags
+// combine.
 // ============================================================================
 
 import { createClient } from '@supabase/supabase-js';
@@ -11,6 +16,21 @@ const supabase = createClient(
   process.env.SUPABASE_ANON_KEY
 );
 
+// Sort fields accepted by get_published_recipes (RecipeSort['field']).
+// 'relevance' (the default when searching or matching ingredients) orders by
+// ingredients on hand, then search rank.
+const SORT_FIELDS = ['relevance', 'title', 'totalTimeMins', 'datePublished', 'difficulty'];
+
+// How multiple tag slugs combine (TagMatchMode)
+const TAG_MODES = ['any', 'all'];
+
+// Split a comma-separated query parameter into a list, or null when empty
+const parseList = (value) => {
+  if (!value) return null;
+  const items = String(value).split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
 export default async function handler(req, res) {
   // Only allow GET requests
   if (req.method !== 'GET') {
@@ -25,30 +45,72 @@ export default async function handler(req, res) {
     const {
       q: searchQuery,
       tag: tagFilter,
+      tagMode = 'any',
+      excludeTag: excludeTagFilter,
+      excludeAllergen: excludeAllergenFilter,
+      have: haveFilter,
       cuisine: cuisineFilter,
       difficulty: difficultyFilter,
       limit = '20',
       page = '1',
-      featured = 'false'
+      offset: offsetParam,
+      featured = 'false',
+      maxPrepTime,
+      sortBy,
+      sortOrder = 'asc'
     } = req.query;
 
-    // Parse and validate pagination parameters
-    const limitNum = Math.min(parseInt(limit) || 20, 100); // Max 100 items per page
-    const pageNum = Math.max(parseInt(page) || 1, 1);
-    const offset = (pageNum - 1) * limitNum;
+    // Parse comma-separated list parameters
+    const tagSlugs = parseList(tagFilter);
+    const excludeTagSlugs = parseList(excludeTagFilter);
+    const excludeAllergens = parseList(excludeAllergenFilter);
+    const haveIngredients = parseList(haveFilter);
+    const cuisines = parseList(cuisineFilter);
+    const difficulties = parseList(difficultyFilter);
+    const maxPrepTimeNum = parseInt(maxPrepTime) || null;
+
+    if (!TAG_MODES.includes(tagMode)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid tagMode. Expected one of: ${TAG_MODES.join(', ')}`
+      });
+    }
+
+    if (sortBy && !SORT_FIELDS.includes(sortBy)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid sortBy. Expected one of: ${SORT_FIELDS.join(', ')}`
+      });
+    }
+
+    // Parse and validate pagination parameters. An offset takes precedence
+    // over page, so callers can start anywhere (the site always sends one).
+    const limitNum = Math.min(parseInt(limit) > 0 ? parseInt(limit) : 20, 100); // Max 100 items per page
+    const offset = offsetParam !== undefined
+      ? Math.max(parseInt(offsetParam) || 0, 0)
+      : (Math.max(parseInt(page) || 1, 1) - 1) * limitNum;
+    const pageNum = Math.floor(offset / limitNum) + 1;
 
     // Build the query using the stored function for better performance
-    let query = supabase.rpc('get_published_recipes', {
+    const rpcParams = {
       search_query: searchQuery || null,
-      tag_filter: tagFilter || null,
-      cuisine_filter: cuisineFilter || null,
-      difficulty_filter: difficultyFilter || null,
+      tag_filter: tagSlugs,
+      tag_match_all: tagMode === 'all',
+      exclude_tags: excludeTagSlugs,
+      exclude_allergens: excludeAllergens,
+      have_ingredients: haveIngredients,
+      cuisine_filter: cuisines,
+      difficulty_filter: difficulties,
+      max_prep_time: maxPrepTimeNum,
+      sort_by: sortBy || null,
+      sort_order: sortOrder === 'desc' ? 'desc' : 'asc',
+      featured_only: featured === 'true',
       limit_count: limitNum,
       offset_count: offset
-    });
+    };
 
     // Execute the query
-    const { data: recipes, error } = await query;
+    const { data: recipes, error } = await supabase.rpc('get_published_recipes', rpcParams);
 
     if (error) {
       console.error('Supabase error:', error);
@@ -58,51 +120,31 @@ export default async function handler(req, res) {
       });
     }
 
-    // Get total count for pagination (separate query)
-    let countQuery = supabase
-      .from('recipes')
-      .select('id', { count: 'exact', head: true })
-      .eq('is_published', true);
-
-    // Apply the same filters for count
-    if (searchQuery) {
-      countQuery = countQuery.or(`title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`);
-    }
-    if (cuisineFilter) {
-      countQuery = countQuery.eq('cuisine', cuisineFilter);
-    }
-    if (difficultyFilter) {
-      countQuery = countQuery.eq('difficulty', difficultyFilter);
-    }
-    if (tagFilter) {
-      countQuery = countQuery.in('id', 
-        supabase
-          .from('recipe_tags')
-          .select('recipe_id')
-          .in('tag_id', 
-            supabase
-              .from('tags')
-              .select('id')
-              .eq('slug', tagFilter)
-          )
-      );
-    }
+    const filteredRecipes = recipes || [];
 
-    const { count: totalCount, error: countError } = await countQuery;
+    // Every row carries the filtered total (COUNT(*) OVER() in the RPC). A
+    // page past the end has no rows, so count from the first one instead.
+    let totalCount = filteredRecipes.length > 0 ? Number(filteredRecipes[0].total_count) : 0;
+    if (filteredRecipes.length === 0 && offset > 0) {
+      const { data: firstRows, error: countError } = await supabase.rpc('get_published_recipes', {
+        ...rpcParams,
+        limit_count: 1,
+        offset_count: 0
+      });
 
-    if (countError) {
-      console.error('Count query error:', countError);
-      // Continue without count if this fails
-    }
+      if (countError) {
+        console.error('Supabase error:', countError);
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to fetch recipes'
+        });
+      }
 
-    // Filter by featured if requested
-    let filteredRecipes = recipes || [];
-    if (featured === 'true') {
-      filteredRecipes = filteredRecipes.filter(recipe => recipe.is_featured);
+      totalCount = firstRows && firstRows.length > 0 ? Number(firstRows[0].total_count) : 0;
     }
 
     // Calculate pagination metadata
-    const totalPages = totalCount ? Math.ceil(totalCount / limitNum) : 1;
+    const totalPages = Math.max(Math.ceil(totalCount / limitNum), 1);
     const hasNextPage = pageNum < totalPages;
     const hasPrevPage = pageNum > 1;
 
@@ -119,16 +161,21 @@ export default async function handler(req, res) {
         pagination: {
           page: pageNum,
           limit: limitNum,
-          total: totalCount || filteredRecipes.length,
+          total: totalCount,
           totalPages,
           hasNextPage,
           hasPrevPage
         },
         filters: {
           search: searchQuery || null,
-          tag: tagFilter || null,
-          cuisine: cuisineFilter || null,
-          difficulty: difficultyFilter || null,
+          tag: tagSlugs,
+          tagMode,
+          excludeTag: excludeTagSlugs,
+          excludeAllergen: excludeAllergens,
+          have: haveIngredients,
+          cuisine: cuisines,
+          difficulty: difficulties,
+          maxPrepTime: maxPrepTimeNum,
           featured: featured === 'true'
         }
       }
@@ -0,0 +1,119 @@
+// ============================================================================
+// Public Recipe Detail API - Vercel Serverless Function
+// GET /api/public/recipes/:slug
+//
+// Returns one published recipe with its ingredients, steps and tags nested
+// into a single RecipeRow (see RecipeDetailData in src/types/api.ts).
+// ============================================================================
+
+import { createClient } from '@supabase/supabase-js';
+
+// Initialize Supabase client with anon key (read-only access)
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_ANON_KEY
+);
+
+export default async function handler(req, res) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const { slug } = req.query;
+
+    if (!slug) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing recipe slug'
+      });
+    }
+
+    // Fetch the recipe together with its related rows in one request
+    const { data: recipe, error } = await supabase
+      .from('recipes')
+      .select(`
+        id,
+        title,
+        slug,
+        description,
+        cuisine,
+        difficulty,
+        prep_time_mins,
+        cook_time_mins,
+        total_time_mins,
+        base_servings,
+        image_url,
+        image_alt,
+        author_name,
+        date_published,
+        is_featured,
+        nutrition,
+        recipe_ingredients(id, ingredient_id, ingredient_name, quantity, unit, notes, scalable, round_to, section, sort_order, catalogue:ingredients(name, category, density, allergens, diet)),
+        recipe_steps(id, step_number, instruction, section, image_url, image_alt, ingredients:recipe_step_ingredients(recipe_ingredient_id, quantity)),
+        components:recipe_components!recipe_id(id, label, servings, sort_order, recipe:recipes!component_recipe_id(
+          id, title, slug, base_servings,
+          ingredients:recipe_ingredients(id, ingredient_id, ingredient_name, quantity, unit, notes, scalable, round_to, section, sort_order, catalogue:ingredients(name, category, density, allergens, diet)),
+          steps:recipe_steps(id, step_number, instruction, section, image_url, image_alt, ingredients:recipe_step_ingredients(recipe_ingredient_id, quantity))
+        )),
+        recipe_tags(tags(name, slug)),
+        rating:recipe_ratings(average, count)
+      `)
+      .eq('slug', slug)
+      .eq('is_published', true)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch recipe'
+      });
+    }
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recipe not found'
+      });
+    }
+
+    // Flatten the junction rows into the RecipeRow shape
+    const { recipe_ingredients, recipe_steps, recipe_tags, ...recipeFields } = recipe;
+
+    res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+    res.setHeader('Content-Type', 'application/json');
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        recipe: {
+          ...recipeFields,
+          tags: (recipe_tags || []).map(rt => rt.tags).filter(Boolean),
+          ingredients: (recipe_ingredients || []).sort((a, b) => a.sort_order - b.sort_order),
+          steps: (recipe_steps || []).sort((a, b) => a.step_number - b.step_number)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Recipe detail API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+}
+
+// Export config for Vercel
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
@@ -0,0 +1,106 @@
+// ============================================================================
+// Public Recipes By Id API - Vercel Serverless Function
+// GET /api/public/recipes/by-ids
+//
+// Query parameters: ids (comma-separated recipe ids, at most 100)
+// Response data: { recipes: RecipeRow[] } (see src/types/api.ts), in the
+// order of ids. Recipes that don't exist or aren't published are left out.
+// ============================================================================
+
+import { createClient } from '@supabase/supabase-js';
+
+// Initialize Supabase client with anon key (read-only access)
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_ANON_KEY
+);
+
+const MAX_IDS = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Split a comma-separated query parameter into a list, or null when empty
+const parseList = (value) => {
+  if (!value) return null;
+  const items = String(value).split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
+export default async function handler(req, res) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const ids = parseList(req.query.ids);
+
+    if (!ids) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing recipe ids'
+      });
+    }
+
+    if (ids.length > MAX_IDS) {
+      return res.status(400).json({
+        success: false,
+        error: `Too many recipe ids. Expected at most ${MAX_IDS}`
+      });
+    }
+
+    // Ids that aren't UUIDs can't belong to a recipe. Postgres returns UUIDs
+    // in lower case, so look them up that way.
+    const recipeIds = [...new Set(ids.filter(id => UUID_PATTERN.test(id)).map(id => id.toLowerCase()))];
+    let recipes = [];
+
+    if (recipeIds.length > 0) {
+      const { data, error } = await supabase.rpc('get_published_recipes', {
+        recipe_ids: recipeIds,
+        limit_count: recipeIds.length,
+        offset_count: 0
+      });
+
+      if (error) {
+        console.error('Supabase error:', error);
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to fetch recipes'
+        });
+      }
+
+      const byId = new Map((data || []).map(recipe => [recipe.id, recipe]));
+      recipes = recipeIds.map(id => byId.get(id)).filter(Boolean);
+    }
+
+    // Favourites lists change as recipes are published and unpublished
+    res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=300');
+    res.setHeader('Content-Type', 'application/json');
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        recipes
+      }
+    });
+
+  } catch (error) {
+    console.error('Recipes by id API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+}
+
+// Export config for Vercel
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
@@ -0,0 +1,72 @@
+// ============================================================================
+// Public Featured Recipes API - Vercel Serverless Function
+// GET /api/public/recipes/featured
+//
+// Query parameters: limit (default 6, max 24)
+// Response data: { recipes: RecipeRow[] } (see src/types/api.ts)
+// ============================================================================
+
+import { createClient } from '@supabase/supabase-js';
+
+// Initialize Supabase client with anon key (read-only access)
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_ANON_KEY
+);
+
+export default async function handler(req, res) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const limitNum = Math.min(parseInt(req.query.limit) || 6, 24);
+
+    // Featured filtering happens in SQL so the limit applies to featured rows only
+    const { data: recipes, error } = await supabase.rpc('get_published_recipes', {
+      featured_only: true,
+      sort_by: 'datePublished',
+      sort_order: 'desc',
+      limit_count: limitNum,
+      offset_count: 0
+    });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch featured recipes'
+      });
+    }
+
+    res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+    res.setHeader('Content-Type', 'application/json');
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        recipes: recipes || []
+      }
+    });
+
+  } catch (error) {
+    console.error('Featured recipes API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+}
+
+// Export config for Vercel
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
@@ -0,0 +1,78 @@
+// ============================================================================
+// Public Recipe Search API - Vercel Serverless Function
+// GET /api/public/recipes/search
+//
+// Query parameters: q (required), limit (default 10, max 50)
+// Response data: { recipes: RecipeRow[] } (see src/types/api.ts)
+// ============================================================================
+
+import { createClient } from '@supabase/supabase-js';
+
+// Initialize Supabase client with anon key (read-only access)
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_ANON_KEY
+);
+
+export default async function handler(req, res) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const searchQuery = (req.query.q || '').trim();
+    const limitNum = Math.min(parseInt(req.query.limit) || 10, 50);
+
+    if (!searchQuery) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing search query'
+      });
+    }
+
+    const { data: recipes, error } = await supabase.rpc('get_published_recipes', {
+      search_query: searchQuery,
+      limit_count: limitNum,
+      offset_count: 0
+    });
+
+    if (error) {
+      console.error('Supabase error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to search recipes'
+      });
+    }
+
+    // Search results change with every keystroke, keep the cache short
+    res.setHeader('Cache-Control', 'public, s-maxage=60, stale-while-revalidate=120');
+    res.setHeader('Content-Type', 'application/json');
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        recipes: recipes || []
+      }
+    });
+
+  } catch (error) {
+    console.error('Search API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    });
+  }
+}
+
+// Export config for Vercel
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
+};
@@ -0,0 +1,14 @@
+import nextJest from 'next/jest.js'
+
+const createJestConfig = nextJest({ dir: './' })
+
+const config = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  // The admin panel is a separate app with its own dependencies
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/admin-panel/'],
+}
+
+export default createJestConfig(config)
@@ -46,22 +46,60 @@ CREATE TABLE recipes (
   image_url TEXT,
   image_alt TEXT,
   author_name TEXT NOT NULL DEFAULT 'Chef',
+  -- Per-serving values set by an admin, e.g. {"calories": 320, "salt": 1.2}.
+  -- Each replaces the value the site calculates from the ingredients.
+  nutrition JSONB CHECK (nutrition IS NULL OR jsonb_typeof(nutrition) = 'object'),
   date_published DATE DEFAULT CURRENT_DATE,
   is_published BOOLEAN DEFAULT FALSE,
   is_featured BOOLEAN DEFAULT FALSE,
   created_by UUID REFERENCES profiles(id),
+  -- Search document over title, tags, ingredients, description and steps,
+  -- maintained by refresh_recipe_search()
+  search_vector TSVECTOR,
+  search_text TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Ingredient catalogue: one row per canonical ingredient, with the other
+-- names it goes by and, where known, its density. normalized_name / normalized_aliases are maintained by
+-- set_ingredient_normalized_names().
+CREATE TABLE ingredients (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN (
+    'veg', 'fruit', 'meat', 'fish', 'dairy', 'baking', 'grains-pulses',
+    'tins-jars', 'condiments', 'herbs-spices', 'oils', 'drinks', 'other'
+  )),
+  density NUMERIC(5,3) CHECK (density > 0), -- grams per ml, for cup <-> gram conversions
+  -- The 14 allergens UK food law requires to be declared
+  allergens TEXT[] NOT NULL DEFAULT '{}' CHECK (allergens <@ ARRAY[
+    'celery', 'gluten', 'crustaceans', 'eggs', 'fish', 'lupin', 'milk',
+    'molluscs', 'mustard', 'nuts', 'peanuts', 'sesame', 'soya', 'sulphites'
+  ]::TEXT[]),
+  -- Strictest diet the ingredient suits; vegan ingredients suit vegetarians too
+  diet TEXT NOT NULL DEFAULT 'vegan' CHECK (diet IN ('vegan', 'vegetarian', 'non-vegetarian')),
+  normalized_name TEXT NOT NULL,
+  normalized_aliases TEXT[] NOT NULL DEFAULT '{}',
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Recipe ingredients table
+-- ingredient_name is the text shown in the recipe; ingredient_id links it to
+-- the catalogue (set from the name by link_recipe_ingredient() when missing)
 CREATE TABLE recipe_ingredients (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  ingredient_id UUID REFERENCES ingredients(id) ON DELETE SET NULL,
   ingredient_name TEXT NOT NULL,
   quantity DECIMAL(10,2),
   unit TEXT,
   notes TEXT,
+  scalable BOOLEAN NOT NULL DEFAULT TRUE, -- FALSE for "to taste" lines
+  round_to DECIMAL(10,2) CHECK (round_to > 0), -- smallest step the amount comes in (1 for eggs)
+  section TEXT, -- group heading, e.g. 'For the batter'; NULL for ungrouped lines
   sort_order INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -72,12 +110,36 @@ CREATE TABLE recipe_steps (
   recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
   step_number INTEGER NOT NULL,
   instruction TEXT NOT NULL,
+  section TEXT, -- group heading, e.g. 'Make the pastry'
   image_url TEXT,
   image_alt TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   UNIQUE(recipe_id, step_number)
 );
 
+-- Ingredients each step uses. quantity is how much of the recipe line goes
+-- in at this step, in the line's unit; NULL means all of it.
+CREATE TABLE recipe_step_ingredients (
+  step_id UUID REFERENCES recipe_steps(id) ON DELETE CASCADE NOT NULL,
+  recipe_ingredient_id UUID REFERENCES recipe_ingredients(id) ON DELETE CASCADE NOT NULL,
+  quantity DECIMAL(10,2) CHECK (quantity > 0),
+  PRIMARY KEY (step_id, recipe_ingredient_id)
+);
+
+-- Other recipes used as part of a recipe, e.g. the gravy for a roast.
+-- servings is how many servings of the component recipe the parent needs at
+-- its base_servings; the component scales along with the parent from there.
+CREATE TABLE recipe_components (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  component_recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE NOT NULL,
+  label TEXT, -- heading shown instead of the component's title, e.g. 'For the gravy'
+  servings DECIMAL(10,2) NOT NULL CHECK (servings > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(recipe_id, component_recipe_id),
+  CHECK (recipe_id <> component_recipe_id)
+);
+
 -- Recipe tags junction table
 CREATE TABLE recipe_tags (
   recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE,
@@ -85,6 +147,93 @@ CREATE TABLE recipe_tags (
   PRIMARY KEY (recipe_id, tag_id)
 );
 
+-- Favourite recipes of signed-in users, synced across their devices.
+-- Removals are kept (is_favorite = false) so that a device syncing an older
+-- change later can't bring a favourite back; changed_at decides which
+-- change wins (see set_favorite).
+CREATE TABLE user_favorites (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE,
+  is_favorite BOOLEAN NOT NULL DEFAULT TRUE,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- when the user made the change
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, recipe_id)
+);
+
+-- Named recipe collections ("Sunday roasts"). Ids are made on the device so
+-- collections can be created signed out and synced later; changed_at decides
+-- which device's version wins (see save_collection). Anyone with share_token
+-- can view the collection (see get_shared_collection).
+CREATE TABLE collections (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description TEXT,
+  cover_recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL, -- first recipe when null
+  share_token UUID UNIQUE,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- when the user made the change
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Recipes in a collection, in the user's order
+CREATE TABLE collection_recipes (
+  collection_id UUID REFERENCES collections(id) ON DELETE CASCADE,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE,
+  note TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (collection_id, recipe_id)
+);
+
+-- A signed-in user's private notes on a recipe, overall and on single steps
+-- and ingredients, and the servings and units it opens with. One row per
+-- user and recipe; changed_at decides which device's version wins (see
+-- save_recipe_notes).
+CREATE TABLE recipe_notes (
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE CASCADE,
+  note TEXT CHECK (char_length(note) <= 2000),
+  step_notes JSONB NOT NULL DEFAULT '{}', -- { step id: note }
+  ingredient_notes JSONB NOT NULL DEFAULT '{}', -- { ingredient id: note }
+  servings INTEGER CHECK (servings > 0),
+  unit_system TEXT CHECK (unit_system IN ('metric', 'imperial')),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- when the user made the change
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, recipe_id)
+);
+
+-- Star ratings and written reviews, one per user and recipe. New and edited
+-- reviews wait in the moderation queue (status 'pending') until an admin or
+-- moderator approves them; only approved ones are public and counted.
+CREATE TABLE recipe_reviews (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  recipe_id UUID NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body TEXT CHECK (char_length(body) <= 2000),
+  made_it BOOLEAN NOT NULL DEFAULT FALSE,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(photo_paths) <= 3), -- in the review-photos bucket
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  moderation_note TEXT, -- reason given to the reviewer when rejected
+  moderated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (recipe_id, user_id)
+);
+
+-- Average and count of approved ratings per recipe, kept up to date by
+-- triggers on recipe_reviews. A table of its own so reviews don't touch
+-- recipes.updated_at.
+CREATE TABLE recipe_ratings (
+  recipe_id UUID PRIMARY KEY REFERENCES recipes(id) ON DELETE CASCADE,
+  average NUMERIC(3,2) NOT NULL,
+  count INTEGER NOT NULL
+);
+
 -- Admin audit log
 CREATE TABLE admin_audit (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -107,9 +256,9 @@ CREATE INDEX idx_recipes_difficulty ON recipes(difficulty);
 CREATE INDEX idx_recipes_slug ON recipes(slug);
 CREATE INDEX idx_recipes_created_at ON recipes(created_at DESC);
 
--- Full-text search indexes
-CREATE INDEX idx_recipes_title_search ON recipes USING gin(to_tsvector('english', title));
-CREATE INDEX idx_recipes_description_search ON recipes USING gin(to_tsvector('english', description));
+-- Full-text search indexes (ranked search and trigram typo tolerance)
+CREATE INDEX idx_recipes_search_vector ON recipes USING gin(search_vector);
+CREATE INDEX idx_recipes_search_text_trgm ON recipes USING gin(search_text gin_trgm_ops);
 
 -- Junction table indexes
 CREATE INDEX idx_recipe_tags_recipe ON recipe_tags(recipe_id);
@@ -117,7 +266,27 @@ CREATE INDEX idx_recipe_tags_tag ON recipe_tags(tag_id);
 
 -- Ingredients and steps indexes
 CREATE INDEX idx_recipe_ingredients_recipe ON recipe_ingredients(recipe_id, sort_order);
+CREATE INDEX idx_recipe_ingredients_ingredient ON recipe_ingredients(ingredient_id);
+
+-- Ingredient catalogue indexes
+CREATE UNIQUE INDEX idx_ingredients_normalized_name ON ingredients(normalized_name);
+CREATE INDEX idx_ingredients_normalized_aliases ON ingredients USING gin(normalized_aliases);
 CREATE INDEX idx_recipe_steps_recipe ON recipe_steps(recipe_id, step_number);
+CREATE INDEX idx_recipe_step_ingredients_ingredient ON recipe_step_ingredients(recipe_ingredient_id);
+CREATE INDEX idx_recipe_components_recipe ON recipe_components(recipe_id, sort_order);
+CREATE INDEX idx_recipe_components_component ON recipe_components(component_recipe_id);
+
+-- User favourites and collections indexes
+CREATE INDEX idx_user_favorites_recipe ON user_favorites(recipe_id);
+CREATE INDEX idx_collections_user ON collections(user_id, created_at);
+CREATE INDEX idx_collection_recipes_recipe ON collection_recipes(recipe_id);
+CREATE INDEX idx_recipe_notes_recipe ON recipe_notes(recipe_id);
+
+-- Review indexes
+CREATE INDEX idx_recipe_reviews_recipe ON recipe_reviews(recipe_id, status, created_at DESC);
+CREATE INDEX idx_recipe_reviews_queue ON recipe_reviews(status, created_at);
+CREATE INDEX idx_recipe_reviews_photos ON recipe_reviews USING GIN (photo_paths); -- review photo access
+CREATE INDEX idx_recipe_reviews_user ON recipe_reviews(user_id, status); -- public_profiles
 
 -- Audit log indexes
 CREATE INDEX idx_admin_audit_user ON admin_audit(user_id, created_at DESC);
@@ -143,6 +312,313 @@ CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON profiles
 CREATE TRIGGER update_recipes_updated_at BEFORE UPDATE ON recipes
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_user_favorites_updated_at BEFORE UPDATE ON user_favorites
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_collections_updated_at BEFORE UPDATE ON collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_recipe_notes_updated_at BEFORE UPDATE ON recipe_notes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_recipe_reviews_updated_at BEFORE UPDATE ON recipe_reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Reviewers can't approve their own reviews: unless an admin or moderator
+-- makes the change, a review goes (back) to the moderation queue. Photos
+-- must be in the reviewer's own folder, so a review can't make someone
+-- else's photos public.
+CREATE OR REPLACE FUNCTION queue_review_for_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.photo_paths) AS path
+    WHERE split_part(path, '/', 1) <> NEW.user_id::TEXT
+  ) THEN
+    RAISE EXCEPTION 'Review photos must be in the reviewer''s own folder'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND (is_admin = true OR is_moderator = true)
+  ) THEN
+    NEW.status := 'pending';
+    NEW.moderation_note := NULL;
+    NEW.moderated_by := NULL;
+    NEW.moderated_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER queue_recipe_review BEFORE INSERT OR UPDATE ON recipe_reviews
+  FOR EACH ROW EXECUTE FUNCTION queue_review_for_moderation();
+
+-- Log moderation to admin_audit: each approval or rejection by an admin or
+-- moderator, and their deletions of other people's reviews. Done here so
+-- no client can moderate without leaving an entry.
+CREATE OR REPLACE FUNCTION audit_review_moderation()
+RETURNS TRIGGER AS $$
+DECLARE
+  review recipe_reviews;
+  audit_action TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    review := OLD;
+    audit_action := 'delete_review';
+    -- Own reviews, and reviews going with their recipe, aren't moderation
+    IF OLD.user_id = auth.uid() OR NOT EXISTS (SELECT 1 FROM recipes WHERE id = OLD.recipe_id) THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    review := NEW;
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NULL;
+    END IF;
+    audit_action := CASE NEW.status
+      WHEN 'approved' THEN 'approve_review'
+      WHEN 'rejected' THEN 'reject_review'
+    END;
+  END IF;
+
+  IF audit_action IS NULL OR NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND (is_admin = true OR is_moderator = true)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO admin_audit (user_id, action, recipe_id, meta)
+  VALUES (
+    auth.uid(),
+    audit_action,
+    review.recipe_id,
+    jsonb_strip_nulls(jsonb_build_object(
+      'review_id', review.id,
+      'rating', review.rating,
+      'note', CASE WHEN TG_OP = 'UPDATE' THEN NEW.moderation_note END
+    ))
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_recipe_review_moderation AFTER UPDATE OR DELETE ON recipe_reviews
+  FOR EACH ROW EXECUTE FUNCTION audit_review_moderation();
+
+-- Recount a recipe's approved ratings into recipe_ratings
+CREATE OR REPLACE FUNCTION refresh_recipe_rating(target_recipe_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM recipe_ratings WHERE recipe_id = target_recipe_id;
+
+  INSERT INTO recipe_ratings (recipe_id, average, count)
+  SELECT target_recipe_id, ROUND(AVG(rating), 2), COUNT(*)
+  FROM recipe_reviews
+  WHERE recipe_id = target_recipe_id AND status = 'approved'
+  -- Nothing to store while the recipe itself is being deleted
+  AND EXISTS (SELECT 1 FROM recipes WHERE id = target_recipe_id)
+  HAVING COUNT(*) > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_recipe_rating_from_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_recipe_rating(OLD.recipe_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.recipe_id <> OLD.recipe_id) THEN
+    PERFORM refresh_recipe_rating(NEW.recipe_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_recipe_rating_on_review AFTER INSERT OR UPDATE OR DELETE ON recipe_reviews
+  FOR EACH ROW EXECUTE FUNCTION refresh_recipe_rating_from_review();
+
+-- Rebuild the search document of one recipe from its own columns and its
+-- tags, ingredients and steps. Weights: title A, tags/ingredients B,
+-- description C, steps D.
+CREATE OR REPLACE FUNCTION refresh_recipe_search(target_recipe_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  tag_text TEXT;
+  ingredient_text TEXT;
+  step_text TEXT;
+BEGIN
+  SELECT string_agg(t.name, ' ') INTO tag_text
+  FROM recipe_tags rt
+  JOIN tags t ON rt.tag_id = t.id
+  WHERE rt.recipe_id = target_recipe_id;
+
+  SELECT string_agg(ri.ingredient_name, ' ' ORDER BY ri.sort_order) INTO ingredient_text
+  FROM recipe_ingredients ri
+  WHERE ri.recipe_id = target_recipe_id;
+
+  SELECT string_agg(rs.instruction, ' ' ORDER BY rs.step_number) INTO step_text
+  FROM recipe_steps rs
+  WHERE rs.recipe_id = target_recipe_id;
+
+  UPDATE recipes r SET
+    search_vector =
+      setweight(to_tsvector('english', coalesce(r.title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(tag_text, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(ingredient_text, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(r.description, '')), 'C') ||
+      setweight(to_tsvector('english', coalesce(step_text, '')), 'D'),
+    search_text = lower(concat_ws(' ', r.title, tag_text, ingredient_text, r.description, step_text))
+  WHERE r.id = target_recipe_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_recipe_search_from_recipe()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_recipe_search(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_recipe_search_from_child()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_recipe_search(OLD.recipe_id);
+  ELSE
+    PERFORM refresh_recipe_search(NEW.recipe_id);
+    IF TG_OP = 'UPDATE' AND OLD.recipe_id <> NEW.recipe_id THEN
+      PERFORM refresh_recipe_search(OLD.recipe_id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_recipe_search_from_tag()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_recipe_search(rt.recipe_id)
+  FROM recipe_tags rt
+  WHERE rt.tag_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep recipes.search_vector / search_text current
+CREATE TRIGGER refresh_recipes_search AFTER INSERT OR UPDATE OF title, description ON recipes
+  FOR EACH ROW EXECUTE FUNCTION refresh_recipe_search_from_recipe();
+
+CREATE TRIGGER refresh_recipe_ingredients_search AFTER INSERT OR UPDATE OR DELETE ON recipe_ingredients
+  FOR EACH ROW EXECUTE FUNCTION refresh_recipe_search_from_child();
+
+CREATE TRIGGER refresh_recipe_steps_search AFTER INSERT OR UPDATE OR DELETE ON recipe_steps
+  FOR EACH ROW EXECUTE FUNCTION refresh_recipe_search_from_child();
+
+CREATE TRIGGER refresh_recipe_tags_search AFTER INSERT OR UPDATE OR DELETE ON recipe_tags
+  FOR EACH ROW EXECUTE FUNCTION refresh_recipe_search_from_child();
+
+CREATE TRIGGER refresh_tags_search AFTER UPDATE OF name ON tags
+  FOR EACH ROW EXECUTE FUNCTION refresh_recipe_search_from_tag();
+
+-- Normalise an ingredient name for comparison: lowercase, drop notes
+-- ("Onion, diced", "(cod or haddock)", "for frying"), descriptors such as
+-- "fresh" or "tinned", and plurals. Mirrors normalizeIngredientName() in
+-- src/lib/ingredients.ts.
+CREATE OR REPLACE FUNCTION normalize_ingredient_name(name TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  normalized TEXT := lower(coalesce(name, ''));
+BEGIN
+  normalized := regexp_replace(normalized, '\(.*?\)', ' ', 'g');
+  normalized := split_part(normalized, ',', 1);
+  normalized := regexp_replace(normalized, '\s(for|to)\s.*$', '');
+  normalized := regexp_replace(normalized, '[^[:alnum:]]+', ' ', 'g');
+  normalized := regexp_replace(
+    normalized,
+    '\m(fresh|freshly|dried|frozen|tinned|canned|chopped|diced|sliced|minced|ground|grated|crushed|peeled|large|medium|small|whole|cold|warm|finely|roughly|thinly|ripe|raw|cooked|boneless|skinless|of)\M',
+    ' ',
+    'g'
+  );
+  -- Plurals: berries -> berry, tomatoes -> tomato, chickpeas -> chickpea
+  normalized := regexp_replace(normalized, '\m([[:alpha:]]{2,})ies\M', '\1y', 'g');
+  normalized := regexp_replace(normalized, '\m([[:alpha:]]+(o|ch|sh|x))es\M', '\1', 'g');
+  normalized := regexp_replace(normalized, '\m([[:alpha:]]+[a-rtv-z])s\M', '\1', 'g');
+  RETURN trim(regexp_replace(normalized, '\s+', ' ', 'g'));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Keep the catalogue's normalised names current
+CREATE OR REPLACE FUNCTION set_ingredient_normalized_names()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.normalized_name := normalize_ingredient_name(NEW.name);
+  NEW.normalized_aliases := ARRAY(
+    SELECT DISTINCT normalize_ingredient_name(alias)
+    FROM unnest(NEW.aliases) AS alias
+    WHERE normalize_ingredient_name(alias) <> ''
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Catalogue entry for free-text ingredient name: an exact name or alias
+-- first ("Flour (plain)"), then the normalised name, then a normalised alias.
+-- Mirrors findCatalogueIngredient() in src/lib/ingredients.ts.
+CREATE OR REPLACE FUNCTION resolve_ingredient_id(raw_name TEXT)
+RETURNS UUID AS $$
+  SELECT i.id
+  FROM ingredients i
+  WHERE lower(i.name) = lower(trim(raw_name))
+    OR lower(trim(raw_name)) = ANY(SELECT lower(alias) FROM unnest(i.aliases) AS alias)
+    OR i.normalized_name = normalize_ingredient_name(raw_name)
+    OR normalize_ingredient_name(raw_name) = ANY(i.normalized_aliases)
+  ORDER BY
+    (lower(i.name) = lower(trim(raw_name))
+      OR lower(trim(raw_name)) = ANY(SELECT lower(alias) FROM unnest(i.aliases) AS alias)) DESC,
+    (i.normalized_name = normalize_ingredient_name(raw_name)) DESC
+  LIMIT 1
+$$ LANGUAGE sql STABLE;
+
+-- Link recipe ingredients to the catalogue when saved without ingredient_id
+CREATE OR REPLACE FUNCTION link_recipe_ingredient()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.ingredient_id IS NULL THEN
+    NEW.ingredient_id := resolve_ingredient_id(NEW.ingredient_name);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Link existing unlinked recipe ingredients to a new or renamed entry
+CREATE OR REPLACE FUNCTION link_recipe_ingredients_to_catalogue()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE recipe_ingredients ri
+  SET ingredient_id = NEW.id
+  WHERE ri.ingredient_id IS NULL
+    AND resolve_ingredient_id(ri.ingredient_name) = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_ingredients_updated_at BEFORE UPDATE ON ingredients
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER set_ingredients_normalized_names BEFORE INSERT OR UPDATE OF name, aliases ON ingredients
+  FOR EACH ROW EXECUTE FUNCTION set_ingredient_normalized_names();
+
+CREATE TRIGGER link_ingredients_catalogue AFTER INSERT OR UPDATE OF name, aliases ON ingredients
+  FOR EACH ROW EXECUTE FUNCTION link_recipe_ingredients_to_catalogue();
+
+CREATE TRIGGER link_recipe_ingredients BEFORE INSERT OR UPDATE OF ingredient_name, ingredient_id ON recipe_ingredients
+  FOR EACH ROW EXECUTE FUNCTION link_recipe_ingredient();
+
 -- Function to automatically create profile when user signs up
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -165,22 +641,75 @@ CREATE TRIGGER on_auth_user_created
 -- Enable RLS on all tables
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingredients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE recipe_ingredients ENABLE ROW LEVEL SECURITY;
 ALTER TABLE recipe_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_step_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_components ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
 ALTER TABLE recipe_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE collection_recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipe_ratings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE admin_audit ENABLE ROW LEVEL SECURITY;
 
+-- Whether the signed-in user is an admin. SECURITY DEFINER so the policies
+-- on profiles can use it without checking themselves again.
+CREATE OR REPLACE FUNCTION current_user_is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Profiles policies
-CREATE POLICY "Public profiles are viewable by everyone" ON profiles
-  FOR SELECT USING (true);
+-- Profiles hold email addresses and anyone can sign up, so users only see
+-- their own; names for reviews come from public_profiles
+CREATE POLICY "Users can view own profile" ON profiles
+  FOR SELECT USING (auth.uid() = id);
+
+CREATE POLICY "Admins can view all profiles" ON profiles
+  FOR SELECT USING (current_user_is_admin());
 
 CREATE POLICY "Users can update own profile" ON profiles
   FOR UPDATE USING (auth.uid() = id);
 
+-- Anyone can sign up, so users may only edit their own details; is_admin
+-- and is_moderator are changed with the service role
+REVOKE UPDATE ON profiles FROM anon, authenticated;
+GRANT UPDATE (full_name, avatar_url) ON profiles TO authenticated;
+
+-- Display names only, for showing who wrote a review: everyone sees the
+-- authors of approved reviews and their own name; admins and moderators,
+-- who work through pending reviews and the audit log, see all of them. The
+-- view runs as its owner, so it isn't limited by the policies above.
+CREATE VIEW public_profiles AS
+  SELECT p.id, p.full_name
+  FROM profiles p
+  WHERE p.id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM recipe_reviews rr
+      WHERE rr.user_id = p.id AND rr.status = 'approved'
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND (is_admin = true OR is_moderator = true)
+    );
+
+GRANT SELECT ON public_profiles TO anon, authenticated;
+
 -- Recipes policies
+-- Drafts are for admins and moderators only, as anyone can sign up
 CREATE POLICY "Published recipes are viewable by everyone" ON recipes
-  FOR SELECT USING (is_published = true OR auth.uid() IS NOT NULL);
+  FOR SELECT USING (
+    is_published = true OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
 
 CREATE POLICY "Admin and moderators can insert recipes" ON recipes
   FOR INSERT WITH CHECK (
@@ -209,13 +738,25 @@ CREATE POLICY "Only admins can delete recipes" ON recipes
     )
   );
 
+-- Ingredient catalogue policies
+CREATE POLICY "Ingredient catalogue is viewable by everyone" ON ingredients
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin and moderators can manage the ingredient catalogue" ON ingredients
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE id = auth.uid() 
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
+
 -- Recipe ingredients policies
 CREATE POLICY "Recipe ingredients viewable with recipe" ON recipe_ingredients
   FOR SELECT USING (
     EXISTS (
       SELECT 1 FROM recipes 
       WHERE id = recipe_ingredients.recipe_id 
-      AND (is_published = true OR auth.uid() IS NOT NULL)
     )
   );
 
@@ -234,7 +775,6 @@ CREATE POLICY "Recipe steps viewable with recipe" ON recipe_steps
     EXISTS (
       SELECT 1 FROM recipes 
       WHERE id = recipe_steps.recipe_id 
-      AND (is_published = true OR auth.uid() IS NOT NULL)
     )
   );
 
@@ -247,6 +787,43 @@ CREATE POLICY "Admin and moderators can manage steps" ON recipe_steps
     )
   );
 
+-- Step ingredient policies
+CREATE POLICY "Step ingredients viewable with recipe" ON recipe_step_ingredients
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM recipe_steps rs
+      JOIN recipes r ON r.id = rs.recipe_id
+      WHERE rs.id = recipe_step_ingredients.step_id
+    )
+  );
+
+CREATE POLICY "Admin and moderators can manage step ingredients" ON recipe_step_ingredients
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE id = auth.uid() 
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
+
+-- Recipe component policies
+CREATE POLICY "Recipe components viewable with recipe" ON recipe_components
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM recipes 
+      WHERE id = recipe_components.recipe_id 
+    )
+  );
+
+CREATE POLICY "Admin and moderators can manage components" ON recipe_components
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles 
+      WHERE id = auth.uid() 
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
+
 -- Tags policies
 CREATE POLICY "Tags are viewable by everyone" ON tags
   FOR SELECT USING (true);
@@ -266,7 +843,6 @@ CREATE POLICY "Recipe tags viewable with recipe" ON recipe_tags
     EXISTS (
       SELECT 1 FROM recipes 
       WHERE id = recipe_tags.recipe_id 
-      AND (is_published = true OR auth.uid() IS NOT NULL)
     )
   );
 
@@ -279,6 +855,99 @@ CREATE POLICY "Admin and moderators can manage recipe tags" ON recipe_tags
     )
   );
 
+-- User favourites policies: each user sees and changes only their own
+CREATE POLICY "Users can view own favorites" ON user_favorites
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own favorites" ON user_favorites
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own favorites" ON user_favorites
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own favorites" ON user_favorites
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Collections policies: owners only; shared links go through
+-- get_shared_collection so share tokens can't be listed
+CREATE POLICY "Users can manage own collections" ON collections
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage recipes in own collections" ON collection_recipes
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM collections
+      WHERE id = collection_recipes.collection_id
+      AND user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM collections
+      WHERE id = collection_recipes.collection_id
+      AND user_id = auth.uid()
+    )
+  );
+
+-- Recipe notes are private to their owner
+CREATE POLICY "Users can manage own recipe notes" ON recipe_notes
+  FOR ALL USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Review policies: approved reviews are public, reviewers see and change
+-- their own (see queue_review_for_moderation), admins and moderators
+-- moderate the rest
+CREATE POLICY "Approved reviews are viewable by everyone" ON recipe_reviews
+  FOR SELECT USING (status = 'approved' OR auth.uid() = user_id);
+
+CREATE POLICY "Users can add own reviews" ON recipe_reviews
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM recipes
+      WHERE id = recipe_reviews.recipe_id
+      AND is_published = true
+    )
+  );
+
+CREATE POLICY "Users can update own reviews" ON recipe_reviews
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reviews" ON recipe_reviews
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Admin and moderators can view all reviews" ON recipe_reviews
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
+
+CREATE POLICY "Admin and moderators can moderate reviews" ON recipe_reviews
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
+
+CREATE POLICY "Only admins can delete any review" ON recipe_reviews
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND is_admin = true
+    )
+  );
+
+CREATE POLICY "Recipe ratings are viewable by everyone" ON recipe_ratings
+  FOR SELECT USING (true);
+
 -- Admin audit policies
 CREATE POLICY "Admin audit viewable by admins only" ON admin_audit
   FOR SELECT USING (
@@ -340,6 +1009,61 @@ CREATE POLICY "Only admins can delete recipe images" ON storage.objects
     )
   );
 
+-- Bucket for reviewers' photos, one folder per user. Private, so photos
+-- stay hidden until their review is approved; the site shows them with
+-- signed URLs.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', false);
+
+CREATE POLICY "Photos of approved reviews are viewable by everyone" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'review-photos' AND
+    EXISTS (
+      SELECT 1 FROM recipe_reviews
+      WHERE status = 'approved'
+      AND photo_paths @> ARRAY[name]
+    )
+  );
+
+CREATE POLICY "Users can view own review photos" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'review-photos' AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Admin and moderators can view review photos" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'review-photos' AND
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
+
+CREATE POLICY "Users can upload review photos to own folder" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'review-photos' AND
+    auth.uid() IS NOT NULL AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Users can delete own review photos" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'review-photos' AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Admin and moderators can delete review photos" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'review-photos' AND
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid()
+      AND (is_admin = true OR is_moderator = true)
+    )
+  );
+
 -- ============================================================================
 -- SEED DATA
 -- ============================================================================
@@ -348,6 +1072,7 @@ CREATE POLICY "Only admins can delete recipe images" ON storage.objects
 INSERT INTO tags (name, slug, description) VALUES
   ('vegetarian', 'vegetarian', 'Suitable for vegetarians'),
   ('vegan', 'vegan', 'Suitable for vegans'),
+  ('gluten-free', 'gluten-free', 'Made without gluten'),
   ('quick', 'quick', 'Quick and easy recipes'),
   ('30min', '30min', 'Ready in 30 minutes or less'),
   ('healthy', 'healthy', 'Healthy and nutritious'),
@@ -359,6 +1084,58 @@ INSERT INTO tags (name, slug, description) VALUES
   ('lunch', 'lunch', 'Ideal for lunch'),
   ('comfort-food', 'comfort-food', 'Comforting British dishes');
 
+-- Ingredient catalogue (keep in step with data/ingredients.json)
+INSERT INTO ingredients (name, aliases, category, density, allergens, diet) VALUES
+  ('Chicken', '{}', 'meat', NULL, '{}', 'non-vegetarian'),
+  ('Lamb mince', '{"minced lamb", "ground lamb"}', 'meat', NULL, '{}', 'non-vegetarian'),
+  ('Beef fillet', '{"beef tenderloin"}', 'meat', NULL, '{}', 'non-vegetarian'),
+  ('Prosciutto', '{"parma ham", "prosciutto slices"}', 'meat', NULL, '{}', 'non-vegetarian'),
+  ('White fish', '{"white fish fillets", "cod", "haddock"}', 'fish', NULL, '{fish}', 'non-vegetarian'),
+  ('Onion', '{"brown onion"}', 'veg', NULL, '{}', 'vegan'),
+  ('Carrots', '{}', 'veg', NULL, '{}', 'vegan'),
+  ('Potatoes', '{"maris piper potatoes"}', 'veg', NULL, '{}', 'vegan'),
+  ('Mushrooms', '{"chestnut mushrooms"}', 'veg', NULL, '{}', 'vegan'),
+  ('Shallots', '{}', 'veg', NULL, '{}', 'vegan'),
+  ('Garlic', '{"garlic cloves", "garlic bulb"}', 'veg', NULL, '{}', 'vegan'),
+  ('Spinach', '{"baby spinach"}', 'veg', NULL, '{}', 'vegan'),
+  ('Peas', '{"garden peas", "petit pois"}', 'veg', 0.6, '{}', 'vegan'),
+  ('Tomatoes', '{"plum tomatoes", "chopped tomatoes"}', 'veg', NULL, '{}', 'vegan'),
+  ('Lemon', '{}', 'fruit', NULL, '{}', 'vegan'),
+  ('Lemon juice', '{}', 'fruit', 1.03, '{}', 'vegan'),
+  ('Butter', '{"unsalted butter", "salted butter"}', 'dairy', 0.96, '{milk}', 'vegetarian'),
+  ('Milk', '{"whole milk", "semi-skimmed milk"}', 'dairy', 1.03, '{milk}', 'vegetarian'),
+  ('Buttermilk', '{"cultured buttermilk"}', 'dairy', 1.03, '{milk}', 'vegetarian'),
+  ('Oat milk', '{"oat drink"}', 'dairy', 1.03, '{gluten}', 'vegan'),
+  ('Soya milk', '{"soy milk", "soya drink"}', 'dairy', 1.03, '{soya}', 'vegan'),
+  ('Vegan spread', '{"dairy-free spread", "plant butter"}', 'dairy', 0.96, '{}', 'vegan'),
+  ('Eggs', '{"free-range eggs"}', 'dairy', NULL, '{eggs}', 'vegetarian'),
+  ('Plain flour', '{"flour (plain)", "all-purpose flour", "plain white flour"}', 'baking', 0.51, '{gluten}', 'vegan'),
+  ('Self-raising flour', '{"flour (self-raising)", "self-rising flour"}', 'baking', 0.51, '{gluten}', 'vegan'),
+  ('Gluten-free plain flour', '{"gluten-free flour", "gluten free flour"}', 'baking', 0.51, '{}', 'vegan'),
+  ('Caster sugar', '{"superfine sugar"}', 'baking', 0.85, '{}', 'vegan'),
+  ('Baking powder', '{}', 'baking', 0.92, '{}', 'vegan'),
+  ('Ground flaxseed', '{"flaxseed", "ground linseed", "linseed"}', 'baking', 0.5, '{}', 'vegan'),
+  ('Puff pastry', '{"ready-rolled puff pastry"}', 'baking', NULL, '{gluten, milk}', 'vegetarian'),
+  ('Chickpeas', '{"garbanzo beans"}', 'grains-pulses', 0.7, '{}', 'vegan'),
+  ('Coconut milk', '{}', 'tins-jars', 0.98, '{}', 'vegan'),
+  ('Tomato purée', '{"tomato puree", "tomato paste"}', 'tins-jars', 1.1, '{}', 'vegan'),
+  ('Beef stock', '{"beef broth"}', 'tins-jars', 1.0, '{celery}', 'non-vegetarian'),
+  ('Chicken stock', '{"chicken broth"}', 'tins-jars', 1.0, '{celery}', 'non-vegetarian'),
+  ('Vegetable stock', '{"vegetable broth", "veg stock"}', 'tins-jars', 1.0, '{celery}', 'vegan'),
+  ('Mushy peas', '{}', 'tins-jars', NULL, '{}', 'vegan'),
+  ('Dijon mustard', '{}', 'condiments', 1.05, '{mustard, sulphites}', 'vegan'),
+  ('Worcestershire sauce', '{}', 'condiments', 1.1, '{fish, gluten}', 'non-vegetarian'),
+  ('Soy sauce', '{"soya sauce", "light soy sauce", "dark soy sauce"}', 'condiments', 1.2, '{soya, gluten}', 'vegan'),
+  ('Tartar sauce', '{"tartare sauce"}', 'condiments', NULL, '{eggs, mustard}', 'vegetarian'),
+  ('Thyme', '{"thyme sprigs"}', 'herbs-spices', NULL, '{}', 'vegan'),
+  ('Curry powder', '{}', 'herbs-spices', 0.45, '{mustard}', 'vegan'),
+  ('Salt', '{"sea salt"}', 'herbs-spices', 1.2, '{}', 'vegan'),
+  ('Black pepper', '{"ground black pepper"}', 'herbs-spices', 0.45, '{}', 'vegan'),
+  ('Olive oil', '{"extra virgin olive oil"}', 'oils', 0.91, '{}', 'vegan'),
+  ('Vegetable oil', '{"sunflower oil", "rapeseed oil"}', 'oils', 0.92, '{}', 'vegan'),
+  ('Beer', '{"ale", "lager"}', 'drinks', 1.01, '{gluten}', 'vegan'),
+  ('Water', '{"boiling water", "tap water"}', 'other', 1.0, '{}', 'vegan');
+
 -- Create first admin user (replace with actual email)
 -- Note: This user must first sign up through Supabase Auth, then run this update
 -- UPDATE profiles SET is_admin = true WHERE email = 'admin@cheki-uki.com';
@@ -534,6 +1311,7 @@ SELECT
     SELECT json_agg(
       json_build_object(
         'id', ri.id,
+        'ingredient_id', ri.ingredient_id,
         'ingredient_name', ri.ingredient_name,
         'quantity', ri.quantity,
         'unit', ri.unit,
@@ -566,12 +1344,305 @@ GROUP BY r.id;
 -- FUNCTIONS FOR API USAGE
 -- ============================================================================
 
+-- Ingredients most kitchens already have ("Salt", "Olive oil", "Salt and
+-- pepper"). Mirrors PANTRY_STAPLES in src/lib/ingredients.ts.
+CREATE OR REPLACE FUNCTION is_pantry_staple(name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT normalize_ingredient_name(name) <> '' AND bool_and(part = ANY(ARRAY[
+    'salt', 'sea salt', 'pepper', 'black pepper', 'white pepper',
+    'oil', 'olive oil', 'extra virgin olive oil', 'vegetable oil', 'sunflower oil', 'rapeseed oil',
+    'water'
+  ]))
+  FROM regexp_split_to_table(normalize_ingredient_name(name), '\s+and\s+') AS part
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Which of a recipe's ingredients (pantry staples aside) are covered by the
+-- ingredients a user has, shaped like PantryMatch in src/types/recipe.ts.
+-- An ingredient is covered when both resolve to the same catalogue entry, or
+-- all words of one normalised name appear in the other ("chicken" covers
+-- "Whole chicken thighs").
+CREATE OR REPLACE FUNCTION recipe_pantry_match(target_recipe_id UUID, have_ingredients TEXT[])
+RETURNS JSON AS $$
+  WITH have AS (
+    SELECT
+      string_to_array(normalize_ingredient_name(h), ' ') AS words,
+      resolve_ingredient_id(h) AS ingredient_id
+    FROM unnest(have_ingredients) AS h
+    WHERE normalize_ingredient_name(h) <> ''
+  ),
+  needed AS (
+    SELECT
+      ri.ingredient_name,
+      ri.sort_order,
+      EXISTS (
+        SELECT 1 FROM have
+        WHERE have.ingredient_id = ri.ingredient_id
+          OR have.words <@ string_to_array(normalize_ingredient_name(ri.ingredient_name), ' ')
+          OR have.words @> string_to_array(normalize_ingredient_name(ri.ingredient_name), ' ')
+      ) AS is_matched
+    FROM recipe_ingredients ri
+    WHERE ri.recipe_id = target_recipe_id
+      AND NOT is_pantry_staple(ri.ingredient_name)
+      AND normalize_ingredient_name(ri.ingredient_name) <> ''
+  )
+  SELECT json_build_object(
+    'matched', COALESCE(json_agg(ingredient_name ORDER BY sort_order) FILTER (WHERE is_matched), '[]'::json),
+    'missing', COALESCE(json_agg(ingredient_name ORDER BY sort_order) FILTER (WHERE NOT is_matched), '[]'::json)
+  )
+  FROM needed
+$$ LANGUAGE sql STABLE;
+
+-- Allergens in a recipe's ingredients and those of its components, going by
+-- the catalogue. Mirrors getRecipeAllergens() in src/lib/allergens.ts.
+CREATE OR REPLACE FUNCTION recipe_allergens(target_recipe_id UUID)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT allergen ORDER BY allergen), '{}')
+  FROM recipe_ingredients ri
+  JOIN ingredients i ON i.id = ri.ingredient_id
+  CROSS JOIN LATERAL unnest(i.allergens) AS allergen
+  WHERE ri.recipe_id = target_recipe_id
+    OR ri.recipe_id IN (
+      SELECT rc.component_recipe_id FROM recipe_components rc WHERE rc.recipe_id = target_recipe_id
+    )
+$$ LANGUAGE sql STABLE;
+
+-- Dietary tags that a recipe's ingredients (components included) contradict,
+-- one row per offending ingredient, e.g. 'vegetarian' with chicken stock.
+-- Mirrors getDietaryTagConflicts() in src/lib/allergens.ts; the admin panel
+-- checks it before publishing.
+CREATE OR REPLACE FUNCTION dietary_tag_conflicts(recipe_ids UUID[])
+RETURNS TABLE (recipe_id UUID, tag TEXT, ingredient_name TEXT) AS $$
+  WITH lines AS (
+    SELECT r.id AS recipe_id, ri.ingredient_name, i.allergens, i.diet
+    FROM recipes r
+    JOIN recipe_ingredients ri ON ri.recipe_id = r.id
+      OR ri.recipe_id IN (
+        SELECT rc.component_recipe_id FROM recipe_components rc WHERE rc.recipe_id = r.id
+      )
+    JOIN ingredients i ON i.id = ri.ingredient_id
+    WHERE r.id = ANY(recipe_ids)
+  )
+  SELECT DISTINCT l.recipe_id, t.slug, l.ingredient_name
+  FROM lines l
+  JOIN recipe_tags rt ON rt.recipe_id = l.recipe_id
+  JOIN tags t ON t.id = rt.tag_id
+  WHERE (t.slug = 'vegetarian' AND l.diet = 'non-vegetarian')
+    OR (t.slug = 'vegan' AND l.diet <> 'vegan')
+    OR (t.slug = 'gluten-free' AND 'gluten' = ANY(l.allergens))
+  ORDER BY 1, 2, 3
+$$ LANGUAGE sql STABLE;
+
+-- Add or remove a favourite for the signed-in user. The change made last
+-- (by changed_at, capped at now so a fast clock can't win for good) wins,
+-- so devices syncing out of order end up agreeing. Favourites already saved
+-- can change even once their recipe is unpublished; new ones are skipped
+-- when the recipe can't be seen or doesn't exist (such as ids from the
+-- bundled JSON data). Returns whether this change was saved.
+CREATE OR REPLACE FUNCTION set_favorite(target_recipe_id TEXT, favorite BOOLEAN, changed TIMESTAMPTZ)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE user_favorites
+  SET is_favorite = favorite, changed_at = LEAST(changed, NOW())
+  WHERE user_id = auth.uid()
+    AND recipe_id::TEXT = lower(target_recipe_id)
+    AND user_favorites.changed_at < LEAST(changed, NOW());
+
+  IF FOUND THEN
+    RETURN TRUE;
+  END IF;
+
+  INSERT INTO user_favorites (user_id, recipe_id, is_favorite, changed_at)
+  SELECT auth.uid(), r.id, favorite, LEAST(changed, NOW())
+  FROM recipes r
+  WHERE r.id::TEXT = lower(target_recipe_id)
+  ON CONFLICT (user_id, recipe_id) DO NOTHING;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Save a collection and its recipes for the signed-in user, unless the
+-- stored version was changed later (by changed_at, capped at now) on another
+-- device. recipe_items is [{ "recipeId", "note", "addedAt" }] in order;
+-- recipes the user can't see (deleted or unpublished) are skipped. Returns
+-- whether this version was saved.
+CREATE OR REPLACE FUNCTION save_collection(
+  collection_id UUID,
+  collection_name TEXT,
+  collection_description TEXT,
+  cover_recipe UUID,
+  token UUID,
+  recipe_items JSONB,
+  changed TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO collections (id, user_id, name, description, cover_recipe_id, share_token, changed_at)
+  VALUES (
+    collection_id, auth.uid(), collection_name, collection_description,
+    (SELECT id FROM recipes WHERE id = cover_recipe), token, LEAST(changed, NOW())
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+      description = EXCLUDED.description,
+      cover_recipe_id = EXCLUDED.cover_recipe_id,
+      share_token = EXCLUDED.share_token,
+      changed_at = EXCLUDED.changed_at
+    WHERE collections.changed_at < EXCLUDED.changed_at;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM collection_recipes WHERE collection_recipes.collection_id = save_collection.collection_id;
+
+  INSERT INTO collection_recipes (collection_id, recipe_id, note, sort_order, added_at)
+  SELECT
+    save_collection.collection_id,
+    r.id,
+    NULLIF(item.value->>'note', ''),
+    item.ordinality - 1,
+    COALESCE((item.value->>'addedAt')::TIMESTAMPTZ, NOW())
+  FROM jsonb_array_elements(recipe_items) WITH ORDINALITY AS item
+  JOIN recipes r ON r.id::TEXT = lower(item.value->>'recipeId')
+  ON CONFLICT DO NOTHING;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Save the signed-in user's notes on a recipe, unless the stored version was
+-- changed later (by changed_at, capped at now) on another device. Notes on
+-- recipes the user can't see (deleted or unpublished) or that aren't in the
+-- database at all are skipped. Returns whether this version was saved.
+CREATE OR REPLACE FUNCTION save_recipe_notes(
+  target_recipe_id TEXT,
+  recipe_note TEXT,
+  notes_by_step JSONB,
+  notes_by_ingredient JSONB,
+  default_servings INTEGER,
+  default_unit_system TEXT,
+  changed TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO recipe_notes (user_id, recipe_id, note, step_notes, ingredient_notes, servings, unit_system, changed_at)
+  SELECT
+    auth.uid(), r.id, recipe_note, COALESCE(notes_by_step, '{}'), COALESCE(notes_by_ingredient, '{}'),
+    default_servings, default_unit_system, LEAST(changed, NOW())
+  FROM recipes r
+  WHERE r.id::TEXT = lower(target_recipe_id)
+  ON CONFLICT (user_id, recipe_id) DO UPDATE
+    SET note = EXCLUDED.note,
+      step_notes = EXCLUDED.step_notes,
+      ingredient_notes = EXCLUDED.ingredient_notes,
+      servings = EXCLUDED.servings,
+      unit_system = EXCLUDED.unit_system,
+      changed_at = EXCLUDED.changed_at
+    WHERE recipe_notes.changed_at < EXCLUDED.changed_at;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A shared collection for its read-only page: name, description, owner's
+-- name and recipes with notes, in order. Null when the token doesn't match
+-- (or sharing was turned off). Unpublished recipes are left to the caller,
+-- which only gets published ones from the recipe API.
+CREATE OR REPLACE FUNCTION get_shared_collection(token UUID)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'name', c.name,
+    'description', c.description,
+    'coverRecipeId', c.cover_recipe_id,
+    'ownerName', p.full_name,
+    'items', COALESCE((
+      SELECT json_agg(json_build_object('recipeId', cr.recipe_id, 'note', cr.note) ORDER BY cr.sort_order)
+      FROM collection_recipes cr
+      WHERE cr.collection_id = c.id
+    ), '[]'::json)
+  )
+  FROM collections c
+  JOIN profiles p ON p.id = c.user_id
+  WHERE c.share_token = token
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Words of field_text that match a search term, by prefix or by trigram
+-- similarity (typo tolerance). Used to highlight matches on the site.
+CREATE OR REPLACE FUNCTION search_match_terms(field_text TEXT, search_query TEXT)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT w.word), '{}')
+  FROM regexp_split_to_table(coalesce(field_text, ''), '[^[:alnum:]]+') AS w(word)
+  CROSS JOIN regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS q(term)
+  WHERE length(q.term) > 1
+    AND length(w.word) > 1
+    AND (lower(w.word) LIKE q.term || '%' OR similarity(lower(w.word), q.term) >= 0.4)
+$$ LANGUAGE sql STABLE;
+
+-- Matched snippets of a recipe per field, shaped like SearchMatch in
+-- src/types/recipe.ts: [{ field, snippet, terms }]
+CREATE OR REPLACE FUNCTION recipe_search_matches(
+  target_recipe_id UUID,
+  recipe_title TEXT,
+  recipe_description TEXT,
+  search_query TEXT
+)
+RETURNS JSON AS $$
+  SELECT COALESCE(json_agg(json_build_object(
+    'field', m.field,
+    'snippet', m.snippet,
+    'terms', m.terms
+  ) ORDER BY m.field_order), '[]'::json)
+  FROM (
+    SELECT 1 AS field_order, 'title' AS field, recipe_title AS snippet,
+      search_match_terms(recipe_title, search_query) AS terms
+    UNION ALL
+    SELECT 2, 'tags', t.name, search_match_terms(t.name, search_query)
+    FROM recipe_tags rt
+    JOIN tags t ON rt.tag_id = t.id
+    WHERE rt.recipe_id = target_recipe_id
+    UNION ALL
+    SELECT 3, 'ingredients', ri.ingredient_name, search_match_terms(ri.ingredient_name, search_query)
+    FROM recipe_ingredients ri
+    WHERE ri.recipe_id = target_recipe_id
+    UNION ALL
+    SELECT 4, 'description', recipe_description, search_match_terms(recipe_description, search_query)
+    UNION ALL
+    (
+      SELECT 5, 'steps', rs.instruction, search_match_terms(rs.instruction, search_query)
+      FROM recipe_steps rs
+      WHERE rs.recipe_id = target_recipe_id
+        AND cardinality(search_match_terms(rs.instruction, search_query)) > 0
+      ORDER BY rs.step_number
+      LIMIT 1
+    )
+  ) m
+  WHERE cardinality(m.terms) > 0
+$$ LANGUAGE sql STABLE;
+
 -- Function to get published recipes with filters
+-- Parameters mirror RecipeListQuery in src/types/api.ts
+-- Search is ranked: full-text prefix matches over search_vector, falling back
+-- to trigram word similarity on search_text so typos still match.
+-- have_ingredients keeps recipes using at least one of them (see
+-- recipe_pantry_match). exclude_allergens leaves out recipes containing any
+-- of them (see recipe_allergens). With either search or have_ingredients and
+-- no sort_by (or sort_by = 'relevance')
+-- rows come back by most ingredients on hand, fewest missing, then rank.
 CREATE OR REPLACE FUNCTION get_published_recipes(
   search_query TEXT DEFAULT NULL,
-  tag_filter TEXT DEFAULT NULL,
-  cuisine_filter TEXT DEFAULT NULL,
-  difficulty_filter TEXT DEFAULT NULL,
+  tag_filter TEXT[] DEFAULT NULL,
+  tag_match_all BOOLEAN DEFAULT FALSE,
+  exclude_tags TEXT[] DEFAULT NULL,
+  exclude_allergens TEXT[] DEFAULT NULL,
+  have_ingredients TEXT[] DEFAULT NULL,
+  cuisine_filter TEXT[] DEFAULT NULL,
+  difficulty_filter TEXT[] DEFAULT NULL,
+  max_prep_time INTEGER DEFAULT NULL,
+  sort_by TEXT DEFAULT NULL,
+  sort_order TEXT DEFAULT 'asc',
+  featured_only BOOLEAN DEFAULT FALSE,
+  recipe_ids UUID[] DEFAULT NULL,
   limit_count INTEGER DEFAULT 20,
   offset_count INTEGER DEFAULT 0
 )
@@ -591,26 +1662,85 @@ RETURNS TABLE (
   author_name TEXT,
   date_published DATE,
   is_featured BOOLEAN,
-  tags JSON
+  tags JSON,
+  rating JSON,
+  total_count BIGINT,
+  search_rank REAL,
+  search_matches JSON,
+  pantry_match JSON
 ) AS $$
+DECLARE
+  normalized_query TEXT := NULLIF(lower(trim(search_query)), '');
+  prefix_query TSQUERY;
+  sort_by_rank BOOLEAN;
 BEGIN
+  IF normalized_query IS NOT NULL THEN
+    -- 'yorkshire pud' -> 'yorkshire':* & 'pud':*
+    SELECT to_tsquery('english', string_agg(quote_literal(term) || ':*', ' & '))
+    INTO prefix_query
+    FROM regexp_split_to_table(normalized_query, '[^[:alnum:]]+') AS term
+    WHERE term <> '';
+
+    -- Threshold for the <% operator below
+    PERFORM set_config('pg_trgm.word_similarity_threshold', '0.5', true);
+  END IF;
+
+  sort_by_rank := (normalized_query IS NOT NULL OR have_ingredients IS NOT NULL)
+    AND (sort_by IS NULL OR sort_by = 'relevance');
+
   RETURN QUERY
+  WITH matched AS (
+    SELECT
+      r.*,
+      CASE WHEN normalized_query IS NULL THEN 0
+        ELSE COALESCE(ts_rank_cd(r.search_vector, prefix_query), 0) + word_similarity(normalized_query, r.search_text)
+      END::REAL AS rank,
+      CASE WHEN have_ingredients IS NULL THEN NULL
+        ELSE recipe_pantry_match(r.id, have_ingredients)
+      END AS pantry
+    FROM recipes r
+    WHERE r.is_published = true
+      AND (normalized_query IS NULL
+        OR r.search_vector @@ prefix_query
+        OR normalized_query <% r.search_text)
+      AND (cuisine_filter IS NULL OR r.cuisine = ANY(cuisine_filter))
+      AND (difficulty_filter IS NULL OR r.difficulty = ANY(difficulty_filter))
+      AND (max_prep_time IS NULL OR r.prep_time_mins <= max_prep_time)
+      AND (NOT featured_only OR r.is_featured = true)
+      AND (recipe_ids IS NULL OR r.id = ANY(recipe_ids))
+      -- Tags: any selected tag by default, every selected tag when tag_match_all
+      AND (tag_filter IS NULL OR (
+        SELECT COUNT(DISTINCT t.slug)
+        FROM recipe_tags rt
+        JOIN tags t ON rt.tag_id = t.id
+        WHERE rt.recipe_id = r.id AND t.slug = ANY(tag_filter)
+      ) >= CASE
+        WHEN tag_match_all THEN cardinality(ARRAY(SELECT DISTINCT unnest(tag_filter)))
+        ELSE 1
+      END)
+      AND (exclude_tags IS NULL OR NOT EXISTS (
+        SELECT 1 FROM recipe_tags rt
+        JOIN tags t ON rt.tag_id = t.id
+        WHERE rt.recipe_id = r.id AND t.slug = ANY(exclude_tags)
+      ))
+      AND (exclude_allergens IS NULL OR NOT (recipe_allergens(r.id) && exclude_allergens))
+  )
   SELECT 
-    r.id,
-    r.title,
-    r.slug,
-    r.description,
-    r.cuisine,
-    r.difficulty,
-    r.prep_time_mins,
-    r.cook_time_mins,
-    r.total_time_mins,
-    r.base_servings,
-    r.image_url,
-    r.image_alt,
-    r.author_name,
-    r.date_published,
-    r.is_featured,
+    m.id,
+    m.title,
+    m.slug,
+    m.description,
+    m.cuisine,
+    m.difficulty,
+    m.prep_time_mins,
+    m.cook_time_mins,
+    m.total_time_mins,
+    m.base_servings,
+    m.image_url,
+    m.image_alt,
+    m.author_name,
+    m.date_published,
+    m.is_featured,
     COALESCE(
       (
         SELECT json_agg(
@@ -621,24 +1751,37 @@ BEGIN
         )
         FROM recipe_tags rt
         JOIN tags t ON rt.tag_id = t.id
-        WHERE rt.recipe_id = r.id
+        WHERE rt.recipe_id = m.id
       ),
       '[]'::json
-    ) as tags
-  FROM recipes r
-  WHERE r.is_published = true
-    AND (search_query IS NULL OR (
-      r.title ILIKE '%' || search_query || '%' OR
-      r.description ILIKE '%' || search_query || '%'
-    ))
-    AND (cuisine_filter IS NULL OR r.cuisine = cuisine_filter)
-    AND (difficulty_filter IS NULL OR r.difficulty = difficulty_filter)
-    AND (tag_filter IS NULL OR EXISTS (
-      SELECT 1 FROM recipe_tags rt
-      JOIN tags t ON rt.tag_id = t.id
-      WHERE rt.recipe_id = r.id AND t.slug = tag_filter
-    ))
-  ORDER BY r.is_featured DESC, r.created_at DESC
+    ) as tags,
+    (
+      SELECT json_build_object('average', rr.average, 'count', rr.count)
+      FROM recipe_ratings rr
+      WHERE rr.recipe_id = m.id
+    ) as rating,
+    COUNT(*) OVER() as total_count,
+    m.rank as search_rank,
+    CASE WHEN normalized_query IS NULL THEN NULL
+      ELSE recipe_search_matches(m.id, m.title, m.description, normalized_query)
+    END as search_matches,
+    m.pantry as pantry_match
+  FROM matched m
+  WHERE m.pantry IS NULL OR json_array_length(m.pantry->'matched') > 0
+  ORDER BY
+    CASE WHEN sort_by_rank THEN json_array_length(m.pantry->'matched') END DESC,
+    CASE WHEN sort_by_rank THEN json_array_length(m.pantry->'missing') END ASC,
+    CASE WHEN sort_by_rank THEN m.rank END DESC,
+    CASE WHEN sort_by = 'title' AND sort_order = 'asc' THEN lower(m.title) END ASC,
+    CASE WHEN sort_by = 'title' AND sort_order = 'desc' THEN lower(m.title) END DESC,
+    CASE WHEN sort_by = 'totalTimeMins' AND sort_order = 'asc' THEN m.total_time_mins END ASC,
+    CASE WHEN sort_by = 'totalTimeMins' AND sort_order = 'desc' THEN m.total_time_mins END DESC,
+    CASE WHEN sort_by = 'datePublished' AND sort_order = 'asc' THEN m.date_published END ASC,
+    CASE WHEN sort_by = 'datePublished' AND sort_order = 'desc' THEN m.date_published END DESC,
+    CASE WHEN sort_by = 'difficulty' AND sort_order = 'asc' THEN lower(m.difficulty) END ASC,
+    CASE WHEN sort_by = 'difficulty' AND sort_order = 'desc' THEN lower(m.difficulty) END DESC,
+    m.is_featured DESC,
+    m.created_at DESC
   LIMIT limit_count
   OFFSET offset_count;
 END;
@@ -646,6 +1789,12 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Grant execute permission to anon and authenticated users
 GRANT EXECUTE ON FUNCTION get_published_recipes TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION dietary_tag_conflicts TO authenticated;
+GRANT EXECUTE ON FUNCTION set_favorite TO authenticated;
+GRANT EXECUTE ON FUNCTION save_collection TO authenticated;
+GRANT EXECUTE ON FUNCTION save_recipe_notes TO authenticated;
+GRANT EXECUTE ON FUNCTION get_shared_collection TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refresh_recipe_rating FROM PUBLIC, anon, authenticated;
 
 -- ============================================================================
 -- COMPLETION MESSAGE
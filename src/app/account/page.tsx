@@ -0,0 +1,206 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Heart, LogOut, User } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+
+type Mode = 'sign-in' | 'sign-up';
+
+const inputClassName = 'w-full px-4 py-3 border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+export default function AccountPage() {
+  const { isAvailable, user, loading, signIn, signUp, signOut } = useAuth();
+  const { favorites, favoritesSyncStatus } = useApp();
+  const [mode, setMode] = useState<Mode>('sign-in');
+  const [fullName, setFullName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      if (mode === 'sign-in') {
+        await signIn(email, password);
+      } else {
+        const { needsConfirmation } = await signUp(email, password, fullName);
+        if (needsConfirmation) {
+          setMessage('Check your email for a link to confirm your account, then sign in.');
+          setMode('sign-in');
+        }
+      }
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not sign out. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <User className="w-8 h-8 text-primary-500" />
+          </div>
+          <h1 className="text-4xl font-bold text-dark-slate mb-2">
+            {user ? 'Your Account' : 'Sign In'}
+          </h1>
+          <p className="text-gray-600">
+            Keep your favourite recipes on every device you cook with.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-8">
+          {!isAvailable ? (
+            <p className="text-gray-600 text-center">
+              Accounts aren&apos;t available on this site yet. Your favourites are saved on this device.
+            </p>
+          ) : loading ? (
+            <div className="space-y-4 animate-pulse">
+              <div className="h-4 bg-soft-grey rounded" />
+              <div className="h-4 bg-soft-grey rounded w-3/4" />
+            </div>
+          ) : user ? (
+            <div className="space-y-6">
+              <div>
+                <div className="text-sm text-gray-500">Signed in as</div>
+                <div className="font-semibold text-dark-slate">{user.email}</div>
+              </div>
+
+              <Link
+                href="/favorites"
+                className="flex items-center justify-between p-4 bg-cream rounded-lg hover:bg-soft-grey transition-colors"
+              >
+                <span className="flex items-center gap-2 font-medium text-dark-slate">
+                  <Heart className="w-5 h-5 text-primary-500" />
+                  {favorites.length} favourite recipe{favorites.length !== 1 ? 's' : ''}
+                </span>
+                <span className="text-sm text-gray-500">
+                  {favoritesSyncStatus === 'pending' ? 'Saving…' : 'Synced'}
+                </span>
+              </Link>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <button
+                onClick={handleSignOut}
+                className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-white text-dark-slate border border-soft-grey rounded-lg font-semibold hover:bg-soft-grey transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Sign Out
+              </button>
+              <p className="text-xs text-gray-500 text-center">
+                Signing out removes your favourites from this device. They stay in your account.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="flex mb-6 border border-soft-grey rounded-lg overflow-hidden">
+                {(['sign-in', 'sign-up'] as Mode[]).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => {
+                      setMode(option);
+                      setError(null);
+                    }}
+                    className={cn(
+                      'flex-1 py-2 text-sm font-medium transition-colors',
+                      mode === option ? 'bg-primary-500 text-white' : 'text-dark-slate hover:bg-soft-grey'
+                    )}
+                  >
+                    {option === 'sign-in' ? 'Sign In' : 'Create Account'}
+                  </button>
+                ))}
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {mode === 'sign-up' && (
+                  <div>
+                    <label htmlFor="fullName" className="block text-sm font-medium text-dark-slate mb-2">
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      id="fullName"
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                      required
+                      autoComplete="name"
+                      className={inputClassName}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-dark-slate mb-2">
+                    Email Address
+                  </label>
+                  <input
+                    type="email"
+                    id="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    autoComplete="email"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-dark-slate mb-2">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={mode === 'sign-up' ? 8 : undefined}
+                    autoComplete={mode === 'sign-up' ? 'new-password' : 'current-password'}
+                    className={inputClassName}
+                  />
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                {message && <p className="text-sm text-fresh-600">{message}</p>}
+
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+                >
+                  {submitting ? 'Please wait…' : mode === 'sign-in' ? 'Sign In' : 'Create Account'}
+                </button>
+              </form>
+
+              {favorites.length > 0 && (
+                <p className="mt-6 text-sm text-gray-500 text-center">
+                  The {favorites.length} favourite{favorites.length !== 1 ? 's' : ''} saved on this device will be added to your account.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
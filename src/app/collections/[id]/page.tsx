@@ -0,0 +1,377 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Check,
+  Copy,
+  FolderOpen,
+  ImageIcon,
+  Link2,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { Recipe } from '@/types/recipe';
+import { getRecipesByIds } from '@/lib/api';
+import { getCollectionCoverId } from '@/lib/collections';
+import { cn, formatCookingTime } from '@/lib/utils';
+
+const inputClassName = 'w-full px-4 py-2 border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+export default function CollectionPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const {
+    collections,
+    updateCollection,
+    deleteCollection,
+    removeFromCollection,
+    moveInCollection,
+    setCollectionNote,
+    shareCollection,
+    unshareCollection,
+    collectionsSyncStatus,
+  } = useApp();
+  const { isAvailable: accountsAvailable, user } = useAuth();
+  const [recipes, setRecipes] = useState<Record<string, Recipe>>({});
+  const [loading, setLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const collection = collections.find(item => item.id === id);
+  const recipeKey = collection?.items.map(item => item.recipeId).join(',') ?? '';
+
+  useEffect(() => {
+    if (!recipeKey) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    setLoading(true);
+    getRecipesByIds(recipeKey.split(','))
+      .then(found => {
+        if (!cancelled) setRecipes(Object.fromEntries(found.map(recipe => [recipe.id, recipe])));
+      })
+      .catch(error => console.error('Error loading collection recipes:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recipeKey]);
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-cream">
+        <div className="max-w-md mx-auto px-4 py-16 text-center">
+          <FolderOpen className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-dark-slate mb-2">Collection not found</h1>
+          <p className="text-gray-600 mb-6">It may have been deleted on another device.</p>
+          <Link
+            href="/collections"
+            className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+          >
+            Your Collections
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const coverId = getCollectionCoverId(collection);
+  const shareUrl = collection.shareToken && typeof window !== 'undefined'
+    ? `${window.location.origin}/collections/shared/${collection.shareToken}`
+    : null;
+
+  const startEditing = () => {
+    setName(collection.name);
+    setDescription(collection.description ?? '');
+    setIsEditing(true);
+  };
+
+  const saveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    updateCollection(collection.id, { name: name.trim(), description: description.trim() || undefined });
+    setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete "${collection.name}"? The recipes themselves stay on the site.`)) return;
+    deleteCollection(collection.id);
+    router.push('/collections');
+  };
+
+  const copyShareUrl = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Link
+          href="/collections"
+          className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-primary-500 mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          All collections
+        </Link>
+
+        {/* Details */}
+        <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6 mb-6">
+          {isEditing ? (
+            <form onSubmit={saveDetails} className="space-y-4">
+              <div>
+                <label htmlFor="collection-name" className="block text-sm font-medium text-dark-slate mb-1">
+                  Name
+                </label>
+                <input
+                  id="collection-name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={80}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="collection-description" className="block text-sm font-medium text-dark-slate mb-1">
+                  Description
+                </label>
+                <textarea
+                  id="collection-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={2}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  className="px-4 py-2 border border-soft-grey rounded-lg font-medium text-dark-slate hover:bg-soft-grey transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl md:text-4xl font-bold text-dark-slate mb-2">{collection.name}</h1>
+                {collection.description && <p className="text-gray-600 mb-2">{collection.description}</p>}
+                <p className="text-sm text-gray-500">
+                  {collection.items.length} recipe{collection.items.length !== 1 ? 's' : ''}
+                  {collectionsSyncStatus === 'pending' && ' · Saving…'}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={startEditing}
+                  className="p-2 rounded-lg border border-soft-grey text-gray-600 hover:bg-soft-grey transition-colors"
+                  aria-label="Edit collection details"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="p-2 rounded-lg border border-soft-grey text-gray-600 hover:bg-red-50 hover:text-red-600 transition-colors"
+                  aria-label="Delete collection"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Sharing */}
+          {accountsAvailable && (
+            <div className="mt-6 pt-6 border-t border-soft-grey">
+              {!user ? (
+                <p className="text-sm text-gray-600">
+                  <Link href="/account" className="text-primary-500 hover:text-primary-600 font-medium">
+                    Sign in
+                  </Link>{' '}
+                  to share this collection with a read-only link.
+                </p>
+              ) : shareUrl ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      readOnly
+                      value={shareUrl}
+                      onFocus={(e) => e.target.select()}
+                      className={cn(inputClassName, 'text-sm')}
+                      aria-label="Share link"
+                    />
+                    <button
+                      onClick={copyShareUrl}
+                      className="flex items-center gap-1 px-3 py-2 rounded-lg bg-primary-500 text-white text-sm font-medium hover:bg-primary-600 transition-colors"
+                    >
+                      {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      {copied ? 'Copied' : 'Copy'}
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Anyone with the link can see this collection and your notes, but not change them.{' '}
+                    <button
+                      onClick={() => unshareCollection(collection.id)}
+                      className="text-primary-500 hover:text-primary-600 font-medium"
+                    >
+                      Stop sharing
+                    </button>
+                  </p>
+                </div>
+              ) : (
+                <button
+                  onClick={() => shareCollection(collection.id)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg border border-soft-grey text-dark-slate font-medium hover:bg-soft-grey transition-colors"
+                >
+                  <Link2 className="w-4 h-4" />
+                  Share a read-only link
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Recipes */}
+        {collection.items.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 mb-6">
+              No recipes in this collection yet. Use the folder button on a recipe to add it.
+            </p>
+            <Link
+              href="/recipes"
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+            >
+              Browse Recipes
+            </Link>
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {collection.items.map((item, index) => {
+              const recipe = recipes[item.recipeId];
+              const isCover = coverId === item.recipeId;
+
+              return (
+                <li key={item.recipeId} className="bg-white rounded-xl shadow-sm border border-soft-grey p-4 flex gap-4">
+                  <div className="relative w-24 h-24 flex-shrink-0 rounded-lg overflow-hidden bg-soft-grey">
+                    {recipe?.imageUrl ? (
+                      <Image src={recipe.imageUrl} alt="" fill className="object-cover" />
+                    ) : (
+                      !loading && <AlertCircle className="absolute inset-0 m-auto w-8 h-8 text-gray-400" />
+                    )}
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    {recipe ? (
+                      <>
+                        <Link
+                          href={`/recipes/${recipe.slug}`}
+                          className="font-semibold text-lg text-dark-slate hover:text-primary-500 transition-colors line-clamp-1"
+                        >
+                          {recipe.title}
+                        </Link>
+                        <p className="text-sm text-gray-500 mb-2">
+                          {formatCookingTime(recipe.totalTimeMins)} · {recipe.difficulty}
+                          {isCover && ' · Cover'}
+                        </p>
+                      </>
+                    ) : loading ? (
+                      <div className="h-5 w-1/2 bg-soft-grey rounded mb-2 animate-pulse" />
+                    ) : (
+                      <>
+                        <p className="font-semibold text-dark-slate">No longer available</p>
+                        <p className="text-sm text-gray-500 mb-2">This recipe has been removed or unpublished.</p>
+                      </>
+                    )}
+
+                    {/* Keyed by note so it resets when the note syncs from another device */}
+                    <textarea
+                      key={item.note ?? ''}
+                      defaultValue={item.note ?? ''}
+                      onBlur={(e) => {
+                        if (e.target.value.trim() !== (item.note ?? '')) {
+                          setCollectionNote(collection.id, item.recipeId, e.target.value);
+                        }
+                      }}
+                      placeholder="Add a note (swaps, who it's for, how it went)..."
+                      rows={1}
+                      className="w-full px-3 py-2 text-sm border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      aria-label={`Note on ${recipe?.title ?? 'recipe'}`}
+                    />
+                  </div>
+
+                  <div className="flex flex-col gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => moveInCollection(collection.id, item.recipeId, -1)}
+                      disabled={index === 0}
+                      className="p-1.5 rounded text-gray-600 hover:bg-soft-grey transition-colors disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveInCollection(collection.id, item.recipeId, 1)}
+                      disabled={index === collection.items.length - 1}
+                      className="p-1.5 rounded text-gray-600 hover:bg-soft-grey transition-colors disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    {recipe && (
+                      <button
+                        onClick={() => updateCollection(collection.id, { coverRecipeId: item.recipeId })}
+                        disabled={isCover}
+                        className={cn(
+                          'p-1.5 rounded transition-colors',
+                          isCover ? 'text-primary-500' : 'text-gray-600 hover:bg-soft-grey'
+                        )}
+                        aria-label={isCover ? 'Cover image' : 'Use as cover image'}
+                      >
+                        <ImageIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => removeFromCollection(collection.id, item.recipeId)}
+                      className="p-1.5 rounded text-gray-600 hover:bg-red-50 hover:text-red-600 transition-colors"
+                      aria-label="Remove from collection"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
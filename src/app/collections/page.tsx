@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { FolderOpen, Link2, Plus } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { Recipe } from '@/types/recipe';
+import { getRecipesByIds } from '@/lib/api';
+import { getCollectionCoverId } from '@/lib/collections';
+
+export default function CollectionsPage() {
+  const { collections, createCollection, collectionsSyncStatus } = useApp();
+  const { isAvailable: accountsAvailable } = useAuth();
+  const [covers, setCovers] = useState<Record<string, Recipe>>({});
+  const [newName, setNewName] = useState('');
+
+  const coverIds = collections.flatMap(collection => getCollectionCoverId(collection) ?? []);
+  const coverKey = coverIds.join(',');
+
+  useEffect(() => {
+    if (!coverKey) return;
+    let cancelled = false;
+
+    getRecipesByIds(coverKey.split(','))
+      .then(recipes => {
+        if (!cancelled) setCovers(Object.fromEntries(recipes.map(recipe => [recipe.id, recipe])));
+      })
+      .catch(error => console.error('Error loading collection covers:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [coverKey]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    createCollection(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="w-16 h-16 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <FolderOpen className="w-8 h-8 text-primary-500" />
+          </div>
+          <h1 className="text-4xl md:text-5xl font-bold text-dark-slate mb-4">
+            Your Collections
+          </h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            Group recipes into folders like &quot;Sunday roasts&quot; or &quot;Kids&apos; teas&quot;, add notes and share them.
+          </p>
+          {accountsAvailable && (
+            <p className="mt-3 text-sm text-gray-500">
+              {collectionsSyncStatus === 'local' && (
+                <>
+                  Saved on this device only.{' '}
+                  <Link href="/account" className="text-primary-500 hover:text-primary-600 font-medium">
+                    Sign in
+                  </Link>{' '}
+                  to keep them on all your devices and share them.
+                </>
+              )}
+              {collectionsSyncStatus === 'pending' && 'Saving changes to your account…'}
+              {collectionsSyncStatus === 'synced' && 'Synced with your account.'}
+            </p>
+          )}
+        </div>
+
+        {/* New Collection */}
+        <form onSubmit={handleCreate} className="max-w-md mx-auto mb-12 flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name a new collection..."
+            maxLength={80}
+            className="flex-1 px-4 py-3 border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            aria-label="New collection name"
+          />
+          <button
+            type="submit"
+            disabled={!newName.trim()}
+            className="flex items-center gap-2 px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-5 h-5" />
+            Create
+          </button>
+        </form>
+
+        {collections.length === 0 ? (
+          /* Empty State */
+          <div className="text-center py-8">
+            <p className="text-gray-600 mb-8 max-w-md mx-auto">
+              You haven&apos;t made any collections yet. Create one above, or use the folder button
+              on any recipe to start one.
+            </p>
+            <Link
+              href="/recipes"
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+            >
+              Browse Recipes
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {collections.map(collection => {
+              const coverId = getCollectionCoverId(collection);
+              const cover = coverId ? covers[coverId] : undefined;
+
+              return (
+                <Link
+                  key={collection.id}
+                  href={`/collections/${collection.id}`}
+                  className="group bg-white rounded-xl shadow-sm border border-soft-grey overflow-hidden hover:shadow-md transition-shadow"
+                >
+                  <div className="relative aspect-[4/3] bg-soft-grey">
+                    {cover?.imageUrl ? (
+                      <Image
+                        src={cover.imageUrl}
+                        alt=""
+                        fill
+                        className="object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    ) : (
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <FolderOpen className="w-12 h-12 text-gray-400" />
+                      </div>
+                    )}
+                    {collection.shareToken && (
+                      <span className="absolute top-3 left-3 flex items-center gap-1 px-2 py-1 rounded-full bg-white/90 text-xs font-medium text-dark-slate">
+                        <Link2 className="w-3 h-3" />
+                        Shared
+                      </span>
+                    )}
+                  </div>
+                  <div className="p-4">
+                    <h2 className="font-semibold text-lg text-dark-slate group-hover:text-primary-500 transition-colors line-clamp-1">
+                      {collection.name}
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                      {collection.items.length} recipe{collection.items.length !== 1 ? 's' : ''}
+                    </p>
+                    {collection.description && (
+                      <p className="mt-2 text-sm text-gray-600 line-clamp-2">{collection.description}</p>
+                    )}
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { FolderOpen } from 'lucide-react';
+import { Recipe } from '@/types/recipe';
+import { getRecipesByIds } from '@/lib/api';
+import { SharedCollection, fetchSharedCollection } from '@/lib/collections';
+import { getSupabaseClient, isSupabaseConfigured } from '@/lib/supabase';
+import RecipeCard from '@/components/RecipeCard';
+
+/**
+ * Read-only view of a collection someone shared
+ */
+export default function SharedCollectionPage() {
+  const { token } = useParams<{ token: string }>();
+  const [collection, setCollection] = useState<SharedCollection | null>(null);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCollection = async () => {
+      try {
+        const shared = isSupabaseConfigured() ? await fetchSharedCollection(getSupabaseClient(), token) : null;
+        // Only published recipes come back, so unpublished ones drop out here
+        const found = shared ? await getRecipesByIds(shared.items.map(item => item.recipeId)) : [];
+        if (cancelled) return;
+
+        setCollection(shared);
+        setRecipes(found);
+      } catch (error) {
+        console.error('Error loading shared collection:', error);
+        if (!cancelled) setLoadError(true);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadCollection();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-cream">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 animate-pulse">
+          <div className="h-10 bg-soft-grey rounded w-1/3 mx-auto mb-4" />
+          <div className="h-5 bg-soft-grey rounded w-1/2 mx-auto" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-cream">
+        <div className="max-w-md mx-auto px-4 py-16 text-center">
+          <FolderOpen className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-dark-slate mb-2">
+            {loadError ? 'Couldn’t load this collection' : 'Collection not found'}
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {loadError
+              ? 'Check your connection and try again.'
+              : 'The link may be wrong, or the owner has stopped sharing it.'}
+          </p>
+          <Link
+            href="/recipes"
+            className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+          >
+            Browse Recipes
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const notes = new Map(collection.items.map(item => [item.recipeId, item.note]));
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl md:text-5xl font-bold text-dark-slate mb-4">{collection.name}</h1>
+          {collection.ownerName && (
+            <p className="text-gray-500 mb-2">A collection by {collection.ownerName}</p>
+          )}
+          {collection.description && (
+            <p className="text-xl text-gray-600 max-w-2xl mx-auto">{collection.description}</p>
+          )}
+        </div>
+
+        {recipes.length === 0 ? (
+          <p className="text-center text-gray-600">There are no recipes in this collection yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {recipes.map(recipe => (
+              <div key={recipe.id}>
+                <RecipeCard recipe={recipe} />
+                {notes.get(recipe.id) && (
+                  <p className="mt-2 px-2 text-sm text-gray-600 italic">{notes.get(recipe.id)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,42 +1,52 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Heart, Search } from 'lucide-react';
+import { AlertCircle, Heart, RefreshCw, Search, Trash2 } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { Recipe } from '@/types/recipe';
+import { getRecipesByIds } from '@/lib/api';
 import RecipeCard from '@/components/RecipeCard';
 import Link from 'next/link';
 
 export default function FavoritesPage() {
-  const { favorites } = useApp();
+  const { favorites, favoritesSyncStatus, removeFromFavorites } = useApp();
+  const { isAvailable: accountsAvailable } = useAuth();
   const [favoriteRecipes, setFavoriteRecipes] = useState<Recipe[]>([]);
+  // Favourites whose recipe was deleted or unpublished
+  const [unavailableIds, setUnavailableIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
+    let cancelled = false;
+
     const loadFavoriteRecipes = async () => {
       setLoading(true);
+      setLoadError(false);
       try {
-        const recipes = await Promise.all(
-          favorites.map(async (id) => {
-            // Since we store IDs, we need to find recipes by ID
-            // For now, we'll use a simple approach - in a real app, you'd have a proper API endpoint
-            const mockRecipes = await import('../../../data/recipes.json');
-            const data = (mockRecipes.default as unknown) as Recipe[];
-            return data.find((recipe) => recipe.id === id) || null;
-          })
-        );
-        
-        setFavoriteRecipes(recipes.filter(Boolean) as Recipe[]);
+        const recipes = await getRecipesByIds(favorites);
+        if (cancelled) return;
+
+        // Recipe ids come back in lower case whatever case was asked for
+        const found = new Set(recipes.map(recipe => recipe.id.toLowerCase()));
+        setFavoriteRecipes(recipes);
+        setUnavailableIds(favorites.filter(id => !found.has(id.toLowerCase())));
       } catch (error) {
         console.error('Error loading favorite recipes:', error);
+        if (!cancelled) setLoadError(true);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     loadFavoriteRecipes();
-  }, [favorites]);
+    return () => {
+      cancelled = true;
+    };
+  }, [favorites, reloadKey]);
 
   const filteredRecipes = favoriteRecipes.filter(recipe =>
     recipe.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -61,6 +71,21 @@ export default function FavoritesPage() {
               : `You've saved ${favorites.length} delicious recipe${favorites.length !== 1 ? 's' : ''} to cook later.`
             }
           </p>
+          {accountsAvailable && (
+            <p className="mt-3 text-sm text-gray-500">
+              {favoritesSyncStatus === 'local' && (
+                <>
+                  Saved on this device only.{' '}
+                  <Link href="/account" className="text-primary-500 hover:text-primary-600 font-medium">
+                    Sign in
+                  </Link>{' '}
+                  to keep them on all your devices.
+                </>
+              )}
+              {favoritesSyncStatus === 'pending' && 'Saving changes to your account…'}
+              {favoritesSyncStatus === 'synced' && 'Synced with your account.'}
+            </p>
+          )}
         </div>
 
         {favorites.length === 0 ? (
@@ -108,7 +133,22 @@ export default function FavoritesPage() {
             </div>
 
             {/* Loading State */}
-            {loading ? (
+            {loadError ? (
+              <div className="text-center py-12">
+                <AlertCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-dark-slate mb-2">Couldn&apos;t load your favourites</h3>
+                <p className="text-gray-600 mb-6">
+                  Check your connection and try again.
+                </p>
+                <button
+                  onClick={() => setReloadKey(key => key + 1)}
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Try Again
+                </button>
+              </div>
+            ) : loading ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {Array.from({ length: favorites.length }).map((_, i) => (
                   <div key={i} className="bg-white rounded-xl border border-soft-grey p-4 animate-pulse">
@@ -122,13 +162,32 @@ export default function FavoritesPage() {
                   </div>
                 ))}
               </div>
-            ) : filteredRecipes.length > 0 ? (
+            ) : filteredRecipes.length > 0 || (!searchQuery && unavailableIds.length > 0) ? (
               /* Recipes Grid */
               <>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
                   {filteredRecipes.map((recipe) => (
                     <RecipeCard key={recipe.id} recipe={recipe} />
                   ))}
+                  {!searchQuery && unavailableIds.map((id) => (
+                    <div
+                      key={id}
+                      className="bg-white rounded-xl border border-dashed border-soft-grey p-6 flex flex-col items-center justify-center text-center min-h-[200px]"
+                    >
+                      <AlertCircle className="w-10 h-10 text-gray-400 mb-3" />
+                      <h3 className="font-semibold text-dark-slate mb-1">No longer available</h3>
+                      <p className="text-sm text-gray-600 mb-4">
+                        This recipe has been removed or unpublished.
+                      </p>
+                      <button
+                        onClick={() => removeFromFavorites(id)}
+                        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-dark-slate border border-soft-grey rounded-lg hover:bg-soft-grey transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Remove from favourites
+                      </button>
+                    </div>
+                  ))}
                 </div>
 
                 {/* Stats */}
@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { AppProvider } from "@/contexts/AppContext";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { TimerProvider } from "@/contexts/TimerContext";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 
@@ -58,15 +60,19 @@ export default function RootLayout({
   return (
     <html lang="en-GB">
       <body className={`${inter.variable} font-sans antialiased bg-cream min-h-screen`}>
-        <AppProvider>
-          <div className="flex flex-col min-h-screen">
-            <Header />
-            <main id="main-content" className="flex-1">
-              {children}
-            </main>
-            <Footer />
-          </div>
-        </AppProvider>
+        <AuthProvider>
+          <AppProvider>
+            <TimerProvider>
+              <div className="flex flex-col min-h-screen">
+                <Header />
+                <main id="main-content" className="flex-1">
+                  {children}
+                </main>
+                <Footer />
+              </div>
+            </TimerProvider>
+          </AppProvider>
+        </AuthProvider>
       </body>
     </html>
   );
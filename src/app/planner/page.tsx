@@ -0,0 +1,397 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  CalendarDays, ChevronLeft, ChevronRight, Clock, Download, GripVertical,
+  Heart, Minus, Plus, Search, ShoppingBasket, X,
+} from 'lucide-react';
+import { MealSlot, PlannedMeal, Recipe } from '@/types/recipe';
+import { useApp } from '@/contexts/AppContext';
+import { getRecipesByIds, searchRecipes } from '@/lib/api';
+import { buildMealPlanCalendar } from '@/lib/ical';
+import {
+  MEAL_SLOTS, fromDateKey, getWeekDays, getWeekStart, mealPlanToShoppingList, summarizeDay, toDateKey,
+} from '@/lib/planner';
+import { cn, downloadTextFile, formatCookingTime } from '@/lib/utils';
+
+type DragPayload = { kind: 'recipe'; recipeId: string } | { kind: 'meal'; mealId: string };
+
+const DRAG_TYPE = 'application/json';
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function PlannerPage() {
+  const router = useRouter();
+  const {
+    favorites,
+    mealPlan,
+    addToMealPlan,
+    moveMeal,
+    updateMealServings,
+    removeFromMealPlan,
+    addToShoppingList,
+  } = useApp();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [source, setSource] = useState<'favorites' | 'search'>('favorites');
+  const [favoriteRecipes, setFavoriteRecipes] = useState<Recipe[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Recipe[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<{ date: string; slot: MealSlot } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (favorites.length === 0) {
+      setFavoriteRecipes([]);
+      return;
+    }
+
+    getRecipesByIds(favorites)
+      .then(setFavoriteRecipes)
+      .catch((error) => console.error('Error loading favourite recipes:', error));
+  }, [favorites]);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      searchRecipes(query, 10, controller.signal)
+        .then(setSearchResults)
+        .catch((error) => {
+          if (!controller.signal.aborted) console.error('Error searching recipes:', error);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchQuery]);
+
+  const days = getWeekDays(weekStart);
+  const dayKeys = days.map(toDateKey);
+  const weekMeals = mealPlan.filter(meal => dayKeys.includes(meal.date));
+  const sourceRecipes = source === 'favorites' ? favoriteRecipes : searchResults;
+
+  // 0 jumps back to the current week
+  const changeWeek = (weeks: number) => {
+    setWeekStart(prev => weeks === 0
+      ? getWeekStart(new Date())
+      : new Date(prev.getFullYear(), prev.getMonth(), prev.getDate() + weeks * 7));
+    setSelectedSlot(null);
+  };
+
+  const findRecipe = (recipeId: string) =>
+    [...favoriteRecipes, ...searchResults].find(recipe => recipe.id === recipeId);
+
+  const handleDragStart = (e: React.DragEvent, payload: DragPayload) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = payload.kind === 'recipe' ? 'copy' : 'move';
+  };
+
+  const handleDrop = (e: React.DragEvent, date: string, slot: MealSlot) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    let payload: DragPayload;
+    try {
+      payload = JSON.parse(e.dataTransfer.getData(DRAG_TYPE));
+    } catch {
+      return;
+    }
+
+    if (payload.kind === 'meal') {
+      moveMeal(payload.mealId, date, slot);
+      return;
+    }
+
+    const recipe = findRecipe(payload.recipeId);
+    if (recipe) addToMealPlan(recipe, date, slot, recipe.baseServings);
+  };
+
+  // Keyboard and touch alternative to dragging: pick a slot, then a recipe
+  const addToSelectedSlot = (recipe: Recipe) => {
+    if (!selectedSlot) return;
+    addToMealPlan(recipe, selectedSlot.date, selectedSlot.slot, recipe.baseServings);
+    setSelectedSlot(null);
+  };
+
+  const handleAddWeekToShoppingList = () => {
+    mealPlanToShoppingList(weekMeals).forEach(addToShoppingList);
+    router.push('/shopping-list');
+  };
+
+  const handleExportCalendar = () => {
+    const calendar = buildMealPlanCalendar(weekMeals, window.location.origin);
+    downloadTextFile(`meal-plan-${dayKeys[0]}.ics`, calendar, 'text/calendar');
+  };
+
+  const weekLabel = `${days[0].toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })} – ${days[6].toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+  const renderMeal = (meal: PlannedMeal) => (
+    <li
+      key={meal.id}
+      draggable
+      onDragStart={(e) => handleDragStart(e, { kind: 'meal', mealId: meal.id })}
+      className="bg-cream rounded-lg p-2 text-sm cursor-move"
+    >
+      <div className="flex items-start justify-between gap-1">
+        <Link
+          href={`/recipes/${meal.slug}`}
+          className="font-medium text-dark-slate hover:text-primary-500 transition-colors leading-snug"
+        >
+          {meal.title}
+        </Link>
+        <button
+          onClick={() => removeFromMealPlan(meal.id)}
+          className="text-gray-400 hover:text-primary-500 transition-colors flex-shrink-0"
+          aria-label={`Remove ${meal.title} from ${fromDateKey(meal.date).toLocaleDateString('en-GB', { weekday: 'long' })} ${meal.slot}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      <div className="flex items-center space-x-1 mt-1 text-xs text-gray-600">
+        <button
+          onClick={() => updateMealServings(meal.id, meal.servings - 1)}
+          className="p-0.5 rounded border border-soft-grey bg-white hover:bg-soft-grey transition-colors"
+          aria-label={`Decrease servings of ${meal.title}`}
+        >
+          <Minus className="w-3 h-3" />
+        </button>
+        <span>{meal.servings} serving{meal.servings !== 1 ? 's' : ''}</span>
+        <button
+          onClick={() => updateMealServings(meal.id, meal.servings + 1)}
+          className="p-0.5 rounded border border-soft-grey bg-white hover:bg-soft-grey transition-colors"
+          aria-label={`Increase servings of ${meal.title}`}
+        >
+          <Plus className="w-3 h-3" />
+        </button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-dark-slate mb-2">Meal Planner</h1>
+            <p className="text-lg text-gray-600">
+              Drag recipes onto the week, then shop for everything in one go.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleAddWeekToShoppingList}
+              disabled={weekMeals.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-fresh-500 text-white rounded-lg font-medium hover:bg-fresh-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ShoppingBasket className="w-4 h-4" />
+              <span>Shopping List for the Week</span>
+            </button>
+            <button
+              onClick={handleExportCalendar}
+              disabled={weekMeals.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg border border-soft-grey bg-white text-gray-600 hover:bg-soft-grey transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export to Calendar</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-8">
+          {/* Recipe source */}
+          <aside className="lg:w-72 flex-shrink-0">
+            <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-4 lg:sticky lg:top-24">
+              <div className="flex space-x-1 bg-soft-grey rounded-lg p-1 mb-4">
+                <button
+                  onClick={() => setSource('favorites')}
+                  className={cn(
+                    'flex-1 flex items-center justify-center space-x-1 px-3 py-1 text-sm rounded-md transition-colors',
+                    source === 'favorites' ? 'bg-white shadow-sm' : 'hover:bg-white/50'
+                  )}
+                >
+                  <Heart className="w-4 h-4" />
+                  <span>Favourites</span>
+                </button>
+                <button
+                  onClick={() => setSource('search')}
+                  className={cn(
+                    'flex-1 flex items-center justify-center space-x-1 px-3 py-1 text-sm rounded-md transition-colors',
+                    source === 'search' ? 'bg-white shadow-sm' : 'hover:bg-white/50'
+                  )}
+                >
+                  <Search className="w-4 h-4" />
+                  <span>Search</span>
+                </button>
+              </div>
+
+              {source === 'search' && (
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search recipes..."
+                  aria-label="Search recipes to plan"
+                  className="w-full px-3 py-2 mb-4 border border-soft-grey rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              )}
+
+              <p className="text-xs text-gray-500 mb-3">
+                {selectedSlot
+                  ? `Choose a recipe for ${fromDateKey(selectedSlot.date).toLocaleDateString('en-GB', { weekday: 'long' })} ${selectedSlot.slot}.`
+                  : 'Drag a recipe onto a meal slot, or pick a slot first.'}
+              </p>
+
+              {sourceRecipes.length > 0 ? (
+                <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+                  {sourceRecipes.map((recipe) => (
+                    <li
+                      key={recipe.id}
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, { kind: 'recipe', recipeId: recipe.id })}
+                      className="flex items-center space-x-2 p-2 rounded-lg border border-soft-grey hover:bg-soft-grey cursor-move text-sm"
+                    >
+                      <GripVertical className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <span className="flex-1 truncate text-dark-slate">{recipe.title}</span>
+                      {selectedSlot && (
+                        <button
+                          onClick={() => addToSelectedSlot(recipe)}
+                          className="px-2 py-0.5 text-xs bg-primary-500 text-white rounded hover:bg-primary-600 transition-colors"
+                        >
+                          Add
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  {source === 'favorites'
+                    ? 'Save recipes to your favourites to plan with them here.'
+                    : searchQuery.trim() ? 'No recipes found.' : 'Type to find recipes.'}
+                </p>
+              )}
+            </div>
+          </aside>
+
+          {/* Week grid */}
+          <main className="flex-1 min-w-0">
+            <div className="flex items-center justify-between mb-4 p-3 bg-white rounded-lg border border-soft-grey">
+              <button
+                onClick={() => changeWeek(-1)}
+                className="p-2 rounded-lg hover:bg-soft-grey transition-colors"
+                aria-label="Previous week"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <div className="flex items-center space-x-2 font-semibold text-dark-slate">
+                <CalendarDays className="w-5 h-5 text-primary-500" />
+                <span>{weekLabel}</span>
+                <button
+                  onClick={() => changeWeek(0)}
+                  className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-soft-grey hover:bg-primary-100 transition-colors"
+                >
+                  This week
+                </button>
+              </div>
+              <button
+                onClick={() => changeWeek(1)}
+                className="p-2 rounded-lg hover:bg-soft-grey transition-colors"
+                aria-label="Next week"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-7 gap-3">
+              {days.map((day, dayIndex) => {
+                const dateKey = dayKeys[dayIndex];
+                const dayMeals = weekMeals.filter(meal => meal.date === dateKey);
+                const summary = summarizeDay(dayMeals);
+
+                return (
+                  <section key={dateKey} className="bg-white rounded-xl border border-soft-grey p-3 flex flex-col">
+                    <h2 className="font-semibold text-dark-slate mb-2">
+                      {day.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' })}
+                    </h2>
+
+                    <div className="space-y-2 flex-1">
+                      {MEAL_SLOTS.map(({ value: slot, label }) => {
+                        const slotKey = `${dateKey}-${slot}`;
+                        const isSelected = selectedSlot?.date === dateKey && selectedSlot.slot === slot;
+
+                        return (
+                          <div
+                            key={slot}
+                            onDragOver={(e) => {
+                              e.preventDefault();
+                              setDropTarget(slotKey);
+                            }}
+                            onDragLeave={() => setDropTarget(prev => (prev === slotKey ? null : prev))}
+                            onDrop={(e) => handleDrop(e, dateKey, slot)}
+                            className={cn(
+                              'rounded-lg border border-dashed p-2 min-h-[4rem] transition-colors',
+                              dropTarget === slotKey || isSelected
+                                ? 'border-primary-500 bg-primary-50'
+                                : 'border-soft-grey'
+                            )}
+                          >
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">{label}</span>
+                              <button
+                                onClick={() => setSelectedSlot(isSelected ? null : { date: dateKey, slot })}
+                                className="text-gray-400 hover:text-primary-500 transition-colors"
+                                aria-label={`Add a recipe to ${day.toLocaleDateString('en-GB', { weekday: 'long' })} ${slot}`}
+                                aria-pressed={isSelected}
+                              >
+                                <Plus className="w-4 h-4" />
+                              </button>
+                            </div>
+                            <ul className="space-y-1">
+                              {dayMeals.filter(meal => meal.slot === slot).map(renderMeal)}
+                            </ul>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {dayMeals.length > 0 && (
+                      <dl className="mt-3 pt-3 border-t border-soft-grey text-xs text-gray-600 space-y-1">
+                        <div className="flex items-center space-x-1">
+                          <Clock className="w-3 h-3" />
+                          <dt className="sr-only">Time</dt>
+                          <dd>
+                            {formatCookingTime(summary.prepTimeMins + summary.cookTimeMins)}
+                            {' '}(prep {formatCookingTime(summary.prepTimeMins)})
+                          </dd>
+                        </div>
+                        {summary.hasNutrition && (
+                          <div>
+                            <dt className="sr-only">Nutrition per person</dt>
+                            <dd>
+                              {Math.round(summary.nutrition.calories)} kcal · {Math.round(summary.nutrition.protein)}g protein ·{' '}
+                              {Math.round(summary.nutrition.carbs)}g carbs · {Math.round(summary.nutrition.fat)}g fat
+                            </dd>
+                          </div>
+                        )}
+                      </dl>
+                    )}
+                  </section>
+                );
+              })}
+            </div>
+            <p className="mt-3 text-xs text-gray-500">Daily nutrition is per person: one serving of each meal.</p>
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,18 @@ import React from 'react';
 import { notFound } from 'next/navigation';
 import { Metadata } from 'next';
 import { getRecipeBySlug, getRecipes } from '@/lib/api';
+import { getAllIngredients } from '@/lib/sections';
+import { getRecipeNutrition } from '@/lib/nutrition';
+import { DietaryCheck, analyzeRecipeAllergens } from '@/lib/allergens';
 import RecipeDetailPage from '@/components/RecipeDetailPage';
 
+// schema.org RestrictedDiet values for the diets checked from ingredients
+const SCHEMA_DIETS: Record<DietaryCheck, string> = {
+  vegetarian: 'https://schema.org/VegetarianDiet',
+  vegan: 'https://schema.org/VeganDiet',
+  'gluten-free': 'https://schema.org/GlutenFreeDiet',
+};
+
 interface RecipePageProps {
   params: Promise<{ slug: string }>;
 }
@@ -76,6 +86,11 @@ export default async function RecipePage({ params }: RecipePageProps) {
   // Filter out current recipe from related recipes
   const filteredRelatedRecipes = relatedRecipes.filter(r => r.id !== recipe.id);
 
+  const nutrition = getRecipeNutrition(recipe, recipe.baseServings)?.perServing;
+  const suitableForDiet = analyzeRecipeAllergens(recipe).suitability
+    .filter(item => item.status === 'suitable')
+    .map(item => SCHEMA_DIETS[item.check]);
+
   return (
     <>
       <RecipeDetailPage recipe={recipe} relatedRecipes={filteredRelatedRecipes} />
@@ -118,9 +133,9 @@ export default async function RecipePage({ params }: RecipePageProps) {
             "recipeCategory": recipe.cuisine,
             "recipeCuisine": recipe.cuisine,
             "keywords": recipe.tags.join(', '),
-            "suitableForDiet": recipe.tags.includes('vegetarian') ? "https://schema.org/VegetarianDiet" : undefined,
-            "recipeIngredient": recipe.ingredients.map(ing => 
-              `${ing.quantity} ${ing.unit} ${ing.name}${ing.note ? ` (${ing.note})` : ''}`
+            "suitableForDiet": suitableForDiet.length > 0 ? suitableForDiet : undefined,
+            "recipeIngredient": getAllIngredients(recipe).map(ing => 
+              `${ing.quantity ? `${ing.quantity} ${ing.unit} ` : ''}${ing.name}${ing.note ? ` (${ing.note})` : ''}`
             ),
             "recipeInstructions": recipe.steps.map((step, index) => ({
               "@type": "HowToStep",
@@ -129,36 +144,26 @@ export default async function RecipePage({ params }: RecipePageProps) {
               "name": `Step ${index + 1}`,
               "url": `#step-${index + 1}`
             })),
-            "nutrition": recipe.nutrition ? {
+            "nutrition": nutrition ? {
               "@type": "NutritionInformation",
-              "calories": recipe.nutrition.calories ? `${recipe.nutrition.calories} calories` : undefined,
-              "proteinContent": recipe.nutrition.protein ? `${recipe.nutrition.protein}g` : undefined,
-              "carbohydrateContent": recipe.nutrition.carbs ? `${recipe.nutrition.carbs}g` : undefined,
-              "fatContent": recipe.nutrition.fat ? `${recipe.nutrition.fat}g` : undefined,
+              "calories": `${Math.round(nutrition.calories)} calories`,
+              "proteinContent": `${Math.round(nutrition.protein)}g`,
+              "carbohydrateContent": `${Math.round(nutrition.carbs)}g`,
+              "sugarContent": `${Math.round(nutrition.sugars)}g`,
+              "fatContent": `${Math.round(nutrition.fat)}g`,
+              "saturatedFatContent": `${Math.round(nutrition.saturates)}g`,
+              "fiberContent": `${Math.round(nutrition.fibre)}g`,
+              "sodiumContent": `${Math.round(nutrition.salt * 400)}mg`,
               "servingSize": "1 serving"
             } : undefined,
-            "aggregateRating": {
+            // Approved reviews only; left out until there is one
+            "aggregateRating": recipe.rating ? {
               "@type": "AggregateRating",
-              "ratingValue": "4.5",
-              "reviewCount": "127",
+              "ratingValue": recipe.rating.average.toString(),
+              "ratingCount": recipe.rating.count.toString(),
               "bestRating": "5",
               "worstRating": "1"
-            },
-            "review": [
-              {
-                "@type": "Review",
-                "reviewRating": {
-                  "@type": "Rating",
-                  "ratingValue": "5",
-                  "bestRating": "5"
-                },
-                "author": {
-                  "@type": "Person",
-                  "name": "Sarah M."
-                },
-                "reviewBody": "Absolutely delicious! Easy to follow instructions and perfect results every time."
-              }
-            ],
+            } : undefined,
             "video": recipe.tags.includes('featured') ? {
               "@type": "VideoObject",
               "name": `How to make ${recipe.title}`,
@@ -4,7 +4,7 @@ import React, { useState, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { ArrowUpDown, Grid, List } from 'lucide-react';
 import { getRecipes } from '@/lib/api';
-import { Recipe, RecipeFilters as IRecipeFilters, RecipeSort } from '@/types/recipe';
+import { Allergen, Recipe, RecipeFilters as IRecipeFilters, RecipeSort } from '@/types/recipe';
 import RecipeCard from '@/components/RecipeCard';
 import RecipeFiltersComponent from '@/components/RecipeFilters';
 import { cn, debounce } from '@/lib/utils';
@@ -46,6 +46,17 @@ function RecipesPageContent() {
     
     const tags = searchParams.get('tags');
     if (tags) initialFilters.tags = tags.split(',');
+
+    if (searchParams.get('tagMatch') === 'all') initialFilters.tagMatch = 'all';
+
+    const excludeTags = searchParams.get('excludeTags');
+    if (excludeTags) initialFilters.excludeTags = excludeTags.split(',');
+
+    const freeFrom = searchParams.get('freeFrom');
+    if (freeFrom) initialFilters.excludeAllergens = freeFrom.split(',') as Allergen[];
+
+    const have = searchParams.get('have');
+    if (have) initialFilters.haveIngredients = have.split(',');
     
     const difficulty = searchParams.get('difficulty');
     if (difficulty) initialFilters.difficulty = difficulty.split(',') as ('Easy' | 'Medium' | 'Hard')[];
@@ -56,10 +67,15 @@ function RecipesPageContent() {
     return initialFilters;
   });
 
-  const [sort, setSort] = useState<RecipeSort>({
-    field: 'title',
+  // Searches and "ingredients I have" are ranked by relevance until another
+  // sort is picked
+  const isRanked = (rankedFilters: IRecipeFilters) =>
+    Boolean(rankedFilters.search || rankedFilters.haveIngredients?.length);
+
+  const [sort, setSort] = useState<RecipeSort>(() => ({
+    field: isRanked(filters) ? 'relevance' : 'title',
     direction: 'asc'
-  });
+  }));
 
   // Debounced search function
   const debouncedSearch = debounce(
@@ -94,6 +110,10 @@ function RecipesPageContent() {
     if (filters.search) params.set('search', filters.search);
     if (filters.cuisine?.length) params.set('cuisine', filters.cuisine.join(','));
     if (filters.tags?.length) params.set('tags', filters.tags.join(','));
+    if (filters.tags?.length && filters.tagMatch === 'all') params.set('tagMatch', 'all');
+    if (filters.excludeTags?.length) params.set('excludeTags', filters.excludeTags.join(','));
+    if (filters.excludeAllergens?.length) params.set('freeFrom', filters.excludeAllergens.join(','));
+    if (filters.haveIngredients?.length) params.set('have', filters.haveIngredients.join(','));
     if (filters.difficulty?.length) params.set('difficulty', filters.difficulty.join(','));
     if (filters.maxPrepTime) params.set('maxPrepTime', filters.maxPrepTime.toString());
     
@@ -102,6 +122,11 @@ function RecipesPageContent() {
   }, [filters]);
 
   const handleFiltersChange = (newFilters: IRecipeFilters) => {
+    if (!isRanked(newFilters) && sort.field === 'relevance') {
+      setSort({ field: 'title', direction: 'asc' });
+    } else if (isRanked(newFilters) && !isRanked(filters)) {
+      setSort({ field: 'relevance', direction: 'asc' });
+    }
     setFilters(newFilters);
     setCurrentPage(1); // Reset to first page when filters change
   };
@@ -109,15 +134,25 @@ function RecipesPageContent() {
   const handleSortChange = (field: RecipeSort['field']) => {
     setSort(prev => ({
       field,
-      direction: prev.field === field && prev.direction === 'asc' ? 'desc' : 'asc'
+      // Relevance is always best match first
+      direction: field !== 'relevance' && prev.field === field && prev.direction === 'asc' ? 'desc' : 'asc'
     }));
     setCurrentPage(1);
   };
 
   const totalPages = Math.ceil(totalRecipes / recipesPerPage);
 
+  const sortFields: RecipeSort['field'][] = [
+    ...(isRanked(filters) ? ['relevance' as const] : []),
+    'title',
+    'totalTimeMins',
+    'datePublished',
+    'difficulty'
+  ];
+
   const getSortLabel = (field: RecipeSort['field']) => {
     const labels = {
+      relevance: 'Best match',
       title: 'Name',
       totalTimeMins: 'Time',
       datePublished: 'Date',
@@ -164,7 +199,7 @@ function RecipesPageContent() {
                 <div className="flex items-center space-x-2">
                   <span className="text-sm text-gray-600">Sort by:</span>
                   <div className="flex space-x-1">
-                    {(['title', 'totalTimeMins', 'datePublished', 'difficulty'] as const).map((field) => (
+                    {sortFields.map((field) => (
                       <button
                         key={field}
                         onClick={() => handleSortChange(field)}
@@ -176,7 +211,7 @@ function RecipesPageContent() {
                         )}
                       >
                         <span>{getSortLabel(field)}</span>
-                        {sort.field === field && (
+                        {sort.field === field && field !== 'relevance' && (
                           <ArrowUpDown className="w-3 h-3" />
                         )}
                       </button>
@@ -0,0 +1,202 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { ShoppingBasket, Check, Plus, Minus, X, Download, Share2 } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { buildShoppingList, formatShoppingList, formatShoppingQuantities, groupShoppingList } from '@/lib/shopping-list';
+import { getMeasurementSystem } from '@/lib/units';
+import { cn, downloadTextFile } from '@/lib/utils';
+
+export default function ShoppingListPage() {
+  const {
+    unitSystem,
+    imperialVariant,
+    shoppingList,
+    checkedShoppingItems,
+    removeFromShoppingList,
+    updateShoppingListServings,
+    toggleShoppingItem,
+    clearShoppingList,
+  } = useApp();
+
+  const items = buildShoppingList(shoppingList, getMeasurementSystem(unitSystem, imperialVariant));
+  const groups = groupShoppingList(items);
+  const remaining = items.filter(item => !checkedShoppingItems.includes(item.key)).length;
+
+  const handleExport = () => {
+    downloadTextFile('shopping-list.txt', formatShoppingList(shoppingList, groups, checkedShoppingItems));
+  };
+
+  const handleShare = async () => {
+    const text = formatShoppingList(shoppingList, groups, checkedShoppingItems);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: 'Shopping List', text });
+      } catch (error) {
+        console.log('Error sharing:', error);
+      }
+    } else {
+      // Fallback: copy to clipboard
+      navigator.clipboard.writeText(text);
+      alert('Shopping list copied to clipboard!');
+    }
+  };
+
+  const handleClear = () => {
+    if (confirm('Remove every recipe from your shopping list?')) {
+      clearShoppingList();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-cream">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+        {/* Header */}
+        <div className="text-center mb-12">
+          <div className="w-16 h-16 bg-fresh-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <ShoppingBasket className="w-8 h-8 text-fresh-500" />
+          </div>
+          <h1 className="text-4xl md:text-5xl font-bold text-dark-slate mb-4">
+            Shopping List
+          </h1>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
+            {shoppingList.length === 0
+              ? 'Add recipes to build one list for your shop, grouped by aisle.'
+              : `${remaining} of ${items.length} item${items.length !== 1 ? 's' : ''} still to buy for ${shoppingList.length} recipe${shoppingList.length !== 1 ? 's' : ''}.`
+            }
+          </p>
+        </div>
+
+        {shoppingList.length === 0 ? (
+          /* Empty State */
+          <div className="text-center py-16">
+            <p className="text-gray-600 mb-8 max-w-md mx-auto">
+              Open a recipe, choose how many you&apos;re cooking for and click
+              &quot;Add to Shopping List&quot;. Ingredients shared between recipes are added up for you.
+            </p>
+            <Link
+              href="/recipes"
+              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+            >
+              Browse Recipes
+            </Link>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Recipes */}
+            <aside className="lg:col-span-1">
+              <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6 lg:sticky lg:top-24">
+                <h2 className="text-xl font-bold text-dark-slate mb-4">Recipes</h2>
+                <ul className="space-y-4 mb-6">
+                  {shoppingList.map((recipe) => (
+                    <li key={recipe.recipeId} className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <Link
+                          href={`/recipes/${recipe.slug}`}
+                          className="block font-medium text-dark-slate hover:text-primary-500 transition-colors truncate"
+                        >
+                          {recipe.title}
+                        </Link>
+                        <div className="flex items-center space-x-1 mt-1">
+                          <button
+                            onClick={() => updateShoppingListServings(recipe.recipeId, recipe.servings - 1)}
+                            className="p-1 rounded-lg border border-soft-grey hover:bg-soft-grey transition-colors"
+                            aria-label={`Decrease servings of ${recipe.title}`}
+                          >
+                            <Minus className="w-3 h-3" />
+                          </button>
+                          <span className="px-2 text-sm text-gray-600">
+                            {recipe.servings} serving{recipe.servings !== 1 ? 's' : ''}
+                          </span>
+                          <button
+                            onClick={() => updateShoppingListServings(recipe.recipeId, recipe.servings + 1)}
+                            className="p-1 rounded-lg border border-soft-grey hover:bg-soft-grey transition-colors"
+                            aria-label={`Increase servings of ${recipe.title}`}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </button>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => removeFromShoppingList(recipe.recipeId)}
+                        className="p-1 text-gray-400 hover:text-primary-500 transition-colors"
+                        aria-label={`Remove ${recipe.title} from shopping list`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="space-y-3">
+                  <button
+                    onClick={handleExport}
+                    className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-accent-400 text-white rounded-lg font-medium hover:bg-accent-500 transition-colors"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Export List</span>
+                  </button>
+                  <button
+                    onClick={handleShare}
+                    className="w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg border border-soft-grey bg-white text-gray-600 hover:bg-soft-grey transition-colors"
+                  >
+                    <Share2 className="w-4 h-4" />
+                    <span>Share List</span>
+                  </button>
+                  <button
+                    onClick={handleClear}
+                    className="w-full px-4 py-2 text-sm text-gray-500 hover:text-primary-500 transition-colors"
+                  >
+                    Clear shopping list
+                  </button>
+                </div>
+              </div>
+            </aside>
+
+            {/* Items by aisle */}
+            <main className="lg:col-span-2 space-y-6">
+              {groups.map((group) => (
+                <section key={group.category} className="bg-white rounded-xl shadow-sm border border-soft-grey p-6">
+                  <h2 className="text-lg font-semibold text-dark-slate mb-4">{group.label}</h2>
+                  <ul className="space-y-3">
+                    {group.items.map((item) => {
+                      const isChecked = checkedShoppingItems.includes(item.key);
+                      const quantities = formatShoppingQuantities(item);
+
+                      return (
+                        <li key={item.key} className="flex items-start space-x-3">
+                          <button
+                            onClick={() => toggleShoppingItem(item.key)}
+                            className={cn(
+                              'mt-1 w-5 h-5 rounded border-2 flex items-center justify-center transition-colors flex-shrink-0',
+                              isChecked
+                                ? 'bg-fresh-500 border-fresh-500 text-white'
+                                : 'border-gray-300 hover:border-fresh-500'
+                            )}
+                            aria-label={`Mark ${item.name} as ${isChecked ? 'not bought' : 'bought'}`}
+                          >
+                            {isChecked && <Check className="w-3 h-3" />}
+                          </button>
+                          <div className={cn('flex-1', isChecked && 'line-through text-gray-500')}>
+                            {quantities && <strong>{quantities} </strong>}
+                            {item.name}
+                            {item.recipes.length > 1 && (
+                              <div className="text-xs text-gray-500 no-underline">
+                                For {item.recipes.join(', ')}
+                              </div>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </section>
+              ))}
+            </main>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
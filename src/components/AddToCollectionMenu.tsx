@@ -0,0 +1,170 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, FolderPlus, Plus } from 'lucide-react';
+import { useApp } from '@/contexts/AppContext';
+import { cn } from '@/lib/utils';
+
+interface AddToCollectionMenuProps {
+  recipeId: string;
+  // 'icon' for the round button on recipe cards, 'button' for the detail page
+  variant?: 'icon' | 'button';
+  className?: string;
+}
+
+/**
+ * Button with a menu to add a recipe to collections, or start a new one
+ */
+export default function AddToCollectionMenu({ recipeId, variant = 'button', className }: AddToCollectionMenuProps) {
+  const router = useRouter();
+  const { collections, createCollection, addToCollection, removeFromCollection } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const inCollections = collections.filter(collection => collection.items.some(item => item.recipeId === recipeId));
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  // On recipe cards the menu sits inside the card's link, so clicks mustn't
+  // reach it (which also rules out a form, as its submit click is cancelled)
+  const stopLink = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const toggleCollection = (collectionId: string, isIn: boolean) => {
+    if (isIn) {
+      removeFromCollection(collectionId, recipeId);
+    } else {
+      addToCollection(collectionId, recipeId);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    createCollection(newName, recipeId);
+    setNewName('');
+  };
+
+  return (
+    <div ref={menuRef} className={cn('relative', className)} onClick={stopLink}>
+      {variant === 'icon' ? (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="p-2 bg-white/90 backdrop-blur-sm rounded-full shadow-sm hover:bg-white transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500"
+          aria-label="Add to collection"
+          aria-expanded={isOpen}
+        >
+          <FolderPlus className={cn('w-4 h-4', inCollections.length > 0 ? 'text-primary-500' : 'text-gray-600 hover:text-primary-500')} />
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className={cn(
+            'flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors',
+            inCollections.length > 0
+              ? 'bg-primary-50 text-primary-600 border-primary-200'
+              : 'bg-white text-gray-600 border-soft-grey hover:bg-primary-50'
+          )}
+          aria-expanded={isOpen}
+        >
+          <FolderPlus className="w-5 h-5" />
+          <span>
+            {inCollections.length === 1
+              ? `In ${inCollections[0].name}`
+              : inCollections.length > 1
+                ? `In ${inCollections.length} collections`
+                : 'Add to Collection'}
+          </span>
+        </button>
+      )}
+
+      {isOpen && (
+        <div
+          className={cn(
+            'absolute z-20 mt-2 w-64 bg-white rounded-lg shadow-lg border border-soft-grey py-2 text-left',
+            variant === 'icon' ? 'right-0' : 'left-0'
+          )}
+          role="menu"
+        >
+          <div className="px-3 pb-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
+            Save to collection
+          </div>
+
+          {collections.length === 0 && (
+            <p className="px-3 pb-2 text-sm text-gray-600">No collections yet. Start one below.</p>
+          )}
+
+          <div className="max-h-56 overflow-y-auto">
+            {collections.map(collection => {
+              const isIn = inCollections.includes(collection);
+              return (
+                <button
+                  key={collection.id}
+                  onClick={() => toggleCollection(collection.id, isIn)}
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-dark-slate hover:bg-cream transition-colors"
+                  role="menuitemcheckbox"
+                  aria-checked={isIn}
+                >
+                  <span className="truncate">{collection.name}</span>
+                  {isIn && <Check className="w-4 h-4 text-primary-500 flex-shrink-0" />}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-2 px-3 pt-2 mt-1 border-t border-soft-grey">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+              placeholder="New collection"
+              maxLength={80}
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-soft-grey rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+              aria-label="New collection name"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="p-1 rounded bg-primary-500 text-white hover:bg-primary-600 transition-colors disabled:opacity-50"
+              aria-label="Create collection"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+
+          {/* A button rather than a link, as cards are links already */}
+          <button
+            onClick={() => router.push('/collections')}
+            className="block px-3 pt-2 text-xs text-primary-500 hover:text-primary-600 font-medium"
+          >
+            Manage collections
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
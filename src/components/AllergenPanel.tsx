@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+import { Check, HelpCircle, X } from 'lucide-react';
+import { Recipe } from '@/types/recipe';
+import { DIETARY_CHECKS, Suitability, analyzeRecipeAllergens } from '@/lib/allergens';
+import { ALLERGENS } from '@/lib/taxonomy';
+import { cn } from '@/lib/utils';
+
+interface AllergenPanelProps {
+  recipe: Recipe;
+}
+
+const SUITABILITY_STYLES: Record<Suitability, string> = {
+  suitable: 'bg-fresh-100 text-fresh-800',
+  unsuitable: 'bg-primary-100 text-primary-800',
+  unknown: 'bg-soft-grey text-dark-slate',
+};
+
+const SUITABILITY_ICONS = {
+  suitable: Check,
+  unsuitable: X,
+  unknown: HelpCircle,
+};
+
+/**
+ * Allergens and dietary suitability worked out from the ingredients,
+ * components included
+ */
+export default function AllergenPanel({ recipe }: AllergenPanelProps) {
+  if (recipe.ingredients.length === 0) return null;
+
+  const { allergens, sources, suitability, unrecognised } = analyzeRecipeAllergens(recipe);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6 mt-6">
+      <h3 className="text-xl font-bold text-dark-slate mb-4">Allergens & Diet</h3>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {suitability.map(({ check, status, conflicts }) => {
+          const Icon = SUITABILITY_ICONS[status];
+          const label = DIETARY_CHECKS.find(item => item.value === check)?.label ?? check;
+          return (
+            <span
+              key={check}
+              title={conflicts.length > 0 ? `Contains ${conflicts.join(', ')}` : undefined}
+              className={cn('inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium', SUITABILITY_STYLES[status])}
+            >
+              <Icon className="w-4 h-4" />
+              {status === 'unsuitable' ? `Not ${label.toLowerCase()}` : label}
+              {status === 'unknown' && '?'}
+            </span>
+          );
+        })}
+      </div>
+
+      {allergens.length > 0 ? (
+        <div>
+          <p className="text-sm font-medium text-dark-slate mb-2">Contains</p>
+          <ul className="space-y-1 text-sm">
+            {ALLERGENS.filter(({ value }) => allergens.includes(value)).map(({ value, label }) => (
+              <li key={value}>
+                <span className="font-bold text-dark-slate">{label}</span>
+                <span className="text-gray-500"> ({sources[value]?.join(', ')})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-700">None of the 14 major allergens.</p>
+      )}
+
+      <p className="mt-4 text-xs text-gray-500">
+        Worked out from the ingredients, so check packaging if you have an allergy.
+        {unrecognised.length > 0 && ` Not checked: ${unrecognised.join(', ')}.`}
+      </p>
+    </div>
+  );
+}
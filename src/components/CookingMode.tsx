@@ -0,0 +1,426 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Timer, Mic, MicOff, Volume2, ClipboardList, StickyNote } from 'lucide-react';
+import { Recipe, RecipeNotes } from '@/types/recipe';
+import { getStepIngredients } from '@/lib/mise-en-place';
+import { formatScaledIngredient } from '@/lib/scaling';
+import { parseStepText } from '@/lib/step-text';
+import { MeasurementSystem } from '@/lib/units';
+import { cn } from '@/lib/utils';
+import MiseEnPlace from './MiseEnPlace';
+import StepText from './StepText';
+
+interface CookingModeProps {
+  recipe: Recipe;
+  servings: number;
+  system: MeasurementSystem;
+  notes?: RecipeNotes; // the cook's own notes, shown with their steps and ingredients
+  currentStep: number;
+  checkedIngredients: string[];
+  onToggleIngredient: (ingredientId: string) => void;
+  onStepChange: (step: number) => void;
+  onStartTimer: (stepNumber: number, minutes: number) => void;
+  onExit: () => void;
+}
+
+// The parts of the Web Speech API we use; TypeScript's DOM types don't
+// include speech recognition
+interface SpeechRecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionInstance {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
+
+type VoiceCommand = 'next' | 'back' | 'repeat' | 'timer';
+
+const VOICE_COMMANDS: { command: VoiceCommand; pattern: RegExp }[] = [
+  { command: 'next', pattern: /\b(next|forward|done)\b/ },
+  { command: 'back', pattern: /\b(back|previous)\b/ },
+  { command: 'repeat', pattern: /\b(repeat|again|read)\b/ },
+  { command: 'timer', pattern: /\btimer\b/ },
+];
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | undefined {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+function speak(text: string) {
+  if (!('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'en-GB';
+  window.speechSynthesis.speak(utterance);
+}
+
+/**
+ * Full-screen, one step at a time view for cooking, opening on the mise
+ * en place prep list. Keeps the screen awake and can be driven from the
+ * keyboard or by voice ("next", "back", "repeat", "start timer").
+ */
+export default function CookingMode({
+  recipe,
+  servings,
+  system,
+  notes,
+  currentStep,
+  checkedIngredients,
+  onToggleIngredient,
+  onStepChange,
+  onStartTimer,
+  onExit,
+}: CookingModeProps) {
+  const [showPrep, setShowPrep] = useState(currentStep === 0);
+  const [voiceEnabled, setVoiceEnabled] = useState(false);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [voiceSupported, setVoiceSupported] = useState(false);
+  const step = recipe.steps[currentStep];
+  const isLastStep = currentStep === recipe.steps.length - 1;
+  const stepIngredients = getStepIngredients(recipe, step);
+  const stepNote = notes?.stepNotes[step.id];
+
+  // The step's own duration, or failing that the first one in its text
+  const getStepMinutes = (): number | undefined => {
+    if (step.durationMins) return step.durationMins;
+    const duration = parseStepText(step.text).find(token => token.type === 'duration');
+    return duration?.type === 'duration' ? duration.maxMinutes ?? duration.minutes : undefined;
+  };
+
+  const goToStep = (index: number) => {
+    const next = Math.min(recipe.steps.length - 1, Math.max(0, index));
+    onStepChange(next);
+    return next;
+  };
+
+  const runCommand = (command: VoiceCommand | 'exit', spoken: boolean) => {
+    if (showPrep && command !== 'exit') {
+      if (command === 'next') setShowPrep(false);
+      if (spoken && command === 'next') speak(step.text);
+      return;
+    }
+
+    switch (command) {
+      case 'next': {
+        const next = goToStep(currentStep + 1);
+        if (spoken) speak(next === currentStep ? 'That was the last step.' : recipe.steps[next].text);
+        break;
+      }
+      case 'back': {
+        if (currentStep === 0) {
+          setShowPrep(true);
+          break;
+        }
+        const previous = goToStep(currentStep - 1);
+        if (spoken) speak(recipe.steps[previous].text);
+        break;
+      }
+      case 'repeat':
+        speak(step.text);
+        break;
+      case 'timer': {
+        const minutes = getStepMinutes();
+        if (minutes) {
+          onStartTimer(currentStep + 1, minutes);
+          if (spoken) speak(`Timer started for ${minutes} minute${minutes !== 1 ? 's' : ''}.`);
+        } else if (spoken) {
+          speak('This step has no time to set a timer for.');
+        }
+        break;
+      }
+      case 'exit':
+        onExit();
+        break;
+    }
+  };
+
+  // Latest handler for the long-lived keyboard and speech listeners
+  const runCommandRef = useRef(runCommand);
+  runCommandRef.current = runCommand;
+
+  // Keep the screen on while cooking. The lock is dropped when the tab is
+  // hidden, so take it again when the cook comes back.
+  useEffect(() => {
+    if (!('wakeLock' in navigator)) return;
+    let wakeLock: WakeLockSentinel | null = null;
+    let active = true;
+
+    const requestWakeLock = async () => {
+      try {
+        const sentinel = await navigator.wakeLock.request('screen');
+        if (active) {
+          wakeLock = sentinel;
+        } else {
+          sentinel.release();
+        }
+      } catch (error) {
+        console.error('Error keeping the screen awake:', error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') requestWakeLock();
+    };
+
+    requestWakeLock();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      active = false;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      wakeLock?.release();
+    };
+  }, []);
+
+  // Keyboard navigation
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable) return;
+
+      const commands: Record<string, VoiceCommand | 'exit'> = {
+        ArrowRight: 'next',
+        ' ': 'next',
+        n: 'next',
+        ArrowLeft: 'back',
+        b: 'back',
+        p: 'back',
+        r: 'repeat',
+        t: 'timer',
+        Escape: 'exit',
+      };
+      const command = commands[e.key];
+      if (!command) return;
+
+      e.preventDefault();
+      runCommandRef.current(command, false);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    setVoiceSupported(Boolean(getSpeechRecognition()));
+  }, []);
+
+  // Voice commands. Recognition stops by itself after a pause, so restart
+  // it until the cook turns voice control off.
+  useEffect(() => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!voiceEnabled || !SpeechRecognition) return;
+
+    let listening = true;
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    recognition.lang = 'en-GB';
+
+    recognition.onresult = (event) => {
+      const result = event.results[event.results.length - 1];
+      const transcript = result[0].transcript.toLowerCase();
+      const match = VOICE_COMMANDS.find(({ pattern }) => pattern.test(transcript));
+      if (match) runCommandRef.current(match.command, true);
+    };
+    recognition.onerror = (event) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        listening = false;
+        setVoiceEnabled(false);
+        setVoiceError('Microphone access was blocked, so voice control is off.');
+      }
+    };
+    recognition.onend = () => {
+      if (listening) recognition.start();
+    };
+
+    setVoiceError(null);
+    recognition.start();
+    return () => {
+      listening = false;
+      recognition.stop();
+    };
+  }, [voiceEnabled]);
+
+  const stepMinutes = getStepMinutes();
+
+  return (
+    <div className="min-h-screen bg-dark-slate text-white p-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Cooking Mode Header */}
+        <div className="flex justify-between items-center mb-8">
+          <button
+            onClick={onExit}
+            className="px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+          >
+            Exit Cooking Mode
+          </button>
+          <div className="text-center">
+            <h1 className="text-2xl font-bold">{recipe.title}</h1>
+            <p className="text-white/80">
+              {showPrep ? 'Mise en place' : `Step ${currentStep + 1} of ${recipe.steps.length}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setShowPrep(prev => !prev)}
+              className={cn(
+                'p-2 rounded-lg transition-colors',
+                showPrep ? 'bg-primary-500 hover:bg-primary-600' : 'bg-white/20 hover:bg-white/30'
+              )}
+              aria-pressed={showPrep}
+              aria-label={showPrep ? 'Back to the steps' : 'Show the prep list'}
+            >
+              <ClipboardList className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => speak(step.text)}
+              className="p-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+              aria-label="Read this step aloud"
+            >
+              <Volume2 className="w-5 h-5" />
+            </button>
+            {voiceSupported && (
+              <button
+                onClick={() => setVoiceEnabled(prev => !prev)}
+                className={cn(
+                  'p-2 rounded-lg transition-colors',
+                  voiceEnabled ? 'bg-primary-500 hover:bg-primary-600' : 'bg-white/20 hover:bg-white/30'
+                )}
+                aria-pressed={voiceEnabled}
+                aria-label={voiceEnabled ? 'Turn voice control off' : 'Turn voice control on'}
+              >
+                {voiceEnabled ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {showPrep ? (
+          <>
+            <MiseEnPlace
+              recipe={recipe}
+              servings={servings}
+              system={system}
+              notes={notes}
+              checkedIngredients={checkedIngredients}
+              onToggleIngredient={onToggleIngredient}
+            />
+            <div className="mt-8 text-right">
+              <button
+                onClick={() => setShowPrep(false)}
+                className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+              >
+                {currentStep === 0 ? 'Start Cooking' : `Back to Step ${currentStep + 1}`}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Current Step */}
+            <div className="bg-white/10 rounded-xl p-8 mb-8">
+              {step.section && (
+                <div className="text-sm font-semibold uppercase tracking-wide text-white/60 mb-2">{step.section}</div>
+              )}
+              <div className="text-4xl font-bold mb-4">Step {currentStep + 1}</div>
+              <p className="text-xl leading-relaxed mb-6">
+                <StepText
+                  text={step.text}
+                  system={system}
+                  onStartTimer={(minutes) => onStartTimer(currentStep + 1, minutes)}
+                />
+              </p>
+              {stepNote && (
+                <p className="flex items-start gap-2 mb-6 text-lg text-accent-300">
+                  <StickyNote className="w-5 h-5 mt-1 flex-shrink-0" />
+                  <span className="whitespace-pre-line">{stepNote}</span>
+                </p>
+              )}
+              {stepMinutes && (
+                <button
+                  onClick={() => onStartTimer(currentStep + 1, stepMinutes)}
+                  className="flex items-center space-x-2 text-accent-400 hover:text-accent-300 transition-colors"
+                >
+                  <Timer className="w-5 h-5" />
+                  <span>Start timer: {stepMinutes} minutes</span>
+                </button>
+              )}
+              {stepIngredients.length > 0 && (
+                <div className="mt-6 pt-6 border-t border-white/20">
+                  <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60 mb-2">You&apos;ll need</h2>
+                  <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-lg">
+                    {stepIngredients.map((ingredient) => {
+                      const { amount, unit } = formatScaledIngredient(ingredient, recipe.baseServings, servings, system);
+                      const ingredientNote = notes?.ingredientNotes[ingredient.id];
+                      return (
+                        <li key={ingredient.id}>
+                          {!!ingredient.quantity && <strong>{amount} {unit} </strong>}
+                          {ingredient.name}
+                          {ingredientNote && (
+                            <span className="block text-base text-accent-300">{ingredientNote}</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            {/* Navigation */}
+            <div className="flex justify-between items-center">
+              <button
+                onClick={() => (currentStep === 0 ? setShowPrep(true) : goToStep(currentStep - 1))}
+                className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary-600 transition-colors"
+              >
+                {currentStep === 0 ? 'Prep List' : 'Previous Step'}
+              </button>
+
+              <div className="flex space-x-2">
+                {recipe.steps.map((_, index) => (
+                  <button
+                    key={index}
+                    onClick={() => goToStep(index)}
+                    className={cn(
+                      'w-3 h-3 rounded-full transition-colors',
+                      index === currentStep ? 'bg-primary-500' : 'bg-white/30'
+                    )}
+                    aria-label={`Go to step ${index + 1}`}
+                  />
+                ))}
+              </div>
+
+              <button
+                onClick={() => goToStep(currentStep + 1)}
+                disabled={isLastStep}
+                className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary-600 transition-colors"
+              >
+                Next Step
+              </button>
+            </div>
+          </>
+        )}
+
+        {/* Hands-free help */}
+        <p className="mt-8 text-center text-sm text-white/60">
+          Keys: ← → to move between steps, R to read aloud, T to start the timer, Esc to exit.
+          {voiceSupported && ' Or turn on the microphone and say "next", "back", "repeat" or "start timer".'}
+        </p>
+        {voiceError && <p className="mt-2 text-center text-sm text-accent-400">{voiceError}</p>}
+      </div>
+    </div>
+  );
+}
@@ -2,24 +2,23 @@
 
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { Search, Menu, X, Heart, ToggleLeft, ToggleRight } from 'lucide-react';
+import { Menu, X, Heart, ShoppingBasket, ToggleLeft, ToggleRight, User } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
+import SearchAutocomplete from './SearchAutocomplete';
+import TimerBar from './TimerBar';
 
 export default function Header() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const { unitSystem, toggleUnitSystem, favorites } = useApp();
-
-  const handleSearchSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      window.location.href = `/recipes?search=${encodeURIComponent(searchQuery.trim())}`;
-    }
-  };
+  const { unitSystem, toggleUnitSystem, imperialVariant, setImperialVariant, favorites, shoppingList } = useApp();
+  const { isAvailable: accountsAvailable, user } = useAuth();
 
   // Global keydown handler for '/' to focus search
   const handleDocumentKeyDown = (e: KeyboardEvent) => {
-    if (e.key === '/') {
+    const target = e.target as HTMLElement | null;
+    const isTyping = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable;
+
+    if (e.key === '/' && !isTyping) {
       e.preventDefault();
       const searchInput = document.getElementById('search-input');
       searchInput?.focus();
@@ -48,20 +47,10 @@ export default function Header() {
 
           {/* Desktop Search */}
           <div className="hidden md:flex flex-1 max-w-lg mx-8">
-            <form onSubmit={handleSearchSubmit} className="w-full relative">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                <input
-                  id="search-input"
-                  type="text"
-                  placeholder="Search recipes... (Press / to focus)"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="w-full pl-10 pr-4 py-2 border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                  aria-label="Search recipes"
-                />
-              </div>
-            </form>
+            <SearchAutocomplete
+              inputId="search-input"
+              placeholder="Search recipes... (Press / to focus)"
+            />
           </div>
 
           {/* Desktop Navigation */}
@@ -72,6 +61,18 @@ export default function Header() {
             >
               Recipes
             </Link>
+            <Link
+              href="/planner"
+              className="text-dark-slate hover:text-primary-500 transition-colors font-medium"
+            >
+              Planner
+            </Link>
+            <Link
+              href="/collections"
+              className="text-dark-slate hover:text-primary-500 transition-colors font-medium"
+            >
+              Collections
+            </Link>
             <Link 
               href="/about" 
               className="text-dark-slate hover:text-primary-500 transition-colors font-medium"
@@ -100,6 +101,15 @@ export default function Header() {
                 {unitSystem === 'metric' ? 'Metric' : 'Imperial'}
               </span>
             </button>
+            {unitSystem === 'imperial' && (
+              <button
+                onClick={() => setImperialVariant(imperialVariant === 'uk' ? 'us' : 'uk')}
+                className="px-2 py-1 rounded-lg border border-soft-grey hover:bg-soft-grey transition-colors text-sm font-medium"
+                aria-label={`Using ${imperialVariant.toUpperCase()} cups and pints. Switch to ${imperialVariant === 'uk' ? 'US' : 'UK'}`}
+              >
+                {imperialVariant.toUpperCase()}
+              </button>
+            )}
 
             {/* Favorites */}
             <Link
@@ -114,6 +124,31 @@ export default function Header() {
                 </span>
               )}
             </Link>
+
+            {/* Shopping List */}
+            <Link
+              href="/shopping-list"
+              className="relative p-2 text-dark-slate hover:text-primary-500 transition-colors"
+              aria-label={`View shopping list (${shoppingList.length} recipes)`}
+            >
+              <ShoppingBasket className="w-5 h-5" />
+              {shoppingList.length > 0 && (
+                <span className="absolute -top-1 -right-1 bg-fresh-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                  {shoppingList.length}
+                </span>
+              )}
+            </Link>
+
+            {/* Account */}
+            {accountsAvailable && (
+              <Link
+                href="/account"
+                className="p-2 text-dark-slate hover:text-primary-500 transition-colors"
+                aria-label={user ? 'Your account' : 'Sign in'}
+              >
+                <User className="w-5 h-5" />
+              </Link>
+            )}
           </nav>
 
           {/* Mobile Menu Button */}
@@ -129,20 +164,16 @@ export default function Header() {
 
         {/* Mobile Search */}
         <div className="md:hidden pb-4">
-          <form onSubmit={handleSearchSubmit} className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-            <input
-              type="text"
-              placeholder="Search recipes..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              aria-label="Search recipes"
-            />
-          </form>
+          <SearchAutocomplete
+            inputId="mobile-search-input"
+            placeholder="Search recipes..."
+          />
         </div>
       </div>
 
+      {/* Cooking Timers */}
+      <TimerBar />
+
       {/* Mobile Menu */}
       {isMenuOpen && (
         <div className="md:hidden bg-white border-t border-soft-grey">
@@ -154,6 +185,20 @@ export default function Header() {
             >
               Recipes
             </Link>
+            <Link
+              href="/planner"
+              className="block text-dark-slate hover:text-primary-500 transition-colors font-medium"
+              onClick={() => setIsMenuOpen(false)}
+            >
+              Planner
+            </Link>
+            <Link
+              href="/collections"
+              className="block text-dark-slate hover:text-primary-500 transition-colors font-medium"
+              onClick={() => setIsMenuOpen(false)}
+            >
+              Collections
+            </Link>
             <Link 
               href="/about" 
               className="block text-dark-slate hover:text-primary-500 transition-colors font-medium"
@@ -185,6 +230,15 @@ export default function Header() {
                   {unitSystem === 'metric' ? 'Metric' : 'Imperial'}
                 </span>
               </button>
+              {unitSystem === 'imperial' && (
+                <button
+                  onClick={() => setImperialVariant(imperialVariant === 'uk' ? 'us' : 'uk')}
+                  className="px-3 py-2 rounded-lg border border-soft-grey hover:bg-soft-grey transition-colors text-sm font-medium"
+                  aria-label={`Using ${imperialVariant.toUpperCase()} cups and pints. Switch to ${imperialVariant === 'uk' ? 'US' : 'UK'}`}
+                >
+                  {imperialVariant.toUpperCase()}
+                </button>
+              )}
 
               {/* Favorites */}
               <Link
@@ -200,6 +254,33 @@ export default function Header() {
                   </span>
                 )}
               </Link>
+
+              {/* Shopping List */}
+              <Link
+                href="/shopping-list"
+                className="relative p-2 text-dark-slate hover:text-primary-500 transition-colors"
+                aria-label={`View shopping list (${shoppingList.length} recipes)`}
+                onClick={() => setIsMenuOpen(false)}
+              >
+                <ShoppingBasket className="w-5 h-5" />
+                {shoppingList.length > 0 && (
+                  <span className="absolute -top-1 -right-1 bg-fresh-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                    {shoppingList.length}
+                  </span>
+                )}
+              </Link>
+
+              {/* Account */}
+              {accountsAvailable && (
+                <Link
+                  href="/account"
+                  className="p-2 text-dark-slate hover:text-primary-500 transition-colors"
+                  aria-label={user ? 'Your account' : 'Sign in'}
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  <User className="w-5 h-5" />
+                </Link>
+              )}
             </div>
           </nav>
         </div>
@@ -0,0 +1,38 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[];
+  className?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Render text with the given terms wrapped in <mark>
+ */
+export default function HighlightedText({ text, terms, className }: HighlightedTextProps) {
+  if (!terms?.length) return <>{text}</>;
+
+  // Longest first so "pudding" wins over "pud"
+  const pattern = new RegExp(
+    `(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+  const lowerTerms = terms.map(term => term.toLowerCase());
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        lowerTerms.includes(part.toLowerCase()) ? (
+          <mark key={index} className={cn('bg-accent-100 text-inherit rounded-sm', className)}>
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
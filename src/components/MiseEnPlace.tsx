@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { Check, StickyNote, Utensils } from 'lucide-react';
+import { Ingredient, Recipe, RecipeNotes } from '@/types/recipe';
+import { buildMiseEnPlace } from '@/lib/mise-en-place';
+import { formatScaledIngredient } from '@/lib/scaling';
+import { MeasurementSystem } from '@/lib/units';
+import { cn } from '@/lib/utils';
+
+interface MiseEnPlaceProps {
+  recipe: Recipe;
+  servings: number;
+  system: MeasurementSystem;
+  notes?: RecipeNotes; // the cook's own notes, shown with their ingredients
+  checkedIngredients: string[];
+  onToggleIngredient: (ingredientId: string) => void;
+}
+
+/**
+ * Prep list for cooking mode: what to chop, then what to measure out for
+ * each step, scaled to the chosen servings
+ */
+export default function MiseEnPlace({ recipe, servings, system, notes, checkedIngredients, onToggleIngredient }: MiseEnPlaceProps) {
+  const { prep, groups } = buildMiseEnPlace(recipe);
+
+  const renderNote = (ingredient: Ingredient) => {
+    const note = notes?.ingredientNotes[ingredient.id];
+    if (!note) return null;
+    return (
+      <span className="flex items-start gap-1 text-sm text-accent-300">
+        <StickyNote className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        {note}
+      </span>
+    );
+  };
+
+  const renderAmount = (ingredient: Ingredient) => {
+    if (!ingredient.quantity) return null;
+    const { amount, unit } = formatScaledIngredient(ingredient, recipe.baseServings, servings, system);
+    return <strong>{amount} {unit} </strong>;
+  };
+
+  return (
+    <div className="space-y-8">
+      {prep.length > 0 && (
+        <section>
+          <h2 className="flex items-center space-x-2 text-xl font-bold mb-4">
+            <Utensils className="w-5 h-5 text-accent-400" />
+            <span>Chop &amp; prepare</span>
+          </h2>
+          <ul className="space-y-3">
+            {prep.map((ingredient) => {
+              const isChecked = checkedIngredients.includes(ingredient.id);
+              return (
+                <li key={ingredient.id}>
+                  <button
+                    onClick={() => onToggleIngredient(ingredient.id)}
+                    className="flex items-start space-x-3 text-left w-full"
+                    aria-pressed={isChecked}
+                  >
+                    <span
+                      className={cn(
+                        'mt-1 w-5 h-5 rounded border-2 flex items-center justify-center flex-shrink-0 transition-colors',
+                        isChecked ? 'bg-fresh-500 border-fresh-500' : 'border-white/50'
+                      )}
+                    >
+                      {isChecked && <Check className="w-3 h-3" />}
+                    </span>
+                    <span className={cn('text-lg', isChecked && 'line-through text-white/50')}>
+                      {renderAmount(ingredient)}{ingredient.name}: <em>{ingredient.note}</em>
+                      {renderNote(ingredient)}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-xl font-bold mb-4">Measure out</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {groups.map((group) => (
+            <div key={group.stepNumber ?? 'other'} className="bg-white/10 rounded-lg p-4">
+              <h3 className="font-semibold text-accent-400 mb-2">
+                {group.stepNumber
+                  ? `For step ${group.stepNumber}`
+                  : groups.length > 1 ? 'Also needed' : 'Ingredients'}
+              </h3>
+              <ul className="space-y-1">
+                {group.ingredients.map((ingredient) => (
+                  <li key={ingredient.id}>
+                    {renderAmount(ingredient)}{ingredient.name}
+                    {renderNote(ingredient)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
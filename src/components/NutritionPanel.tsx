@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { Recipe } from '@/types/recipe';
+import {
+  KJ_PER_KCAL,
+  TrafficLight,
+  TrafficLightNutrient,
+  getRecipeNutrition,
+  getReferenceIntakePercent,
+  getTrafficLight,
+} from '@/lib/nutrition';
+import { cn } from '@/lib/utils';
+
+interface NutritionPanelProps {
+  recipe: Recipe;
+  servings: number;
+}
+
+const LABELLED_NUTRIENTS: { key: TrafficLightNutrient; label: string }[] = [
+  { key: 'fat', label: 'Fat' },
+  { key: 'saturates', label: 'Saturates' },
+  { key: 'sugars', label: 'Sugars' },
+  { key: 'salt', label: 'Salt' },
+];
+
+const LIGHT_STYLES: Record<TrafficLight, string> = {
+  low: 'bg-green-500 text-white',
+  medium: 'bg-amber-400 text-dark-slate',
+  high: 'bg-red-500 text-white',
+};
+
+const LIGHT_LABELS: Record<TrafficLight, string> = {
+  low: 'Low',
+  medium: 'Med',
+  high: 'High',
+};
+
+// Label rounding: whole grams from 10 g, one decimal below, two for small amounts of salt
+function formatGrams(value: number, nutrient?: string): string {
+  if (value >= 10) return `${Math.round(value)}g`;
+  if (nutrient === 'salt' && value < 1) return `${value.toFixed(2)}g`;
+  return `${value.toFixed(1)}g`;
+}
+
+/**
+ * Nutrition per serving with a UK-style traffic light label, worked out
+ * from the ingredients at the chosen servings
+ */
+export default function NutritionPanel({ recipe, servings }: NutritionPanelProps) {
+  const nutrition = getRecipeNutrition(recipe, servings);
+  if (!nutrition) return null;
+
+  const { perServing, per100g, servingWeight, missing, overridden } = nutrition;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6 mt-6" itemProp="nutrition" itemScope itemType="https://schema.org/NutritionInformation">
+      <div className="flex justify-between items-baseline mb-4">
+        <h3 className="text-xl font-bold text-dark-slate">Nutrition Information</h3>
+        <span className="text-sm text-gray-500">
+          Per serving{servingWeight ? ` (${Math.round(servingWeight)}g)` : ''}
+        </span>
+      </div>
+
+      {/* Front-of-pack label */}
+      <div className="grid grid-cols-5 gap-2 mb-4">
+        <div className="rounded-lg border border-soft-grey bg-cream p-2 text-center">
+          <div className="text-xs font-medium text-gray-600">Energy</div>
+          <div className="text-sm font-bold" itemProp="calories">{Math.round(perServing.calories)}kcal</div>
+          <div className="text-xs text-gray-500">{Math.round(perServing.calories * KJ_PER_KCAL)}kJ</div>
+          <div className="mt-1 text-xs font-medium">{getReferenceIntakePercent('calories', perServing.calories)}%</div>
+        </div>
+        {LABELLED_NUTRIENTS.map(({ key, label }) => {
+          const light = getTrafficLight(key, nutrition);
+          return (
+            <div key={key} className={cn('rounded-lg p-2 text-center', LIGHT_STYLES[light])}>
+              <div className="text-xs font-medium">{label}</div>
+              <div className="text-sm font-bold">{formatGrams(perServing[key], key)}</div>
+              <div className="text-xs uppercase">{LIGHT_LABELS[light]}</div>
+              <div className="mt-1 text-xs font-medium">{getReferenceIntakePercent(key, perServing[key])}%</div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        % of an adult&apos;s reference intake.
+        {per100g && ` Typical values per 100g: energy ${Math.round(per100g.calories * KJ_PER_KCAL)}kJ / ${Math.round(per100g.calories)}kcal.`}
+      </p>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="text-center p-3 bg-cream rounded-lg">
+          <div className="text-2xl font-bold text-fresh-500" itemProp="proteinContent">{formatGrams(perServing.protein)}</div>
+          <div className="text-sm text-gray-600">Protein</div>
+        </div>
+        <div className="text-center p-3 bg-cream rounded-lg">
+          <div className="text-2xl font-bold text-accent-500" itemProp="carbohydrateContent">{formatGrams(perServing.carbs)}</div>
+          <div className="text-sm text-gray-600">Carbs</div>
+        </div>
+        <div className="text-center p-3 bg-cream rounded-lg">
+          <div className="text-2xl font-bold text-gray-500" itemProp="fiberContent">{formatGrams(perServing.fibre)}</div>
+          <div className="text-sm text-gray-600">Fibre</div>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs text-gray-500">
+        For all {servings} servings: {Math.round(perServing.calories * servings)}kcal.
+        {overridden.length > 0
+          ? ' Some values are set by the recipe author, the rest are calculated from the raw ingredients.'
+          : ' Calculated from the raw ingredients, so treat it as a guide.'}
+        {missing.length > 0 && ` Not included: ${missing.join(', ')}.`}
+      </p>
+    </div>
+  );
+}
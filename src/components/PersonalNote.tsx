@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import { Pencil, StickyNote } from 'lucide-react';
+import { MAX_NOTE_LENGTH } from '@/lib/recipe-notes';
+import { cn } from '@/lib/utils';
+
+interface PersonalNoteProps {
+  note?: string;
+  editing: boolean;
+  label: string; // what the note is on, e.g. "step 3"
+  onEdit: () => void;
+  onSave: (note: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+/**
+ * The user's own note on a step or ingredient, shown inline, with an editor
+ * that saves when it loses focus. Blank notes are removed.
+ */
+export default function PersonalNote({ note, editing, label, onEdit, onSave, onClose, className }: PersonalNoteProps) {
+  if (editing) {
+    return (
+      <textarea
+        defaultValue={note ?? ''}
+        autoFocus
+        onBlur={(e) => {
+          if (e.target.value.trim() !== (note ?? '')) onSave(e.target.value);
+          onClose();
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.currentTarget.value = note ?? '';
+            e.currentTarget.blur();
+          } else if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            e.currentTarget.blur();
+          }
+        }}
+        maxLength={MAX_NOTE_LENGTH}
+        rows={2}
+        placeholder="e.g. used half the chilli"
+        className={cn(
+          'block w-full px-3 py-2 text-sm border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-accent-400 focus:border-transparent print:hidden',
+          className
+        )}
+        aria-label={`Your note on ${label}`}
+      />
+    );
+  }
+
+  if (!note) return null;
+
+  return (
+    <span className={cn('flex items-start gap-2 rounded-lg bg-accent-50 px-3 py-2 text-sm text-dark-slate', className)}>
+      <StickyNote className="w-4 h-4 mt-0.5 text-accent-500 flex-shrink-0" />
+      <span className="flex-1 whitespace-pre-line">{note}</span>
+      <button
+        onClick={onEdit}
+        className="p-0.5 text-gray-400 hover:text-primary-500 transition-colors print:hidden"
+        aria-label={`Edit your note on ${label}`}
+      >
+        <Pencil className="w-3 h-3" />
+      </button>
+    </span>
+  );
+}
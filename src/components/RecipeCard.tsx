@@ -3,10 +3,21 @@
 import React from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { Clock, Users, Heart, Star } from 'lucide-react';
-import { Recipe } from '@/types/recipe';
+import { Clock, Users, Heart, Star, Refrigerator } from 'lucide-react';
+import { Recipe, SearchField } from '@/types/recipe';
 import { useApp } from '@/contexts/AppContext';
 import { formatCookingTime, getDifficultyColor, getTagColor, cn } from '@/lib/utils';
+import { excerpt } from '@/lib/search';
+import HighlightedText from './HighlightedText';
+import AddToCollectionMenu from './AddToCollectionMenu';
+
+const MATCH_FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  tags: 'Tagged',
+  ingredients: 'Ingredient',
+  description: 'Description',
+  steps: 'Method',
+};
 
 interface RecipeCardProps {
   recipe: Recipe;
@@ -28,6 +39,14 @@ export default function RecipeCard({ recipe, className }: RecipeCardProps) {
     }
   };
 
+  // Search results say where they matched; title and description are
+  // highlighted in place, the first other match gets its own line
+  const titleMatch = recipe.searchMatches?.find(match => match.field === 'title');
+  const descriptionMatch = recipe.searchMatches?.find(match => match.field === 'description');
+  const otherMatch = recipe.searchMatches?.find(
+    match => match.field !== 'title' && match.field !== 'description'
+  );
+
   const getDifficultyStars = (difficulty: string) => {
     const stars = difficulty === 'Easy' ? 1 : difficulty === 'Medium' ? 2 : 3;
     return Array.from({ length: 3 }, (_, i) => (
@@ -58,21 +77,24 @@ export default function RecipeCard({ recipe, className }: RecipeCardProps) {
             itemProp="image"
           />
           
-          {/* Favorite Button */}
-          <button
-            onClick={handleFavoriteClick}
-            className="absolute top-3 right-3 p-2 bg-white/90 backdrop-blur-sm rounded-full shadow-sm hover:bg-white transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500"
-            aria-label={isRecipeFavorite ? 'Remove from favorites' : 'Add to favorites'}
-          >
-            <Heart
-              className={cn(
-                'w-4 h-4 transition-colors',
-                isRecipeFavorite 
-                  ? 'text-primary-500 fill-current' 
-                  : 'text-gray-600 hover:text-primary-500'
-              )}
-            />
-          </button>
+          {/* Favorite and Collection Buttons */}
+          <div className="absolute top-3 right-3 flex items-start gap-2">
+            <AddToCollectionMenu recipeId={recipe.id} variant="icon" />
+            <button
+              onClick={handleFavoriteClick}
+              className="p-2 bg-white/90 backdrop-blur-sm rounded-full shadow-sm hover:bg-white transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500"
+              aria-label={isRecipeFavorite ? 'Remove from favorites' : 'Add to favorites'}
+            >
+              <Heart
+                className={cn(
+                  'w-4 h-4 transition-colors',
+                  isRecipeFavorite 
+                    ? 'text-primary-500 fill-current' 
+                    : 'text-gray-600 hover:text-primary-500'
+                )}
+              />
+            </button>
+          </div>
 
           {/* Difficulty Badge */}
           <div className="absolute top-3 left-3">
@@ -89,14 +111,39 @@ export default function RecipeCard({ recipe, className }: RecipeCardProps) {
         <div className="p-4">
           {/* Title */}
           <h3 className="font-semibold text-lg text-dark-slate mb-2 line-clamp-2 group-hover:text-primary-500 transition-colors" itemProp="name">
-            {recipe.title}
+            <HighlightedText text={recipe.title} terms={titleMatch?.terms} />
           </h3>
 
           {/* Description */}
           <p className="text-gray-600 text-sm mb-3 line-clamp-2" itemProp="description">
-            {recipe.description}
+            <HighlightedText text={recipe.description} terms={descriptionMatch?.terms} />
           </p>
 
+          {otherMatch && (
+            <p className="text-xs text-gray-500 mb-3 line-clamp-1">
+              <span className="font-medium text-dark-slate">{MATCH_FIELD_LABELS[otherMatch.field]}:</span>{' '}
+              <HighlightedText text={excerpt(otherMatch.snippet, otherMatch.terms)} terms={otherMatch.terms} />
+            </p>
+          )}
+
+          {/* What can I cook: ingredients on hand vs missing */}
+          {recipe.pantryMatch && (
+            <div className="mb-3 text-xs">
+              <div className="flex items-center space-x-1 font-medium text-fresh-800">
+                <Refrigerator className="w-3 h-3" />
+                <span>
+                  You have {recipe.pantryMatch.matched.length} of{' '}
+                  {recipe.pantryMatch.matched.length + recipe.pantryMatch.missing.length} ingredients
+                </span>
+              </div>
+              {recipe.pantryMatch.missing.length > 0 && (
+                <p className="mt-1 text-gray-500 line-clamp-2">
+                  Missing: {recipe.pantryMatch.missing.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Meta Info */}
           <div className="flex items-center justify-between mb-3 text-sm text-gray-500">
             <div className="flex items-center space-x-4">
@@ -108,6 +155,23 @@ export default function RecipeCard({ recipe, className }: RecipeCardProps) {
                 <Users className="w-4 h-4" />
                 <span itemProp="recipeYield">{recipe.baseServings}</span>
               </div>
+              {recipe.rating && (
+                <div
+                  className="flex items-center space-x-1"
+                  itemProp="aggregateRating"
+                  itemScope
+                  itemType="https://schema.org/AggregateRating"
+                  aria-label={`Rated ${recipe.rating.average.toFixed(1)} out of 5 from ${recipe.rating.count} review${recipe.rating.count !== 1 ? 's' : ''}`}
+                >
+                  <Star className="w-4 h-4 text-accent-400 fill-current" />
+                  <span itemProp="ratingValue" content={recipe.rating.average.toString()}>
+                    {recipe.rating.average.toFixed(1)}
+                  </span>
+                  <span>
+                    (<span itemProp="ratingCount">{recipe.rating.count}</span>)
+                  </span>
+                </div>
+              )}
             </div>
             
             {/* Difficulty Stars */}
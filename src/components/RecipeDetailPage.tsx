@@ -1,27 +1,86 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import Image from 'next/image';
-import { Clock, Users, Heart, Printer, Share2, ChefHat, Timer, Check, Plus, Minus } from 'lucide-react';
-import { Recipe } from '@/types/recipe';
+import { Clock, Users, Heart, Printer, Share2, ChefHat, Timer, Check, Plus, Minus, ShoppingBasket, ArrowLeftRight, Undo2, Star, StickyNote } from 'lucide-react';
+import Link from 'next/link';
+import { Ingredient, Recipe, UnitSystem } from '@/types/recipe';
 import { useApp } from '@/contexts/AppContext';
-import { formatCookingTime, getDifficultyColor, convertUnits, scaleIngredientQuantity, cn } from '@/lib/utils';
+import { useTimers } from '@/contexts/TimerContext';
+import { toShoppingListRecipe } from '@/lib/shopping-list';
+import { formatCookingTime, getDifficultyColor, downloadTextFile, cn } from '@/lib/utils';
+import { getStepIngredients } from '@/lib/mise-en-place';
+import { formatScaledIngredient } from '@/lib/scaling';
+import { getAllIngredients, getComponentIngredients, groupBySection } from '@/lib/sections';
+import { IngredientSwaps, applySwaps, getSubstitutionOptions } from '@/lib/substitutions';
+import { ALLERGENS } from '@/lib/taxonomy';
+import { getMeasurementSystem } from '@/lib/units';
+import { MAX_NOTE_LENGTH } from '@/lib/recipe-notes';
+import AddToCollectionMenu from './AddToCollectionMenu';
+import AllergenPanel from './AllergenPanel';
 import RecipeCard from './RecipeCard';
+import RecipeReviews from './RecipeReviews';
+import CookingMode from './CookingMode';
+import NutritionPanel from './NutritionPanel';
+import PersonalNote from './PersonalNote';
+import StepText from './StepText';
 
 interface RecipeDetailPageProps {
   recipe: Recipe;
   relatedRecipes: Recipe[];
 }
 
-export default function RecipeDetailPage({ recipe, relatedRecipes }: RecipeDetailPageProps) {
-  const { unitSystem, isFavorite, addToFavorites, removeFromFavorites } = useApp();
-  const [servings, setServings] = useState(recipe.baseServings);
-  const [checkedIngredients, setCheckedIngredients] = useState<Set<string>>(new Set());
-  const [checkedSteps, setCheckedSteps] = useState<Set<string>>(new Set());
+export default function RecipeDetailPage({ recipe: originalRecipe, relatedRecipes }: RecipeDetailPageProps) {
+  const {
+    unitSystem,
+    imperialVariant,
+    isFavorite,
+    addToFavorites,
+    removeFromFavorites,
+    shoppingList,
+    addToShoppingList,
+    cookingProgress,
+    updateCookingProgress,
+    clearCookingProgress,
+    recipeNotes,
+    setRecipeNote,
+    setStepNote,
+    setIngredientNote,
+    setRecipeDefaults,
+    recipeNotesSyncStatus,
+  } = useApp();
+  const { startTimer } = useTimers();
+  const [servings, setServings] = useState(originalRecipe.baseServings);
   const [cookingMode, setCookingMode] = useState(false);
-  const [currentStep, setCurrentStep] = useState(0);
+  // Swapped ingredients last for this visit only; everything below works
+  // from the recipe with the swaps made
+  const [swaps, setSwaps] = useState<IngredientSwaps>({});
+  const [swapMenuId, setSwapMenuId] = useState<string | null>(null);
+  const recipe = useMemo(() => applySwaps(originalRecipe, swaps), [originalRecipe, swaps]);
+
+  // The cook's own notes, and which one is open for editing
+  // ('recipe', 'step:<id>' or 'ingredient:<id>')
+  const notes = recipeNotes[originalRecipe.id];
+  const [noteEditor, setNoteEditor] = useState<string | null>(null);
+  const toggleNoteEditor = (key: string) => setNoteEditor(noteEditor === key ? null : key);
+
+  // Open at the servings saved for this recipe, once they have loaded
+  const savedServings = notes?.servings;
+  useEffect(() => {
+    if (savedServings) setServings(savedServings);
+  }, [savedServings]);
+
+  // Progress is saved per recipe, so cooking can carry on after a refresh
+  // A recipe without steps has nothing to cook through or resume
+  const hasSteps = recipe.steps.length > 0;
+  const progress = cookingProgress[recipe.id];
+  const currentStep = Math.max(0, Math.min(progress?.currentStep ?? 0, recipe.steps.length - 1));
+  const checkedSteps = progress?.checkedSteps ?? [];
+  const checkedIngredients = progress?.checkedIngredients ?? [];
+  const hasProgress = hasSteps && Boolean(progress && (progress.currentStep > 0 || checkedSteps.length > 0 || checkedIngredients.length > 0));
 
   const isRecipeFavorite = isFavorite(recipe.id);
+  const shoppingListEntry = shoppingList.find(item => item.recipeId === recipe.id);
 
   const handleFavoriteClick = () => {
     if (isRecipeFavorite) {
@@ -54,26 +113,50 @@ export default function RecipeDetailPage({ recipe, relatedRecipes }: RecipeDetai
   };
 
   const toggleIngredientCheck = (ingredientId: string) => {
-    setCheckedIngredients(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(ingredientId)) {
-        newSet.delete(ingredientId);
-      } else {
-        newSet.add(ingredientId);
-      }
-      return newSet;
+    updateCookingProgress(recipe.id, {
+      checkedIngredients: checkedIngredients.includes(ingredientId)
+        ? checkedIngredients.filter(id => id !== ingredientId)
+        : [...checkedIngredients, ingredientId],
     });
   };
 
   const toggleStepCheck = (stepId: string) => {
-    setCheckedSteps(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(stepId)) {
-        newSet.delete(stepId);
-      } else {
-        newSet.add(stepId);
-      }
-      return newSet;
+    updateCookingProgress(recipe.id, {
+      checkedSteps: checkedSteps.includes(stepId)
+        ? checkedSteps.filter(id => id !== stepId)
+        : [...checkedSteps, stepId],
+    });
+  };
+
+  // Moving on from a step in cooking mode ticks it off
+  const changeStep = (step: number) => {
+    const finishedStep = recipe.steps[currentStep];
+    updateCookingProgress(recipe.id, {
+      currentStep: step,
+      checkedSteps: step > currentStep && !checkedSteps.includes(finishedStep.id)
+        ? [...checkedSteps, finishedStep.id]
+        : checkedSteps,
+    });
+  };
+
+  const startStepTimer = (stepNumber: number, minutes: number) => {
+    startTimer(`Step ${stepNumber}`, minutes, { slug: recipe.slug, title: recipe.title });
+  };
+
+  const startComponentTimer = (componentTitle: string, stepNumber: number, minutes: number) => {
+    startTimer(`${componentTitle} step ${stepNumber}`, minutes, { slug: recipe.slug, title: recipe.title });
+  };
+
+  const swapIngredient = (ingredientId: string, substitutionId: string) => {
+    setSwaps(prev => ({ ...prev, [ingredientId]: substitutionId }));
+    setSwapMenuId(null);
+  };
+
+  const undoSwap = (ingredientId: string) => {
+    setSwaps(prev => {
+      const next = { ...prev };
+      delete next[ingredientId];
+      return next;
     });
   };
 
@@ -82,90 +165,150 @@ export default function RecipeDetailPage({ recipe, relatedRecipes }: RecipeDetai
     setServings(newServings);
   };
 
+  // Units saved for this recipe win over the site-wide setting
+  const recipeUnitSystem = notes?.unitSystem ?? unitSystem;
+  const measurementSystem = getMeasurementSystem(recipeUnitSystem, imperialVariant);
+  const hasSavedDefaults = Boolean(notes?.servings || notes?.unitSystem);
+
+  const saveDefaults = () => {
+    setRecipeDefaults(recipe.id, { servings, unitSystem: recipeUnitSystem });
+  };
+
+  const changeRecipeUnits = (system: UnitSystem) => {
+    setRecipeDefaults(recipe.id, { servings: notes?.servings, unitSystem: system });
+  };
+
   const exportGroceryList = () => {
-    const groceryList = recipe.ingredients.map(ingredient => {
-      const scaledQuantity = scaleIngredientQuantity(ingredient.quantity, recipe.baseServings, servings);
-      const converted = convertUnits(scaledQuantity, ingredient.unit, unitSystem);
-      return `${converted.value} ${converted.unit} ${ingredient.name}${ingredient.note ? ` (${ingredient.note})` : ''}`;
+    const groceryList = getAllIngredients(recipe).map(ingredient => {
+      const { amount, unit } = formatScaledIngredient(ingredient, recipe.baseServings, servings, measurementSystem);
+      const line = ingredient.quantity ? `${amount} ${unit} ${ingredient.name}` : ingredient.name;
+      return `${line}${ingredient.note ? ` (${ingredient.note})` : ''}`;
     }).join('\n');
 
-    const blob = new Blob([`Grocery List for ${recipe.title}\n\n${groceryList}`], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${recipe.slug}-grocery-list.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadTextFile(`${recipe.slug}-grocery-list.txt`, `Grocery List for ${recipe.title}\n\n${groceryList}`);
   };
 
-  if (cookingMode) {
-    return (
-      <div className="min-h-screen bg-dark-slate text-white p-6">
-        <div className="max-w-4xl mx-auto">
-          {/* Cooking Mode Header */}
-          <div className="flex justify-between items-center mb-8">
-            <button
-              onClick={() => setCookingMode(false)}
-              className="px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
-            >
-              Exit Cooking Mode
-            </button>
-            <div className="text-center">
-              <h1 className="text-2xl font-bold">{recipe.title}</h1>
-              <p className="text-white/80">Step {currentStep + 1} of {recipe.steps.length}</p>
-            </div>
-            <div className="w-24"></div>
-          </div>
+  // Component lines come restated at the recipe's base servings (see
+  // getComponentIngredients), so every line scales the same way
+  const renderIngredient = (ingredient: Ingredient) => {
+    const scaled = formatScaledIngredient(ingredient, recipe.baseServings, servings, measurementSystem);
+    const isChecked = checkedIngredients.includes(ingredient.id);
+    const swapOptions = getSubstitutionOptions(ingredient);
+    const swappedFor = ingredient.substitutes;
+    // Swapped-in lines are only for this visit, so notes stay on the originals
+    const noteKey = `ingredient:${ingredient.id}`;
+    const ingredientNote = swappedFor ? undefined : notes?.ingredientNotes[ingredient.id];
 
-          {/* Current Step */}
-          <div className="bg-white/10 rounded-xl p-8 mb-8">
-            <div className="text-4xl font-bold mb-4">Step {currentStep + 1}</div>
-            <p className="text-xl leading-relaxed mb-6">
-              {recipe.steps[currentStep].text}
-            </p>
-            {recipe.steps[currentStep].durationMins && (
-              <div className="flex items-center space-x-2 text-accent-400">
-                <Timer className="w-5 h-5" />
-                <span>Timer: {recipe.steps[currentStep].durationMins} minutes</span>
-              </div>
-            )}
-          </div>
-
-          {/* Navigation */}
-          <div className="flex justify-between items-center">
-            <button
-              onClick={() => setCurrentStep(prev => Math.max(0, prev - 1))}
-              disabled={currentStep === 0}
-              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary-600 transition-colors"
-            >
-              Previous Step
-            </button>
-            
-            <div className="flex space-x-2">
-              {recipe.steps.map((_, index) => (
+    return (
+      <li key={ingredient.id} className="flex items-start space-x-3" itemProp="recipeIngredient">
+        <button
+          onClick={() => toggleIngredientCheck(ingredient.id)}
+          className={cn(
+            'mt-1 w-5 h-5 rounded border-2 flex items-center justify-center transition-colors',
+            isChecked
+              ? 'bg-fresh-500 border-fresh-500 text-white'
+              : 'border-gray-300 hover:border-fresh-500'
+          )}
+          aria-label={`Mark ${ingredient.name} as ${isChecked ? 'unchecked' : 'checked'}`}
+        >
+          {isChecked && <Check className="w-3 h-3" />}
+        </button>
+        <span className={cn('flex-1', isChecked && 'line-through text-gray-500')}>
+          {!!ingredient.quantity && <strong>{scaled.amount} {scaled.unit} </strong>}
+          {ingredient.name}
+          {ingredient.note && <em className="text-gray-600"> ({ingredient.note})</em>}
+          {scaled.hint && <span className="block text-xs text-gray-500">{scaled.hint}</span>}
+          {ingredient.scalable === false && servings !== recipe.baseServings && (
+            <span className="block text-xs text-gray-500">To taste, not scaled</span>
+          )}
+          {swappedFor && (
+            <span className="flex items-center gap-2 text-xs text-accent-600">
+              Instead of {swappedFor.name}
+              <button
+                onClick={() => undoSwap(swappedFor.id)}
+                className="inline-flex items-center gap-1 text-gray-500 hover:text-primary-500 print:hidden"
+                aria-label={`Undo swap for ${swappedFor.name}`}
+              >
+                <Undo2 className="w-3 h-3" />
+                Undo
+              </button>
+            </span>
+          )}
+          {swapMenuId === ingredient.id && (
+            <span className="mt-2 block space-y-2 rounded-lg border border-soft-grey bg-cream p-2 print:hidden">
+              {swapOptions.map(option => (
                 <button
-                  key={index}
-                  onClick={() => setCurrentStep(index)}
-                  className={cn(
-                    'w-3 h-3 rounded-full transition-colors',
-                    index === currentStep ? 'bg-primary-500' : 'bg-white/30'
+                  key={option.substitution.id}
+                  onClick={() => swapIngredient(ingredient.id, option.substitution.id)}
+                  className="block w-full rounded-md px-2 py-1 text-left text-sm hover:bg-white transition-colors"
+                >
+                  <span className="font-medium text-dark-slate">{option.label}</span>
+                  {option.diet && <span className="ml-2 text-xs text-fresh-800 capitalize">{option.diet}</span>}
+                  {option.removes.map(allergen => (
+                    <span key={allergen} className="ml-2 text-xs text-fresh-800">
+                      No {ALLERGENS.find(item => item.value === allergen)?.label.toLowerCase() ?? allergen}
+                    </span>
+                  ))}
+                  {option.substitution.note && (
+                    <span className="block text-xs text-gray-500">{option.substitution.note}</span>
                   )}
-                />
+                </button>
               ))}
-            </div>
-            
-            <button
-              onClick={() => setCurrentStep(prev => Math.min(recipe.steps.length - 1, prev + 1))}
-              disabled={currentStep === recipe.steps.length - 1}
-              className="px-6 py-3 bg-primary-500 text-white rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary-600 transition-colors"
-            >
-              Next Step
-            </button>
-          </div>
-        </div>
-      </div>
+            </span>
+          )}
+          <PersonalNote
+            note={ingredientNote}
+            editing={noteEditor === noteKey}
+            label={ingredient.name}
+            onEdit={() => setNoteEditor(noteKey)}
+            onSave={(note) => setIngredientNote(recipe.id, ingredient.id, note)}
+            onClose={() => setNoteEditor(null)}
+            className="mt-2"
+          />
+        </span>
+        {!swappedFor && !ingredientNote && (
+          <button
+            onClick={() => toggleNoteEditor(noteKey)}
+            className={cn(
+              'mt-1 p-1 rounded transition-colors print:hidden',
+              noteEditor === noteKey ? 'text-accent-500' : 'text-gray-400 hover:text-accent-500'
+            )}
+            aria-label={`Add a note on ${ingredient.name}`}
+          >
+            <StickyNote className="w-4 h-4" />
+          </button>
+        )}
+        {swapOptions.length > 0 && (
+          <button
+            onClick={() => setSwapMenuId(swapMenuId === ingredient.id ? null : ingredient.id)}
+            className={cn(
+              'mt-1 p-1 rounded transition-colors print:hidden',
+              swapMenuId === ingredient.id ? 'text-primary-500' : 'text-gray-400 hover:text-primary-500'
+            )}
+            aria-label={`Swap ${ingredient.name}`}
+            aria-expanded={swapMenuId === ingredient.id}
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  if (cookingMode && hasSteps) {
+    return (
+      <CookingMode
+        recipe={recipe}
+        servings={servings}
+        system={measurementSystem}
+        notes={notes}
+        currentStep={currentStep}
+        checkedIngredients={checkedIngredients}
+        onToggleIngredient={toggleIngredientCheck}
+        onStepChange={changeStep}
+        onStartTimer={startStepTimer}
+        onExit={() => setCookingMode(false)}
+      />
     );
   }
 
@@ -228,6 +371,23 @@ export default function RecipeDetailPage({ recipe, relatedRecipes }: RecipeDetai
                   </time>
                 </span>
               </div>
+              {recipe.rating && (
+                <a
+                  href="#reviews"
+                  className="flex items-center space-x-2 hover:text-white transition-colors"
+                  itemProp="aggregateRating"
+                  itemScope
+                  itemType="https://schema.org/AggregateRating"
+                >
+                  <Star className="w-5 h-5 text-accent-400 fill-current" />
+                  <span>
+                    <span itemProp="ratingValue" content={recipe.rating.average.toString()}>
+                      {recipe.rating.average.toFixed(1)}
+                    </span>{' '}
+                    (<span itemProp="ratingCount">{recipe.rating.count}</span> review{recipe.rating.count !== 1 ? 's' : ''})
+                  </span>
+                </a>
+              )}
             </div>
 
             {/* Hidden Schema.org metadata */}
@@ -264,6 +424,7 @@ export default function RecipeDetailPage({ recipe, relatedRecipes }: RecipeDetai
             <Heart className={cn('w-5 h-5', isRecipeFavorite && 'fill-current')} />
             <span>{isRecipeFavorite ? 'Favorited' : 'Add to Favorites'}</span>
           </button>
+          <AddToCollectionMenu recipeId={recipe.id} />
           <button
             onClick={handleShare}
             className="flex items-center space-x-2 px-4 py-2 rounded-lg border border-soft-grey bg-white text-gray-600 hover:bg-soft-grey transition-colors"
@@ -280,13 +441,15 @@ export default function RecipeDetailPage({ recipe, relatedRecipes }: RecipeDetai
             <Printer className="w-5 h-5" />
             <span>Print</span>
           </button>
-          <button
-            onClick={() => setCookingMode(true)}
-            className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-accent-400 text-white hover:bg-accent-500 transition-colors"
-          >
-            <ChefHat className="w-5 h-5" />
-            <span>Cooking Mode</span>
-          </button>
+          {hasSteps && (
+            <button
+              onClick={() => setCookingMode(true)}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-accent-400 text-white hover:bg-accent-500 transition-colors"
+            >
+              <ChefHat className="w-5 h-5" />
+              <span>{hasProgress ? `Resume Cooking (Step ${currentStep + 1})` : 'Cooking Mode'}</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -354,127 +517,257 @@ export default function RecipeDetailPage({ recipe, relatedRecipes }: RecipeDetai
                 </div>
               </div>
 
-              <ul className="space-y-3 mb-6">
-                {recipe.ingredients.map((ingredient) => {
-                  const scaledQuantity = scaleIngredientQuantity(ingredient.quantity, recipe.baseServings, servings);
-                  const converted = convertUnits(scaledQuantity, ingredient.unit, unitSystem);
-                  const isChecked = checkedIngredients.has(ingredient.id);
-
-                  return (
-                    <li key={ingredient.id} className="flex items-start space-x-3" itemProp="recipeIngredient">
-                      <button
-                        onClick={() => toggleIngredientCheck(ingredient.id)}
-                        className={cn(
-                          'mt-1 w-5 h-5 rounded border-2 flex items-center justify-center transition-colors',
-                          isChecked
-                            ? 'bg-fresh-500 border-fresh-500 text-white'
-                            : 'border-gray-300 hover:border-fresh-500'
-                        )}
-                        aria-label={`Mark ${ingredient.name} as ${isChecked ? 'unchecked' : 'checked'}`}
-                      >
-                        {isChecked && <Check className="w-3 h-3" />}
+              {/* Servings and units saved for this recipe */}
+              <div className="-mt-3 mb-6 text-sm text-gray-500 print:hidden">
+                {notes && hasSavedDefaults ? (
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                    <span>Opens at {notes.servings ?? recipe.baseServings} servings in</span>
+                    <select
+                      value={recipeUnitSystem}
+                      onChange={(e) => changeRecipeUnits(e.target.value as UnitSystem)}
+                      className="px-1 py-0.5 border border-soft-grey rounded text-dark-slate focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      aria-label="Units for this recipe"
+                    >
+                      <option value="metric">metric</option>
+                      <option value="imperial">imperial</option>
+                    </select>
+                    {servings !== (notes.servings ?? recipe.baseServings) && (
+                      <button onClick={saveDefaults} className="text-primary-500 hover:text-primary-600 font-medium">
+                        Save {servings}
                       </button>
-                      <span className={cn('flex-1', isChecked && 'line-through text-gray-500')}>
-                        <strong>{converted.value} {converted.unit}</strong> {ingredient.name}
-                        {ingredient.note && <em className="text-gray-600"> ({ingredient.note})</em>}
-                      </span>
-                    </li>
-                  );
-                })}
-              </ul>
+                    )}
+                    <button
+                      onClick={() => setRecipeDefaults(recipe.id, { servings: undefined, unitSystem: undefined })}
+                      className="hover:text-primary-500"
+                    >
+                      Forget
+                    </button>
+                  </div>
+                ) : (
+                  <button onClick={saveDefaults} className="hover:text-primary-500">
+                    Always open at {servings} servings in {recipeUnitSystem} units
+                  </button>
+                )}
+              </div>
 
-              <button
-                onClick={exportGroceryList}
-                className="w-full px-4 py-2 bg-accent-400 text-white rounded-lg font-medium hover:bg-accent-500 transition-colors"
-              >
-                Export Grocery List
-              </button>
+              <div className="space-y-6 mb-6">
+                {groupBySection(recipe.ingredients).map((section, sectionIndex) => (
+                  <div key={sectionIndex}>
+                    {section.title && (
+                      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">{section.title}</h3>
+                    )}
+                    <ul className="space-y-3">{section.items.map(renderIngredient)}</ul>
+                  </div>
+                ))}
+                {recipe.components?.map((component) => (
+                  <div key={component.id}>
+                    <div className="flex items-baseline justify-between mb-3">
+                      <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">
+                        {component.label || component.title}
+                      </h3>
+                      <Link href={`/recipes/${component.slug}`} className="text-xs text-primary-500 hover:text-primary-600">
+                        View recipe
+                      </Link>
+                    </div>
+                    <ul className="space-y-3">{getComponentIngredients(component).map(renderIngredient)}</ul>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                {shoppingListEntry?.servings === servings ? (
+                  <Link
+                    href="/shopping-list"
+                    className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-fresh-100 text-fresh-800 rounded-lg font-medium hover:bg-fresh-500 hover:text-white transition-colors"
+                  >
+                    <Check className="w-4 h-4" />
+                    <span>On Your Shopping List</span>
+                  </Link>
+                ) : (
+                  <button
+                    onClick={() => addToShoppingList(toShoppingListRecipe(recipe, servings))}
+                    className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-fresh-500 text-white rounded-lg font-medium hover:bg-fresh-600 transition-colors"
+                  >
+                    <ShoppingBasket className="w-4 h-4" />
+                    <span>
+                      {shoppingListEntry ? `Update Shopping List to ${servings} Servings` : 'Add to Shopping List'}
+                    </span>
+                  </button>
+                )}
+                <button
+                  onClick={exportGroceryList}
+                  className="w-full px-4 py-2 bg-accent-400 text-white rounded-lg font-medium hover:bg-accent-500 transition-colors"
+                >
+                  Export Grocery List
+                </button>
+              </div>
             </div>
           </div>
 
           {/* Instructions */}
           <div className="lg:col-span-2">
+            {/* Your Notes */}
+            <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6 mb-8">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h2 className="flex items-center gap-2 text-xl font-bold text-dark-slate">
+                  <StickyNote className="w-5 h-5 text-accent-500" />
+                  Your Notes
+                </h2>
+                <span className="text-xs text-gray-500 print:hidden">
+                  {recipeNotesSyncStatus === 'local' && 'Private, saved on this device'}
+                  {recipeNotesSyncStatus === 'pending' && 'Saving to your account…'}
+                  {recipeNotesSyncStatus === 'synced' && 'Private, saved to your account'}
+                </span>
+              </div>
+              {/* Keyed by note so it resets when the note syncs from another device */}
+              <textarea
+                key={notes?.note ?? ''}
+                defaultValue={notes?.note ?? ''}
+                onBlur={(e) => {
+                  if (e.target.value.trim() !== (notes?.note ?? '')) setRecipeNote(recipe.id, e.target.value);
+                }}
+                maxLength={MAX_NOTE_LENGTH}
+                rows={2}
+                placeholder="Only you can see these. Add notes to single steps and ingredients too."
+                className="w-full px-3 py-2 text-sm border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-accent-400 focus:border-transparent"
+                aria-label="Your notes on this recipe"
+              />
+            </div>
+
             <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6">
               <div className="flex justify-between items-center mb-6">
                 <h2 className="text-2xl font-bold text-dark-slate">Instructions</h2>
-                <button
-                  onClick={() => setCookingMode(true)}
-                  className="px-4 py-2 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
-                >
-                  Cooking Mode
-                </button>
+                <div className="flex items-center space-x-3">
+                  {hasProgress && (
+                    <button
+                      onClick={() => clearCookingProgress(recipe.id)}
+                      className="text-sm text-gray-500 hover:text-primary-500 transition-colors"
+                    >
+                      Start over
+                    </button>
+                  )}
+                  {hasSteps && (
+                    <button
+                      onClick={() => setCookingMode(true)}
+                      className="px-4 py-2 bg-primary-500 text-white rounded-lg font-medium hover:bg-primary-600 transition-colors"
+                    >
+                      {hasProgress ? `Resume at Step ${currentStep + 1}` : 'Cooking Mode'}
+                    </button>
+                  )}
+                </div>
               </div>
 
-              <ol className="space-y-6">
-                {recipe.steps.map((step, index) => {
-                  const isChecked = checkedSteps.has(step.id);
-                  
-                  return (
-                    <li key={step.id} className="flex items-start space-x-4" itemProp="recipeInstructions" itemScope itemType="https://schema.org/HowToStep">
-                      <button
-                        onClick={() => toggleStepCheck(step.id)}
-                        className={cn(
-                          'mt-1 w-8 h-8 rounded-full border-2 flex items-center justify-center font-bold transition-colors flex-shrink-0',
-                          isChecked
-                            ? 'bg-fresh-500 border-fresh-500 text-white'
-                            : 'border-primary-500 text-primary-500 hover:bg-primary-50'
-                        )}
-                        aria-label={`Mark step ${index + 1} as ${isChecked ? 'unchecked' : 'checked'}`}
-                      >
-                        {isChecked ? <Check className="w-4 h-4" /> : index + 1}
-                      </button>
-                      <div className="flex-1">
-                        <p className={cn('text-gray-800 leading-relaxed', isChecked && 'line-through text-gray-500')} itemProp="text">
-                          {step.text}
-                        </p>
-                        {step.durationMins && (
-                          <div className="flex items-center space-x-1 mt-2 text-accent-600">
-                            <Timer className="w-4 h-4" />
-                            <span className="text-sm">{step.durationMins} minutes</span>
-                          </div>
-                        )}
-                      </div>
-                    </li>
-                  );
-                })}
-              </ol>
-            </div>
+              <div className="space-y-8">
+                {groupBySection(recipe.steps).map((section, sectionIndex) => (
+                  <div key={sectionIndex}>
+                    {section.title && (
+                      <h3 className="text-lg font-semibold text-dark-slate mb-4">{section.title}</h3>
+                    )}
+                    <ol className="space-y-6">
+                      {section.items.map((step) => {
+                        const index = recipe.steps.indexOf(step);
+                        const isChecked = checkedSteps.includes(step.id);
 
-            {/* Nutrition Info */}
-            {recipe.nutrition && (
-              <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6 mt-6" itemProp="nutrition" itemScope itemType="https://schema.org/NutritionInformation">
-                <h3 className="text-xl font-bold text-dark-slate mb-4">Nutrition Information</h3>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  {recipe.nutrition.calories && (
-                    <div className="text-center p-3 bg-cream rounded-lg">
-                      <div className="text-2xl font-bold text-primary-500" itemProp="calories">{recipe.nutrition.calories}</div>
-                      <div className="text-sm text-gray-600">Calories</div>
-                    </div>
-                  )}
-                  {recipe.nutrition.protein && (
-                    <div className="text-center p-3 bg-cream rounded-lg">
-                      <div className="text-2xl font-bold text-fresh-500" itemProp="proteinContent">{recipe.nutrition.protein}g</div>
-                      <div className="text-sm text-gray-600">Protein</div>
-                    </div>
-                  )}
-                  {recipe.nutrition.carbs && (
-                    <div className="text-center p-3 bg-cream rounded-lg">
-                      <div className="text-2xl font-bold text-accent-500" itemProp="carbohydrateContent">{recipe.nutrition.carbs}g</div>
-                      <div className="text-sm text-gray-600">Carbs</div>
-                    </div>
-                  )}
-                  {recipe.nutrition.fat && (
-                    <div className="text-center p-3 bg-cream rounded-lg">
-                      <div className="text-2xl font-bold text-gray-500" itemProp="fatContent">{recipe.nutrition.fat}g</div>
-                      <div className="text-sm text-gray-600">Fat</div>
+                        return (
+                          <li key={step.id} className="flex items-start space-x-4" itemProp="recipeInstructions" itemScope itemType="https://schema.org/HowToStep">
+                            <button
+                              onClick={() => toggleStepCheck(step.id)}
+                              className={cn(
+                                'mt-1 w-8 h-8 rounded-full border-2 flex items-center justify-center font-bold transition-colors flex-shrink-0',
+                                isChecked
+                                  ? 'bg-fresh-500 border-fresh-500 text-white'
+                                  : 'border-primary-500 text-primary-500 hover:bg-primary-50'
+                              )}
+                              aria-label={`Mark step ${index + 1} as ${isChecked ? 'unchecked' : 'checked'}`}
+                            >
+                              {isChecked ? <Check className="w-4 h-4" /> : index + 1}
+                            </button>
+                            <div className="flex-1">
+                              <p className={cn('text-gray-800 leading-relaxed', isChecked && 'line-through text-gray-500')} itemProp="text">
+                                <StepText
+                                  text={step.text}
+                                  system={measurementSystem}
+                                  onStartTimer={(minutes) => startStepTimer(index + 1, minutes)}
+                                />
+                              </p>
+                              {step.durationMins && (
+                                <button
+                                  onClick={() => startStepTimer(index + 1, step.durationMins!)}
+                                  className="flex items-center space-x-1 mt-2 text-accent-600 hover:text-accent-700 transition-colors"
+                                  aria-label={`Start a ${step.durationMins} minute timer for step ${index + 1}`}
+                                >
+                                  <Timer className="w-4 h-4" />
+                                  <span className="text-sm">{step.durationMins} minutes</span>
+                                </button>
+                              )}
+                              {step.ingredients && step.ingredients.length > 0 && (
+                                <p className="mt-2 text-sm text-gray-500">
+                                  Uses: {getStepIngredients(recipe, step).map((ingredient) => {
+                                    const { amount, unit } = formatScaledIngredient(ingredient, recipe.baseServings, servings, measurementSystem);
+                                    return ingredient.quantity ? `${amount} ${unit} ${ingredient.name}` : ingredient.name;
+                                  }).join(', ')}
+                                </p>
+                              )}
+                              <PersonalNote
+                                note={notes?.stepNotes[step.id]}
+                                editing={noteEditor === `step:${step.id}`}
+                                label={`step ${index + 1}`}
+                                onEdit={() => setNoteEditor(`step:${step.id}`)}
+                                onSave={(note) => setStepNote(recipe.id, step.id, note)}
+                                onClose={() => setNoteEditor(null)}
+                                className="mt-3"
+                              />
+                              {!notes?.stepNotes[step.id] && noteEditor !== `step:${step.id}` && (
+                                <button
+                                  onClick={() => setNoteEditor(`step:${step.id}`)}
+                                  className="flex items-center gap-1 mt-2 text-sm text-gray-400 hover:text-accent-500 transition-colors print:hidden"
+                                >
+                                  <StickyNote className="w-4 h-4" />
+                                  Add a note
+                                </button>
+                              )}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </div>
+                ))}
+
+                {recipe.components?.map((component) => (
+                  <div key={component.id}>
+                    <div className="flex items-baseline justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-dark-slate">{component.label || component.title}</h3>
+                      <Link href={`/recipes/${component.slug}`} className="text-sm text-primary-500 hover:text-primary-600">
+                        View {component.title}
+                      </Link>
                     </div>
-                  )}
-                </div>
+                    <ol className="space-y-4 list-decimal pl-6 marker:font-bold marker:text-primary-500">
+                      {component.steps.map((step, index) => (
+                        <li key={step.id} className="text-gray-800 leading-relaxed pl-2">
+                          <StepText
+                            text={step.text}
+                            system={measurementSystem}
+                            onStartTimer={(minutes) => startComponentTimer(component.title, index + 1, minutes)}
+                          />
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
               </div>
-            )}
+            </div>
+
+            {/* Nutrition Info */}
+            <NutritionPanel recipe={recipe} servings={servings} />
+
+            {/* Allergens */}
+            <AllergenPanel recipe={recipe} />
           </div>
         </div>
 
+        <RecipeReviews recipeId={recipe.id} recipeTitle={recipe.title} />
+
         {/* Related Recipes */}
         {relatedRecipes.length > 0 && (
           <section className="mt-16">
@@ -1,9 +1,10 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Filter, X, ChevronDown, ChevronUp } from 'lucide-react';
-import { RecipeFilters as IRecipeFilters } from '@/types/recipe';
+import { Filter, X, ChevronDown, ChevronUp, Refrigerator } from 'lucide-react';
+import { Allergen, RecipeFilters as IRecipeFilters, TagMatchMode } from '@/types/recipe';
 import { cn } from '@/lib/utils';
+import { ALLERGENS, CUISINES, DIFFICULTIES, TAGS } from '@/lib/taxonomy';
 
 interface RecipeFiltersProps {
   filters: IRecipeFilters;
@@ -11,12 +12,14 @@ interface RecipeFiltersProps {
   className?: string;
 }
 
-const CUISINES = ['British', 'Indian', 'Italian', 'Chinese', 'Mediterranean', 'French', 'American'];
-const TAGS = ['vegetarian', 'vegan', 'quick', '30min', 'healthy', 'classic', 'traditional', 'baking', 'dinner', 'breakfast', 'lunch'];
-const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+const TAG_MATCH_MODES: { value: TagMatchMode; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'all', label: 'All' },
+];
 
 export default function RecipeFilters({ filters, onFiltersChange, className }: RecipeFiltersProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [ingredientInput, setIngredientInput] = useState('');
 
   const updateFilters = <K extends keyof IRecipeFilters>(key: K, value: IRecipeFilters[K]) => {
     onFiltersChange({ ...filters, [key]: value });
@@ -31,12 +34,68 @@ export default function RecipeFilters({ filters, onFiltersChange, className }: R
     updateFilters(key, newArray.length > 0 ? newArray : undefined);
   };
 
+  // Tag chips cycle: off -> include -> exclude -> off
+  const cycleTagFilter = (tag: string) => {
+    const included = filters.tags || [];
+    const excluded = filters.excludeTags || [];
+    let tags = included;
+    let excludeTags = excluded;
+
+    if (included.includes(tag)) {
+      tags = included.filter(item => item !== tag);
+      excludeTags = [...excluded, tag];
+    } else if (excluded.includes(tag)) {
+      excludeTags = excluded.filter(item => item !== tag);
+    } else {
+      tags = [...included, tag];
+    }
+
+    onFiltersChange({
+      ...filters,
+      tags: tags.length > 0 ? tags : undefined,
+      excludeTags: excludeTags.length > 0 ? excludeTags : undefined,
+    });
+  };
+
+  const removeExcludedTag = (tag: string) => {
+    const excludeTags = (filters.excludeTags || []).filter(item => item !== tag);
+    updateFilters('excludeTags', excludeTags.length > 0 ? excludeTags : undefined);
+  };
+
+  const toggleExcludedAllergen = (allergen: Allergen) => {
+    const current = filters.excludeAllergens || [];
+    const excludeAllergens = current.includes(allergen)
+      ? current.filter(item => item !== allergen)
+      : [...current, allergen];
+    updateFilters('excludeAllergens', excludeAllergens.length > 0 ? excludeAllergens : undefined);
+  };
+
+  // "What can I cook": add comma-separated ingredients from the input
+  const addHaveIngredients = () => {
+    const current = filters.haveIngredients || [];
+    const added = ingredientInput
+      .split(',')
+      .map(item => item.trim())
+      .filter(item => item && !current.some(existing => existing.toLowerCase() === item.toLowerCase()));
+
+    if (added.length > 0) {
+      updateFilters('haveIngredients', [...current, ...added]);
+    }
+    setIngredientInput('');
+  };
+
+  const removeHaveIngredient = (ingredient: string) => {
+    const haveIngredients = (filters.haveIngredients || []).filter(item => item !== ingredient);
+    updateFilters('haveIngredients', haveIngredients.length > 0 ? haveIngredients : undefined);
+  };
+
   const clearAllFilters = () => {
     onFiltersChange({});
   };
 
-  const hasActiveFilters = Object.values(filters).some(value => 
-    Array.isArray(value) ? value.length > 0 : value !== undefined
+  // tagMatch only qualifies the tag filter, so it is not a filter on its own
+  const hasActiveFilters = Object.entries(filters).some(([key, value]) =>
+    key !== 'tagMatch' && (Array.isArray(value) ? value.length > 0 : value !== undefined)
   );
 
   return (
@@ -78,6 +137,62 @@ export default function RecipeFilters({ filters, onFiltersChange, className }: R
         'md:block', // Always show on desktop
         isExpanded ? 'block' : 'hidden' // Toggle on mobile
       )}>
+        {/* Ingredients I have */}
+        <div>
+          <label htmlFor="have-ingredients" className="block text-sm font-medium text-dark-slate mb-2">
+            Ingredients I Have
+          </label>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              addHaveIngredients();
+            }}
+            className="flex gap-2"
+          >
+            <div className="relative flex-1">
+              <Refrigerator className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <input
+                id="have-ingredients"
+                type="text"
+                value={ingredientInput}
+                onChange={(e) => setIngredientInput(e.target.value)}
+                placeholder="e.g. chicken, lemon"
+                className="w-full pl-9 pr-3 py-1.5 text-sm border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!ingredientInput.trim()}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 transition-colors"
+            >
+              Add
+            </button>
+          </form>
+          {filters.haveIngredients?.length ? (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {filters.haveIngredients.map((ingredient) => (
+                <span
+                  key={ingredient}
+                  className="inline-flex items-center bg-primary-100 text-primary-800 px-2 py-1 rounded-full text-xs"
+                >
+                  {ingredient}
+                  <button
+                    onClick={() => removeHaveIngredient(ingredient)}
+                    className="ml-1 hover:text-primary-900"
+                    aria-label={`Remove ${ingredient}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-2 text-xs text-gray-500">
+              Find recipes you can make with what&apos;s in the fridge. Salt, pepper and oil are assumed.
+            </p>
+          )}
+        </div>
+
         {/* Max Prep Time */}
         <div>
           <label className="block text-sm font-medium text-dark-slate mb-2">
@@ -150,26 +265,83 @@ export default function RecipeFilters({ filters, onFiltersChange, className }: R
         </div>
 
         {/* Tags */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-dark-slate">
+              Dietary & Style
+            </label>
+            {(filters.tags?.length ?? 0) > 1 && (
+              <div className="flex rounded-full bg-soft-grey p-0.5 text-xs" role="group" aria-label="Match tags">
+                {TAG_MATCH_MODES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => updateFilters('tagMatch', value)}
+                    aria-pressed={(filters.tagMatch ?? 'any') === value}
+                    className={cn(
+                      'px-2 py-0.5 rounded-full font-medium transition-colors',
+                      (filters.tagMatch ?? 'any') === value
+                        ? 'bg-white text-dark-slate shadow-sm'
+                        : 'text-gray-500 hover:text-dark-slate'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {TAGS.map((tag) => {
+              const isIncluded = filters.tags?.includes(tag);
+              const isExcluded = filters.excludeTags?.includes(tag);
+
+              return (
+                <button
+                  key={tag}
+                  onClick={() => cycleTagFilter(tag)}
+                  aria-label={isExcluded ? `Not ${tag}` : tag}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-sm font-medium transition-colors capitalize',
+                    isIncluded && 'bg-fresh-500 text-white',
+                    isExcluded && 'bg-dark-slate text-white line-through',
+                    !isIncluded && !isExcluded && 'bg-soft-grey text-dark-slate hover:bg-fresh-100'
+                  )}
+                >
+                  {tag.replace('-', ' ')}
+                </button>
+              );
+            })}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Click a tag again to exclude it.
+          </p>
+        </div>
+
+        {/* Allergens */}
         <div>
           <label className="block text-sm font-medium text-dark-slate mb-2">
-            Dietary & Style
+            Free From
           </label>
           <div className="flex flex-wrap gap-2">
-            {TAGS.map((tag) => (
+            {ALLERGENS.map(({ value, label }) => (
               <button
-                key={tag}
-                onClick={() => toggleArrayFilter('tags', tag)}
+                key={value}
+                onClick={() => toggleExcludedAllergen(value)}
+                aria-pressed={filters.excludeAllergens?.includes(value) ?? false}
                 className={cn(
-                  'px-3 py-1 rounded-full text-sm font-medium transition-colors capitalize',
-                  filters.tags?.includes(tag)
-                    ? 'bg-fresh-500 text-white'
-                    : 'bg-soft-grey text-dark-slate hover:bg-fresh-100'
+                  'px-3 py-1 rounded-full text-sm font-medium transition-colors',
+                  filters.excludeAllergens?.includes(value)
+                    ? 'bg-dark-slate text-white'
+                    : 'bg-soft-grey text-dark-slate hover:bg-primary-100'
                 )}
               >
-                {tag.replace('-', ' ')}
+                {label}
               </button>
             ))}
           </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Worked out from the ingredients. Always check packaging if you have an allergy.
+          </p>
         </div>
       </div>
 
@@ -207,6 +379,36 @@ export default function RecipeFilters({ filters, onFiltersChange, className }: R
                 </button>
               </span>
             ))}
+            {filters.excludeTags?.map((tag) => (
+              <span
+                key={`exclude-tag-${tag}`}
+                className="inline-flex items-center bg-soft-grey text-dark-slate px-2 py-1 rounded-full text-xs capitalize"
+              >
+                Not {tag.replace('-', ' ')}
+                <button
+                  onClick={() => removeExcludedTag(tag)}
+                  className="ml-1 hover:text-primary-500"
+                  aria-label={`Remove not ${tag} filter`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {filters.excludeAllergens?.map((allergen) => (
+              <span
+                key={`exclude-allergen-${allergen}`}
+                className="inline-flex items-center bg-soft-grey text-dark-slate px-2 py-1 rounded-full text-xs"
+              >
+                No {ALLERGENS.find(item => item.value === allergen)?.label.toLowerCase() ?? allergen}
+                <button
+                  onClick={() => toggleExcludedAllergen(allergen)}
+                  className="ml-1 hover:text-primary-500"
+                  aria-label={`Remove ${allergen} free filter`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
             {filters.difficulty?.map((difficulty) => (
               <span
                 key={`difficulty-${difficulty}`}
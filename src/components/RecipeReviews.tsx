@@ -0,0 +1,411 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Camera, ChefHat, Pencil, Star, Trash2, X } from 'lucide-react';
+import { RecipeReview } from '@/types/recipe';
+import { useAuth } from '@/contexts/AuthContext';
+import { getSupabaseClient } from '@/lib/supabase';
+import {
+  MAX_REVIEW_LENGTH,
+  MAX_REVIEW_PHOTOS,
+  deleteReview,
+  deleteReviewPhotos,
+  fetchOwnReview,
+  fetchReviews,
+  getReviewPhotoUrls,
+  saveReview,
+  uploadReviewPhoto,
+} from '@/lib/reviews';
+import { cn } from '@/lib/utils';
+
+interface RecipeReviewsProps {
+  recipeId: string;
+  recipeTitle: string;
+}
+
+const STATUS_LABELS: Record<RecipeReview['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting for approval', className: 'bg-accent-100 text-accent-800' },
+  approved: { label: 'Published', className: 'bg-fresh-100 text-fresh-800' },
+  rejected: { label: 'Not published', className: 'bg-primary-100 text-primary-700' },
+};
+
+function Stars({ rating, className }: { rating: number; className?: string }) {
+  return (
+    <span className="flex items-center" aria-label={`${rating} out of 5 stars`}>
+      {Array.from({ length: 5 }, (_, i) => (
+        <Star
+          key={i}
+          className={cn(className ?? 'w-4 h-4', i < rating ? 'text-accent-400 fill-current' : 'text-gray-300')}
+        />
+      ))}
+    </span>
+  );
+}
+
+function ReviewBody({ review }: { review: RecipeReview }) {
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        <Stars rating={review.rating} />
+        {review.madeIt && (
+          <span className="flex items-center gap-1 text-xs font-medium text-fresh-800">
+            <ChefHat className="w-3 h-3" />
+            Made it
+          </span>
+        )}
+        <span className="text-xs text-gray-500">
+          {review.authorName || 'A reader'} ·{' '}
+          {new Date(review.createdAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+        </span>
+      </div>
+      {review.body && <p className="text-gray-800 whitespace-pre-line">{review.body}</p>}
+      {review.photoUrls.length > 0 && (
+        <div className="flex gap-2 mt-3">
+          {review.photoUrls.map(url => (
+            <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="relative w-20 h-20 rounded-lg overflow-hidden">
+              <Image src={url} alt="Reviewer's photo" fill className="object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
+/**
+ * Approved reviews of a recipe, plus the signed-in user's own review and
+ * the form to write or change it
+ */
+export default function RecipeReviews({ recipeId, recipeTitle }: RecipeReviewsProps) {
+  const { isAvailable, user } = useAuth();
+  const [reviews, setReviews] = useState<RecipeReview[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [ownReview, setOwnReview] = useState<RecipeReview | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState('');
+  const [madeIt, setMadeIt] = useState(false);
+  const [photoPaths, setPhotoPaths] = useState<string[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAvailable) return;
+    let cancelled = false;
+
+    fetchReviews(getSupabaseClient(), recipeId)
+      .then(page => {
+        if (cancelled) return;
+        setReviews(page.reviews);
+        setTotal(page.total);
+      })
+      .catch(err => console.error('Error loading reviews:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAvailable, recipeId]);
+
+  useEffect(() => {
+    setOwnReview(null);
+    setEditing(false);
+    if (!isAvailable || !user) return;
+    let cancelled = false;
+
+    fetchOwnReview(getSupabaseClient(), recipeId, user.id)
+      .then(review => {
+        if (!cancelled) setOwnReview(review);
+      })
+      .catch(err => console.error('Error loading your review:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAvailable, recipeId, user]);
+
+  if (!isAvailable) return null;
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await fetchReviews(getSupabaseClient(), recipeId, reviews.length);
+      setReviews(current => [...current, ...page.reviews]);
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Error loading reviews:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const startEditing = () => {
+    setRating(ownReview?.rating ?? 0);
+    setBody(ownReview?.body ?? '');
+    setMadeIt(ownReview?.madeIt ?? false);
+    setPhotoPaths(ownReview?.photoPaths ?? []);
+    setPhotoUrls({});
+    setError(null);
+    setEditing(true);
+
+    getReviewPhotoUrls(getSupabaseClient(), ownReview?.photoPaths ?? [])
+      .then(urls => setPhotoUrls(current => ({ ...urls, ...current })))
+      .catch(err => console.error('Error loading review photos:', err));
+  };
+
+  // Photos are uploaded as soon as they're picked, so any that don't end up
+  // on the saved review are removed again
+  const cancelEditing = () => {
+    const saved = ownReview?.photoPaths ?? [];
+    deleteReviewPhotos(getSupabaseClient(), photoPaths.filter(path => !saved.includes(path)));
+    setEditing(false);
+  };
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_REVIEW_PHOTOS - photoPaths.length);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      for (const file of files) {
+        const client = getSupabaseClient();
+        const path = await uploadReviewPhoto(client, user.id, file);
+        setPhotoPaths(current => [...current, path]);
+        const urls = await getReviewPhotoUrls(client, [path]);
+        setPhotoUrls(current => ({ ...current, ...urls }));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not upload the photo. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removePhoto = (path: string) => {
+    setPhotoPaths(current => current.filter(item => item !== path));
+    if (!ownReview?.photoPaths.includes(path)) deleteReviewPhotos(getSupabaseClient(), [path]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || rating === 0) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const client = getSupabaseClient();
+      const saved = await saveReview(client, recipeId, user.id, { rating, body, madeIt, photoPaths });
+      deleteReviewPhotos(client, (ownReview?.photoPaths ?? []).filter(path => !photoPaths.includes(path)));
+      // Edits go back to the queue, so an approved version drops out of the list
+      if (ownReview?.status === 'approved') {
+        setReviews(current => current.filter(review => review.id !== ownReview.id));
+        setTotal(current => current - 1);
+      }
+      setOwnReview(saved);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save your review. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ownReview || !confirm('Delete your review?')) return;
+
+    try {
+      await deleteReview(getSupabaseClient(), ownReview);
+      if (ownReview.status === 'approved') {
+        setReviews(current => current.filter(review => review.id !== ownReview.id));
+        setTotal(current => current - 1);
+      }
+      setOwnReview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete your review. Please try again.');
+    }
+  };
+
+  const otherReviews = reviews.filter(review => review.id !== ownReview?.id);
+
+  return (
+    <section id="reviews" className="mt-16 print:hidden">
+      <h2 className="text-3xl font-bold text-dark-slate mb-8">Reviews</h2>
+
+      <div className="bg-white rounded-xl shadow-sm border border-soft-grey p-6 mb-8">
+        {!user ? (
+          <p className="text-gray-600">
+            Cooked {recipeTitle}?{' '}
+            <Link href="/account" className="text-primary-500 hover:text-primary-600 font-medium">
+              Sign in
+            </Link>{' '}
+            to rate it and leave a review.
+          </p>
+        ) : editing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <span className="block text-sm font-medium text-dark-slate mb-2">Your rating</span>
+              <div className="flex items-center gap-1" role="radiogroup" aria-label="Your rating">
+                {[1, 2, 3, 4, 5].map(value => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setRating(value)}
+                    role="radio"
+                    aria-checked={rating === value}
+                    aria-label={`${value} star${value !== 1 ? 's' : ''}`}
+                    className="p-1 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <Star className={cn('w-7 h-7', value <= rating ? 'text-accent-400 fill-current' : 'text-gray-300 hover:text-accent-400')} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-dark-slate">
+              <input
+                type="checkbox"
+                checked={madeIt}
+                onChange={(e) => setMadeIt(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+              />
+              I made this recipe
+            </label>
+
+            <div>
+              <label htmlFor="review-body" className="block text-sm font-medium text-dark-slate mb-2">
+                Your review (optional)
+              </label>
+              <textarea
+                id="review-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                maxLength={MAX_REVIEW_LENGTH}
+                rows={4}
+                placeholder="How did it turn out? Any tips for other cooks?"
+                className="w-full px-4 py-3 border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-dark-slate mb-2">
+                Photos ({photoPaths.length}/{MAX_REVIEW_PHOTOS})
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {photoPaths.map(path => (
+                  <div key={path} className="relative w-20 h-20 rounded-lg overflow-hidden bg-gray-100">
+                    {photoUrls[path] && <Image src={photoUrls[path]} alt="" fill className="object-cover" />}
+                    <button
+                      type="button"
+                      onClick={() => removePhoto(path)}
+                      className="absolute top-1 right-1 p-1 bg-white/90 rounded-full text-gray-600 hover:text-primary-500"
+                      aria-label="Remove photo"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+                {photoPaths.length < MAX_REVIEW_PHOTOS && (
+                  <label
+                    className={cn(
+                      'w-20 h-20 flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-soft-grey text-xs text-gray-500 cursor-pointer hover:border-primary-500 hover:text-primary-500',
+                      uploading && 'opacity-50 cursor-wait'
+                    )}
+                  >
+                    <Camera className="w-5 h-5" />
+                    {uploading ? 'Uploading…' : 'Add'}
+                    <input type="file" accept="image/*" multiple onChange={handlePhotos} disabled={uploading} className="sr-only" />
+                  </label>
+                )}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-primary-600">{error}</p>}
+
+            <p className="text-xs text-gray-500">Reviews are checked by our moderators before they appear.</p>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={rating === 0 || saving || uploading}
+                className="px-6 py-2 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving…' : ownReview ? 'Update Review' : 'Post Review'}
+              </button>
+              <button
+                type="button"
+                onClick={cancelEditing}
+                className="px-6 py-2 bg-white text-gray-600 border border-soft-grey rounded-lg hover:bg-cream transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : ownReview ? (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-dark-slate">Your review</h3>
+              <span className={cn('px-2 py-1 rounded-full text-xs font-medium', STATUS_LABELS[ownReview.status].className)}>
+                {STATUS_LABELS[ownReview.status].label}
+              </span>
+            </div>
+            {ownReview.status === 'rejected' && ownReview.moderationNote && (
+              <p className="mb-3 text-sm text-gray-600">Moderator&apos;s note: {ownReview.moderationNote}</p>
+            )}
+            <ReviewBody review={ownReview} />
+            {error && <p className="mt-3 text-sm text-primary-600">{error}</p>}
+            <div className="flex gap-4 mt-4 text-sm">
+              <button onClick={startEditing} className="flex items-center gap-1 text-primary-500 hover:text-primary-600 font-medium">
+                <Pencil className="w-4 h-4" />
+                Edit
+              </button>
+              <button onClick={handleDelete} className="flex items-center gap-1 text-gray-500 hover:text-primary-500">
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-gray-600">Cooked {recipeTitle}? Let other cooks know how it went.</p>
+            <button
+              onClick={startEditing}
+              className="px-6 py-2 bg-primary-500 text-white rounded-lg font-semibold hover:bg-primary-600 transition-colors"
+            >
+              Write a Review
+            </button>
+          </div>
+        )}
+      </div>
+
+      {otherReviews.length === 0 ? (
+        <p className="text-gray-600">No reviews yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {otherReviews.map(review => (
+            <li key={review.id} className="bg-white rounded-xl shadow-sm border border-soft-grey p-6">
+              <ReviewBody review={review} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reviews.length < total && (
+        <div className="mt-6 text-center">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-6 py-2 bg-white text-primary-500 border border-primary-200 rounded-lg font-medium hover:bg-primary-50 transition-colors disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading…' : `Show more reviews (${total - reviews.length})`}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, History, Globe, Tag, ChefHat } from 'lucide-react';
+import { Recipe } from '@/types/recipe';
+import { searchRecipes } from '@/lib/api';
+import { CUISINES, TAGS } from '@/lib/taxonomy';
+import { useApp } from '@/contexts/AppContext';
+import { cn } from '@/lib/utils';
+
+interface SearchAutocompleteProps {
+  inputId: string;
+  placeholder: string;
+  className?: string;
+}
+
+type Suggestion =
+  | { kind: 'recipe'; recipe: Recipe }
+  | { kind: 'cuisine'; value: string }
+  | { kind: 'tag'; value: string }
+  | { kind: 'recent'; value: string };
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_RECIPES = 5;
+const MAX_TERMS = 3;
+const DEBOUNCE_MS = 200;
+
+const SECTION_LABELS: Record<Suggestion['kind'], string> = {
+  recent: 'Recent searches',
+  recipe: 'Recipes',
+  cuisine: 'Cuisines',
+  tag: 'Tags',
+};
+
+const SECTION_ICONS = {
+  recent: History,
+  recipe: ChefHat,
+  cuisine: Globe,
+  tag: Tag,
+};
+
+const getSuggestionLabel = (suggestion: Suggestion) =>
+  suggestion.kind === 'recipe' ? suggestion.recipe.title : suggestion.value.replace('-', ' ');
+
+/**
+ * Search box with a suggestions dropdown (ARIA combobox). Recipes come from
+ * searchRecipes(), debounced, and a new keystroke aborts the request in flight.
+ */
+export default function SearchAutocomplete({ inputId, placeholder, className }: SearchAutocompleteProps) {
+  const router = useRouter();
+  const { recentSearches, addRecentSearch, clearRecentSearches } = useApp();
+  const [query, setQuery] = useState('');
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const trimmedQuery = query.trim();
+  const listboxId = `${inputId}-suggestions`;
+
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) {
+      setRecipes([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      setLoading(true);
+      searchRecipes(trimmedQuery, MAX_RECIPES, controller.signal)
+        .then(setRecipes)
+        .catch((error) => {
+          if (!controller.signal.aborted) console.error('Error fetching suggestions:', error);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [trimmedQuery]);
+
+  const queryLower = trimmedQuery.toLowerCase();
+  const suggestions: Suggestion[] = trimmedQuery.length < MIN_QUERY_LENGTH
+    ? recentSearches.map(value => ({ kind: 'recent' as const, value }))
+    : [
+        ...recipes.map(recipe => ({ kind: 'recipe' as const, recipe })),
+        ...CUISINES
+          .filter(cuisine => cuisine.toLowerCase().includes(queryLower))
+          .slice(0, MAX_TERMS)
+          .map(value => ({ kind: 'cuisine' as const, value })),
+        ...TAGS
+          .filter(tag => tag.replace('-', ' ').includes(queryLower))
+          .slice(0, MAX_TERMS)
+          .map(value => ({ kind: 'tag' as const, value })),
+      ];
+
+  const showDropdown = isOpen && (suggestions.length > 0 || (loading && recipes.length === 0));
+  const activeSuggestion = showDropdown ? suggestions[activeIndex] : undefined;
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  // Search and filter pages read their state from the URL on load, so
+  // those use a full navigation like the plain search form did
+  const submitSearch = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    addRecentSearch(trimmed);
+    close();
+    window.location.href = `/recipes?search=${encodeURIComponent(trimmed)}`;
+  };
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    switch (suggestion.kind) {
+      case 'recipe':
+        addRecentSearch(trimmedQuery);
+        close();
+        setQuery('');
+        inputRef.current?.blur();
+        router.push(`/recipes/${suggestion.recipe.slug}`);
+        break;
+      case 'cuisine':
+        close();
+        window.location.href = `/recipes?cuisine=${encodeURIComponent(suggestion.value)}`;
+        break;
+      case 'tag':
+        close();
+        window.location.href = `/recipes?tags=${encodeURIComponent(suggestion.value)}`;
+        break;
+      case 'recent':
+        setQuery(suggestion.value);
+        submitSearch(suggestion.value);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(prev => (suggestions.length ? (prev + 1) % suggestions.length : -1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(prev => (suggestions.length ? (prev <= 0 ? suggestions.length - 1 : prev - 1) : -1));
+        break;
+      case 'Escape':
+        if (showDropdown) {
+          e.preventDefault();
+          close();
+        }
+        break;
+      case 'Enter':
+        if (activeSuggestion) {
+          e.preventDefault();
+          selectSuggestion(activeSuggestion);
+        }
+        break;
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitSearch(query);
+  };
+
+  // Group consecutive suggestions of the same kind under one heading
+  const sections = suggestions.reduce<{ kind: Suggestion['kind']; items: { suggestion: Suggestion; index: number }[] }[]>(
+    (groups, suggestion, index) => {
+      const last = groups[groups.length - 1];
+      if (last && last.kind === suggestion.kind) {
+        last.items.push({ suggestion, index });
+      } else {
+        groups.push({ kind: suggestion.kind, items: [{ suggestion, index }] });
+      }
+      return groups;
+    },
+    []
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('w-full relative', className)} role="search">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+        <input
+          ref={inputRef}
+          id={inputId}
+          type="text"
+          placeholder={placeholder}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+            setActiveIndex(-1);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={close}
+          onKeyDown={handleKeyDown}
+          className="w-full pl-10 pr-4 py-2 border border-soft-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          aria-label="Search recipes"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showDropdown}
+          aria-controls={listboxId}
+          aria-activedescendant={activeSuggestion ? `${listboxId}-${activeIndex}` : undefined}
+          autoComplete="off"
+        />
+      </div>
+
+      {showDropdown && (
+        <div
+          className="absolute left-0 right-0 top-full mt-1 bg-white border border-soft-grey rounded-lg shadow-lg z-50 overflow-hidden"
+          // Keep focus in the input while clicking a suggestion
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <ul id={listboxId} role="listbox" aria-label="Search suggestions" className="max-h-96 overflow-y-auto py-1">
+            {loading && recipes.length === 0 && suggestions.length === 0 && (
+              <li className="px-4 py-2 text-sm text-gray-500" role="presentation">Searching…</li>
+            )}
+            {sections.map(({ kind, items }) => {
+              const Icon = SECTION_ICONS[kind];
+              return (
+                <li key={kind} role="presentation">
+                  <div className="flex items-center justify-between px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    <span>{SECTION_LABELS[kind]}</span>
+                    {kind === 'recent' && (
+                      <button
+                        type="button"
+                        onClick={clearRecentSearches}
+                        className="normal-case font-medium text-primary-500 hover:text-primary-600"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                  <ul role="group" aria-label={SECTION_LABELS[kind]}>
+                    {items.map(({ suggestion, index }) => (
+                      <li
+                        key={`${kind}-${getSuggestionLabel(suggestion)}`}
+                        id={`${listboxId}-${index}`}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onClick={() => selectSuggestion(suggestion)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={cn(
+                          'flex items-center space-x-3 px-4 py-2 cursor-pointer text-sm text-dark-slate',
+                          index === activeIndex && 'bg-soft-grey'
+                        )}
+                      >
+                        <Icon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                        <span className={cn('truncate', kind === 'tag' && 'capitalize')}>
+                          {getSuggestionLabel(suggestion)}
+                        </span>
+                        {suggestion.kind === 'recipe' && (
+                          <span className="ml-auto flex-shrink-0 text-xs text-gray-500">{suggestion.recipe.cuisine}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </form>
+  );
+}
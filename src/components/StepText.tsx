@@ -0,0 +1,92 @@
+'use client';
+
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { StepToken, gasMarkToCelsius, parseStepText } from '@/lib/step-text';
+import { formatQuantity, MeasurementSystem } from '@/lib/units';
+import { cn } from '@/lib/utils';
+
+interface StepTextProps {
+  text: string;
+  system: MeasurementSystem; // the recipe's units (see RecipeDetailPage)
+  onStartTimer?: (minutes: number) => void;
+  className?: string;
+}
+
+function formatTemperature(celsius: number, system: MeasurementSystem): string {
+  const { value, unit } = formatQuantity(celsius, '°C', system);
+  return `${value}${unit}`;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 1) return `${Math.round(minutes * 60)} sec`;
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
+/**
+ * Step text with temperatures, gas marks, weights and tin sizes shown in
+ * the user's units, and durations as buttons that start a timer
+ */
+export default function StepText({ text, system, onStartTimer, className }: StepTextProps) {
+  const renderToken = (token: StepToken, index: number) => {
+    switch (token.type) {
+      case 'text':
+        return <React.Fragment key={index}>{token.text}</React.Fragment>;
+
+      case 'temperature':
+        return (
+          <span key={index} className="font-semibold" title={token.text}>
+            {formatTemperature(token.celsius, system)}{token.fan && ' fan'}
+          </span>
+        );
+
+      case 'gas-mark':
+        return (
+          <span key={index} className="font-semibold">
+            {token.text} ({formatTemperature(gasMarkToCelsius(token.mark), system)})
+          </span>
+        );
+
+      case 'quantity': {
+        const converted = formatQuantity(token.value, token.unit, system);
+        return (
+          <span key={index} className="font-semibold" title={token.text}>
+            {converted.value} {converted.unit}
+          </span>
+        );
+      }
+
+      case 'size': {
+        const converted = token.values.map(value => formatQuantity(value, token.unit, system));
+        return (
+          <span key={index} className="font-semibold" title={token.text}>
+            {converted.map(({ value }) => value).join(' x ')}{converted[0].unit}
+          </span>
+        );
+      }
+
+      case 'duration': {
+        if (!onStartTimer) {
+          return <span key={index} className="font-semibold">{token.text}</span>;
+        }
+        const minutes = token.maxMinutes ?? token.minutes;
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onStartTimer(minutes)}
+            className="inline-flex items-baseline gap-1 px-1.5 rounded bg-accent-100 text-accent-800 font-semibold hover:bg-accent-400 hover:text-white transition-colors"
+            aria-label={`Start a ${formatDuration(minutes)} timer`}
+          >
+            <Timer className="w-3.5 h-3.5 self-center" />
+            {token.text}
+          </button>
+        );
+      }
+    }
+  };
+
+  return <span className={cn(className)}>{parseStepText(text).map(renderToken)}</span>;
+}
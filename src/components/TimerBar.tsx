@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Timer, Pause, Play, Plus, X } from 'lucide-react';
+import { useTimers } from '@/contexts/TimerContext';
+import { formatTimerRemaining, getRemainingSecs, getTimerProgress, isTimerFinished, isTimerPaused } from '@/lib/timers';
+import { cn } from '@/lib/utils';
+
+/**
+ * Running cooking timers, shown under the header on every page
+ */
+export default function TimerBar() {
+  const { timers, now, pauseTimer, resumeTimer, extendTimer, removeTimer } = useTimers();
+
+  if (timers.length === 0) return null;
+
+  return (
+    <div className="border-t border-soft-grey bg-cream/80">
+      <ul className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex gap-2 overflow-x-auto" aria-label="Cooking timers">
+        {timers.map((timer) => {
+          const finished = isTimerFinished(timer, now);
+          const paused = isTimerPaused(timer);
+
+          return (
+            <li
+              key={timer.id}
+              className={cn(
+                'relative flex-shrink-0 flex items-center space-x-2 pl-3 pr-1 py-1 rounded-lg border overflow-hidden',
+                finished
+                  ? 'bg-primary-500 border-primary-500 text-white animate-pulse'
+                  : 'bg-white border-soft-grey text-dark-slate'
+              )}
+              role="timer"
+              aria-live={finished ? 'assertive' : 'off'}
+            >
+              <Timer className="w-4 h-4 flex-shrink-0" />
+              <div className="text-sm leading-tight">
+                {timer.recipeSlug ? (
+                  <Link href={`/recipes/${timer.recipeSlug}`} className="block font-medium hover:underline" title={timer.recipeTitle}>
+                    {timer.label}
+                  </Link>
+                ) : (
+                  <span className="block font-medium">{timer.label}</span>
+                )}
+                <span className="tabular-nums">
+                  {finished ? 'Done!' : formatTimerRemaining(getRemainingSecs(timer, now))}
+                  {paused && ' (paused)'}
+                </span>
+              </div>
+
+              {!finished && (
+                <button
+                  onClick={() => (paused ? resumeTimer(timer.id) : pauseTimer(timer.id))}
+                  className="p-1 rounded hover:bg-soft-grey transition-colors"
+                  aria-label={`${paused ? 'Resume' : 'Pause'} ${timer.label} timer`}
+                >
+                  {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                </button>
+              )}
+              <button
+                onClick={() => extendTimer(timer.id, 1)}
+                className={cn('p-1 rounded transition-colors', finished ? 'hover:bg-white/20' : 'hover:bg-soft-grey')}
+                aria-label={`Add a minute to ${timer.label} timer`}
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => removeTimer(timer.id)}
+                className={cn('p-1 rounded transition-colors', finished ? 'hover:bg-white/20' : 'hover:bg-soft-grey')}
+                aria-label={`${finished ? 'Dismiss' : 'Cancel'} ${timer.label} timer`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+
+              {!finished && (
+                <span
+                  className="absolute left-0 bottom-0 h-0.5 bg-accent-400 transition-all"
+                  style={{ width: `${getTimerProgress(timer, now) * 100}%` }}
+                  aria-hidden="true"
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,32 +1,155 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { UnitSystem } from '@/types/recipe';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import {
+  CookingProgress,
+  ImperialVariant,
+  MealSlot,
+  PlannedMeal,
+  Recipe,
+  RecipeCollection,
+  RecipeNotes,
+  ShoppingListRecipe,
+  UnitSystem,
+} from '@/types/recipe';
+import { toShoppingListRecipe } from '@/lib/shopping-list';
+import { getRecipeNutrition } from '@/lib/nutrition';
+import {
+  FavoriteChange,
+  applyFavoriteChanges,
+  fetchAccountFavorites,
+  pushFavoriteChange,
+  queueFavoriteChange,
+} from '@/lib/favorites';
+import {
+  deleteAccountCollection,
+  fetchAccountCollections,
+  mergeCollections,
+  moveCollectionItem,
+  pushCollection,
+} from '@/lib/collections';
+import {
+  canSyncRecipeNotes,
+  deleteAccountRecipeNotes,
+  emptyRecipeNotes,
+  fetchAccountRecipeNotes,
+  hasRecipeNotes,
+  mergeRecipeNotes,
+  pushRecipeNotes,
+  setNoteById,
+} from '@/lib/recipe-notes';
+import { getSupabaseClient, isRejectedByDatabase } from '@/lib/supabase';
+import { useAuth } from './AuthContext';
+
+// 'local' when signed out; 'pending' while changes wait to reach the account
+export type SyncStatus = 'local' | 'pending' | 'synced';
 
 interface AppContextType {
   unitSystem: UnitSystem;
   toggleUnitSystem: () => void;
+  imperialVariant: ImperialVariant;
+  setImperialVariant: (variant: ImperialVariant) => void;
   favorites: string[];
   addToFavorites: (recipeId: string) => void;
   removeFromFavorites: (recipeId: string) => void;
   isFavorite: (recipeId: string) => boolean;
+  favoritesSyncStatus: SyncStatus;
+  collections: RecipeCollection[];
+  createCollection: (name: string, recipeId?: string) => string;
+  updateCollection: (collectionId: string, changes: Partial<Pick<RecipeCollection, 'name' | 'description' | 'coverRecipeId'>>) => void;
+  deleteCollection: (collectionId: string) => void;
+  addToCollection: (collectionId: string, recipeId: string) => void;
+  removeFromCollection: (collectionId: string, recipeId: string) => void;
+  moveInCollection: (collectionId: string, recipeId: string, direction: -1 | 1) => void;
+  setCollectionNote: (collectionId: string, recipeId: string, note: string) => void;
+  shareCollection: (collectionId: string) => void;
+  unshareCollection: (collectionId: string) => void;
+  collectionsSyncStatus: SyncStatus;
+  recipeNotes: Record<string, RecipeNotes>;
+  setRecipeNote: (recipeId: string, note: string) => void;
+  setStepNote: (recipeId: string, stepId: string, note: string) => void;
+  setIngredientNote: (recipeId: string, ingredientId: string, note: string) => void;
+  setRecipeDefaults: (recipeId: string, defaults: Pick<RecipeNotes, 'servings' | 'unitSystem'>) => void;
+  recipeNotesSyncStatus: SyncStatus;
+  recentSearches: string[];
+  addRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+  shoppingList: ShoppingListRecipe[];
+  checkedShoppingItems: string[];
+  addToShoppingList: (entry: ShoppingListRecipe) => void;
+  removeFromShoppingList: (recipeId: string) => void;
+  updateShoppingListServings: (recipeId: string, servings: number) => void;
+  isInShoppingList: (recipeId: string) => boolean;
+  toggleShoppingItem: (key: string) => void;
+  clearShoppingList: () => void;
+  mealPlan: PlannedMeal[];
+  addToMealPlan: (recipe: Recipe, date: string, slot: MealSlot, servings: number) => void;
+  moveMeal: (mealId: string, date: string, slot: MealSlot) => void;
+  updateMealServings: (mealId: string, servings: number) => void;
+  removeFromMealPlan: (mealId: string) => void;
+  cookingProgress: Record<string, CookingProgress>;
+  updateCookingProgress: (recipeId: string, update: Partial<Omit<CookingProgress, 'updatedAt'>>) => void;
+  clearCookingProgress: (recipeId: string) => void;
 }
 
+const MAX_RECENT_SEARCHES = 5;
+
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export function AppProvider({ children }: { children: ReactNode }) {
+  const { user, loading: authLoading } = useAuth();
   const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
+  const [imperialVariant, setImperialVariant] = useState<ImperialVariant>('uk');
   const [favorites, setFavorites] = useState<string[]>([]);
+  // Favourite changes not yet synced, and the account the local favourites
+  // and collections belong to (null until the first sign-in on this device)
+  const [pendingFavoriteChanges, setPendingFavoriteChanges] = useState<FavoriteChange[]>([]);
+  const [syncedAccountId, setSyncedAccountId] = useState<string | null>(null);
+  const pendingFavoritesRef = useRef<FavoriteChange[]>([]);
+  const isSyncingFavorites = useRef(false);
+  // Collections, and the ids of those changed or deleted since the last sync
+  const [collections, setCollections] = useState<RecipeCollection[]>([]);
+  const [pendingCollectionIds, setPendingCollectionIds] = useState<string[]>([]);
+  const collectionsRef = useRef<RecipeCollection[]>([]);
+  const pendingCollectionsRef = useRef<string[]>([]);
+  const isSyncingCollections = useRef(false);
+  // Notes by recipe id, and the recipes whose notes changed since the last sync
+  const [recipeNotes, setRecipeNotesState] = useState<Record<string, RecipeNotes>>({});
+  const [pendingRecipeNoteIds, setPendingRecipeNoteIds] = useState<string[]>([]);
+  const recipeNotesRef = useRef<Record<string, RecipeNotes>>({});
+  const pendingRecipeNotesRef = useRef<string[]>([]);
+  const isSyncingRecipeNotes = useRef(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [shoppingList, setShoppingList] = useState<ShoppingListRecipe[]>([]);
+  const [checkedShoppingItems, setCheckedShoppingItems] = useState<string[]>([]);
+  const [mealPlan, setMealPlan] = useState<PlannedMeal[]>([]);
+  const [cookingProgress, setCookingProgress] = useState<Record<string, CookingProgress>>({});
 
   // Load preferences from localStorage on mount
   useEffect(() => {
     const savedUnitSystem = localStorage.getItem('unitSystem') as UnitSystem;
+    const savedImperialVariant = localStorage.getItem('imperialVariant') as ImperialVariant;
     const savedFavorites = localStorage.getItem('favorites');
+    const savedPendingFavoriteChanges = localStorage.getItem('pendingFavoriteChanges');
+    const savedSyncedAccountId = localStorage.getItem('syncedAccountId');
+    const savedCollections = localStorage.getItem('collections');
+    const savedPendingCollectionIds = localStorage.getItem('pendingCollectionIds');
+    const savedRecipeNotes = localStorage.getItem('recipeNotes');
+    const savedPendingRecipeNoteIds = localStorage.getItem('pendingRecipeNoteIds');
+    const savedRecentSearches = localStorage.getItem('recentSearches');
+    const savedShoppingList = localStorage.getItem('shoppingList');
+    const savedCheckedShoppingItems = localStorage.getItem('checkedShoppingItems');
+    const savedMealPlan = localStorage.getItem('mealPlan');
+    const savedCookingProgress = localStorage.getItem('cookingProgress');
 
     if (savedUnitSystem && (savedUnitSystem === 'metric' || savedUnitSystem === 'imperial')) {
       setUnitSystem(savedUnitSystem);
     }
 
+    if (savedImperialVariant === 'uk' || savedImperialVariant === 'us') {
+      setImperialVariant(savedImperialVariant);
+    }
+
     if (savedFavorites) {
       try {
         setFavorites(JSON.parse(savedFavorites));
@@ -34,6 +157,95 @@ export function AppProvider({ children }: { children: ReactNode }) {
         console.error('Error parsing saved favorites:', error);
       }
     }
+
+    if (savedPendingFavoriteChanges) {
+      try {
+        pendingFavoritesRef.current = JSON.parse(savedPendingFavoriteChanges);
+        setPendingFavoriteChanges(pendingFavoritesRef.current);
+      } catch (error) {
+        console.error('Error parsing unsynced favourites:', error);
+      }
+    }
+
+    if (savedSyncedAccountId) {
+      setSyncedAccountId(savedSyncedAccountId);
+    }
+
+    if (savedCollections) {
+      try {
+        collectionsRef.current = JSON.parse(savedCollections);
+        setCollections(collectionsRef.current);
+      } catch (error) {
+        console.error('Error parsing saved collections:', error);
+      }
+    }
+
+    if (savedPendingCollectionIds) {
+      try {
+        pendingCollectionsRef.current = JSON.parse(savedPendingCollectionIds);
+        setPendingCollectionIds(pendingCollectionsRef.current);
+      } catch (error) {
+        console.error('Error parsing unsynced collections:', error);
+      }
+    }
+
+    if (savedRecipeNotes) {
+      try {
+        recipeNotesRef.current = JSON.parse(savedRecipeNotes);
+        setRecipeNotesState(recipeNotesRef.current);
+      } catch (error) {
+        console.error('Error parsing saved recipe notes:', error);
+      }
+    }
+
+    if (savedPendingRecipeNoteIds) {
+      try {
+        pendingRecipeNotesRef.current = JSON.parse(savedPendingRecipeNoteIds);
+        setPendingRecipeNoteIds(pendingRecipeNotesRef.current);
+      } catch (error) {
+        console.error('Error parsing unsynced recipe notes:', error);
+      }
+    }
+
+    if (savedRecentSearches) {
+      try {
+        setRecentSearches(JSON.parse(savedRecentSearches));
+      } catch (error) {
+        console.error('Error parsing saved recent searches:', error);
+      }
+    }
+
+    if (savedShoppingList) {
+      try {
+        setShoppingList(JSON.parse(savedShoppingList));
+      } catch (error) {
+        console.error('Error parsing saved shopping list:', error);
+      }
+    }
+
+    if (savedCheckedShoppingItems) {
+      try {
+        setCheckedShoppingItems(JSON.parse(savedCheckedShoppingItems));
+      } catch (error) {
+        console.error('Error parsing saved shopping list ticks:', error);
+      }
+    }
+
+    if (savedMealPlan) {
+      try {
+        setMealPlan(JSON.parse(savedMealPlan));
+      } catch (error) {
+        console.error('Error parsing saved meal plan:', error);
+      }
+    }
+
+    if (savedCookingProgress) {
+      try {
+        setCookingProgress(JSON.parse(savedCookingProgress));
+      } catch (error) {
+        console.error('Error parsing saved cooking progress:', error);
+      }
+    }
   }, []);
 
   // Save preferences to localStorage when they change
@@ -41,40 +253,577 @@ export function AppProvider({ children }: { children: ReactNode }) {
     localStorage.setItem('unitSystem', unitSystem);
   }, [unitSystem]);
 
+  useEffect(() => {
+    localStorage.setItem('imperialVariant', imperialVariant);
+  }, [imperialVariant]);
+
   useEffect(() => {
     localStorage.setItem('favorites', JSON.stringify(favorites));
   }, [favorites]);
 
+  useEffect(() => {
+    localStorage.setItem('pendingFavoriteChanges', JSON.stringify(pendingFavoriteChanges));
+  }, [pendingFavoriteChanges]);
+
+  useEffect(() => {
+    if (syncedAccountId) {
+      localStorage.setItem('syncedAccountId', syncedAccountId);
+    } else {
+      localStorage.removeItem('syncedAccountId');
+    }
+  }, [syncedAccountId]);
+
+  useEffect(() => {
+    localStorage.setItem('recentSearches', JSON.stringify(recentSearches));
+  }, [recentSearches]);
+
+  useEffect(() => {
+    localStorage.setItem('collections', JSON.stringify(collections));
+  }, [collections]);
+
+  useEffect(() => {
+    localStorage.setItem('pendingCollectionIds', JSON.stringify(pendingCollectionIds));
+  }, [pendingCollectionIds]);
+
+  useEffect(() => {
+    localStorage.setItem('recipeNotes', JSON.stringify(recipeNotes));
+  }, [recipeNotes]);
+
+  useEffect(() => {
+    localStorage.setItem('pendingRecipeNoteIds', JSON.stringify(pendingRecipeNoteIds));
+  }, [pendingRecipeNoteIds]);
+
+  useEffect(() => {
+    localStorage.setItem('shoppingList', JSON.stringify(shoppingList));
+  }, [shoppingList]);
+
+  useEffect(() => {
+    localStorage.setItem('checkedShoppingItems', JSON.stringify(checkedShoppingItems));
+  }, [checkedShoppingItems]);
+
+  useEffect(() => {
+    localStorage.setItem('mealPlan', JSON.stringify(mealPlan));
+  }, [mealPlan]);
+
+  useEffect(() => {
+    localStorage.setItem('cookingProgress', JSON.stringify(cookingProgress));
+  }, [cookingProgress]);
+
   const toggleUnitSystem = () => {
     setUnitSystem(prev => prev === 'metric' ? 'imperial' : 'metric');
   };
 
-  const addToFavorites = (recipeId: string) => {
-    setFavorites(prev => {
-      if (!prev.includes(recipeId)) {
-        return [...prev, recipeId];
+  // The ref is what syncing reads, so changes made mid-sync aren't lost
+  const setPendingFavorites = (changes: FavoriteChange[]) => {
+    pendingFavoritesRef.current = changes;
+    setPendingFavoriteChanges(changes);
+  };
+
+  // Send queued changes one at a time, then load the account's favourites
+  // with anything still queued on top, until nothing more was queued. A
+  // change another device made later wins, and changes to recipes that
+  // don't exist are skipped (see set_favorite in sql/schema.sql). Changes the
+  // database rejects are dropped so they can't hold up the queue; other
+  // failures stay queued and are retried on the next sync.
+  const syncFavorites = useCallback(async () => {
+    if (!user || isSyncingFavorites.current) return;
+    isSyncingFavorites.current = true;
+
+    const client = getSupabaseClient();
+    try {
+      do {
+        let change: FavoriteChange | undefined;
+        while ((change = pendingFavoritesRef.current[0])) {
+          const sent = change;
+          try {
+            await pushFavoriteChange(client, sent);
+          } catch (error) {
+            if (!isRejectedByDatabase(error)) throw error;
+            console.error(`Dropping favourite change for recipe ${sent.recipeId}:`, error);
+          }
+          setPendingFavorites(pendingFavoritesRef.current.filter(item => item !== sent));
+        }
+
+        const accountFavorites = await fetchAccountFavorites(client, user.id);
+        setFavorites(applyFavoriteChanges(accountFavorites, pendingFavoritesRef.current));
+      } while (pendingFavoritesRef.current.length > 0);
+    } catch (error) {
+      console.error('Error syncing favourites:', error);
+    } finally {
+      isSyncingFavorites.current = false;
+    }
+  }, [user]);
+
+  // Like favourites, collections are updated through refs so a sync in
+  // progress always sees the latest local state
+  const changeCollections = (update: (prev: RecipeCollection[]) => RecipeCollection[]) => {
+    collectionsRef.current = update(collectionsRef.current);
+    setCollections(collectionsRef.current);
+  };
+
+  const setPendingCollections = (ids: string[]) => {
+    pendingCollectionsRef.current = ids;
+    setPendingCollectionIds(ids);
+  };
+
+  // Save or delete each changed collection, then load the account's
+  // collections with local changes still pending on top. A collection
+  // changed again while it was being sent goes back in the queue. The later
+  // change to a collection wins (see save_collection in sql/schema.sql), and
+  // as with favourites, changes the database rejects are dropped.
+  const syncCollections = useCallback(async () => {
+    if (!user || isSyncingCollections.current) return;
+    isSyncingCollections.current = true;
+
+    const client = getSupabaseClient();
+    try {
+      do {
+        let collectionId: string | undefined;
+        while ((collectionId = pendingCollectionsRef.current[0])) {
+          const id = collectionId;
+          const sent = collectionsRef.current.find(collection => collection.id === id);
+          try {
+            if (sent) {
+              await pushCollection(client, sent);
+            } else {
+              await deleteAccountCollection(client, id);
+            }
+          } catch (error) {
+            if (!isRejectedByDatabase(error)) throw error;
+            console.error(`Dropping change to collection ${id}:`, error);
+          }
+
+          const rest = pendingCollectionsRef.current.filter(item => item !== id);
+          const current = collectionsRef.current.find(collection => collection.id === id);
+          setPendingCollections(current !== sent ? [...rest, id] : rest);
+        }
+
+        const accountCollections = await fetchAccountCollections(client, user.id);
+        changeCollections(local => mergeCollections(accountCollections, local, pendingCollectionsRef.current));
+      } while (pendingCollectionsRef.current.length > 0);
+    } catch (error) {
+      console.error('Error syncing collections:', error);
+    } finally {
+      isSyncingCollections.current = false;
+    }
+  }, [user]);
+
+  // Recipe notes sync like collections, one recipe's notes at a time. Notes
+  // that can't be synced, or that the database rejects, leave the queue so
+  // they can't hold up the rest.
+  const changeAllRecipeNotes = (update: (prev: Record<string, RecipeNotes>) => Record<string, RecipeNotes>) => {
+    recipeNotesRef.current = update(recipeNotesRef.current);
+    setRecipeNotesState(recipeNotesRef.current);
+  };
+
+  const setPendingRecipeNotes = (ids: string[]) => {
+    pendingRecipeNotesRef.current = ids;
+    setPendingRecipeNoteIds(ids);
+  };
+
+  const syncRecipeNotes = useCallback(async () => {
+    if (!user || isSyncingRecipeNotes.current) return;
+    isSyncingRecipeNotes.current = true;
+
+    const client = getSupabaseClient();
+    try {
+      do {
+        let recipeId: string | undefined;
+        while ((recipeId = pendingRecipeNotesRef.current[0])) {
+          const id = recipeId;
+          const sent = recipeNotesRef.current[id];
+          try {
+            // Notes that can't be synced just stay on this device
+            if (canSyncRecipeNotes(id)) {
+              if (sent) {
+                await pushRecipeNotes(client, sent);
+              } else {
+                await deleteAccountRecipeNotes(client, id);
+              }
+            }
+          } catch (error) {
+            if (!isRejectedByDatabase(error)) throw error;
+            console.error(`Dropping notes change for recipe ${id}:`, error);
+          }
+
+          const rest = pendingRecipeNotesRef.current.filter(item => item !== id);
+          setPendingRecipeNotes(recipeNotesRef.current[id] !== sent ? [...rest, id] : rest);
+        }
+
+        const accountNotes = await fetchAccountRecipeNotes(client, user.id);
+        changeAllRecipeNotes(local => mergeRecipeNotes(accountNotes, local, pendingRecipeNotesRef.current));
+      } while (pendingRecipeNotesRef.current.length > 0);
+    } catch (error) {
+      console.error('Error syncing recipe notes:', error);
+    } finally {
+      isSyncingRecipeNotes.current = false;
+    }
+  }, [user]);
+
+  // Signing in for the first time on this device adds the favourites,
+  // collections and notes saved while signed out to the account. Signing out
+  // leaves none behind.
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!user) {
+      if (syncedAccountId) {
+        setFavorites([]);
+        setPendingFavorites([]);
+        changeCollections(() => []);
+        setPendingCollections([]);
+        changeAllRecipeNotes(() => ({}));
+        setPendingRecipeNotes([]);
+        setSyncedAccountId(null);
       }
-      return prev;
-    });
+      return;
+    }
+
+    if (syncedAccountId !== user.id) {
+      const changedAt = new Date().toISOString();
+      setPendingFavorites(favorites.reduce(
+        (queue, recipeId) => queueFavoriteChange(queue, { recipeId, favorite: true, changedAt }),
+        pendingFavoritesRef.current
+      ));
+      setPendingCollections(collectionsRef.current.map(collection => collection.id));
+      setPendingRecipeNotes(Object.keys(recipeNotesRef.current).filter(canSyncRecipeNotes));
+      setSyncedAccountId(user.id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- runs when the user changes, not on every favourite
+  }, [user, authLoading]);
+
+  // Catch up with other devices whenever the page comes back into view or
+  // the connection returns
+  useEffect(() => {
+    if (!user || syncedAccountId !== user.id) return;
+
+    const syncAccount = () => {
+      syncFavorites();
+      syncCollections();
+      syncRecipeNotes();
+    };
+    syncAccount();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') syncAccount();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('online', syncAccount);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('online', syncAccount);
+    };
+  }, [user, syncedAccountId, syncFavorites, syncCollections, syncRecipeNotes]);
+
+  // Favourites change on screen straight away; signed in, the change is
+  // queued and sent in the background
+  const changeFavorite = (recipeId: string, favorite: boolean) => {
+    setFavorites(prev => applyFavoriteChanges(prev, [{ recipeId, favorite, changedAt: '' }]));
+
+    if (user) {
+      setPendingFavorites(queueFavoriteChange(pendingFavoritesRef.current, {
+        recipeId,
+        favorite,
+        changedAt: new Date().toISOString(),
+      }));
+      syncFavorites();
+    }
+  };
+
+  const addToFavorites = (recipeId: string) => {
+    changeFavorite(recipeId, true);
   };
 
   const removeFromFavorites = (recipeId: string) => {
-    setFavorites(prev => prev.filter(id => id !== recipeId));
+    changeFavorite(recipeId, false);
   };
 
   const isFavorite = (recipeId: string) => {
     return favorites.includes(recipeId);
   };
 
+  const favoritesSyncStatus: SyncStatus = !user
+    ? 'local'
+    : pendingFavoriteChanges.length > 0 ? 'pending' : 'synced';
+
+  // Collection changes show straight away; signed in, the collection is
+  // queued and saved to the account in the background
+  const changeCollection = (collectionId: string, update: (collection: RecipeCollection) => RecipeCollection) => {
+    changeCollections(prev => prev.map(collection =>
+      collection.id === collectionId
+        ? { ...update(collection), updatedAt: new Date().toISOString() }
+        : collection
+    ));
+    queueCollectionSync(collectionId);
+  };
+
+  const queueCollectionSync = (collectionId: string) => {
+    if (!user) return;
+    if (!pendingCollectionsRef.current.includes(collectionId)) {
+      setPendingCollections([...pendingCollectionsRef.current, collectionId]);
+    }
+    syncCollections();
+  };
+
+  const createCollection = (name: string, recipeId?: string) => {
+    const now = new Date().toISOString();
+    const collection: RecipeCollection = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      items: recipeId ? [{ recipeId, addedAt: now }] : [],
+      updatedAt: now,
+    };
+
+    changeCollections(prev => [...prev, collection]);
+    queueCollectionSync(collection.id);
+    return collection.id;
+  };
+
+  const updateCollection = (
+    collectionId: string,
+    changes: Partial<Pick<RecipeCollection, 'name' | 'description' | 'coverRecipeId'>>
+  ) => {
+    changeCollection(collectionId, collection => ({ ...collection, ...changes }));
+  };
+
+  const deleteCollection = (collectionId: string) => {
+    changeCollections(prev => prev.filter(collection => collection.id !== collectionId));
+    queueCollectionSync(collectionId);
+  };
+
+  const addToCollection = (collectionId: string, recipeId: string) => {
+    changeCollection(collectionId, collection =>
+      collection.items.some(item => item.recipeId === recipeId)
+        ? collection
+        : { ...collection, items: [...collection.items, { recipeId, addedAt: new Date().toISOString() }] }
+    );
+  };
+
+  const removeFromCollection = (collectionId: string, recipeId: string) => {
+    changeCollection(collectionId, collection => ({
+      ...collection,
+      items: collection.items.filter(item => item.recipeId !== recipeId),
+      coverRecipeId: collection.coverRecipeId === recipeId ? undefined : collection.coverRecipeId,
+    }));
+  };
+
+  const moveInCollection = (collectionId: string, recipeId: string, direction: -1 | 1) => {
+    changeCollection(collectionId, collection => ({
+      ...collection,
+      items: moveCollectionItem(collection.items, recipeId, direction),
+    }));
+  };
+
+  const setCollectionNote = (collectionId: string, recipeId: string, note: string) => {
+    changeCollection(collectionId, collection => ({
+      ...collection,
+      items: collection.items.map(item =>
+        item.recipeId === recipeId ? { ...item, note: note.trim() || undefined } : item
+      ),
+    }));
+  };
+
+  // Share links only work once the collection is saved to an account
+  const shareCollection = (collectionId: string) => {
+    changeCollection(collectionId, collection => ({
+      ...collection,
+      shareToken: collection.shareToken ?? crypto.randomUUID(),
+    }));
+  };
+
+  const unshareCollection = (collectionId: string) => {
+    changeCollection(collectionId, collection => ({ ...collection, shareToken: undefined }));
+  };
+
+  const collectionsSyncStatus: SyncStatus = !user
+    ? 'local'
+    : pendingCollectionIds.length > 0 ? 'pending' : 'synced';
+
+  // Notes change on screen straight away; signed in, they are queued and
+  // saved to the account in the background. Notes left empty are removed.
+  const changeRecipeNotes = (recipeId: string, update: (notes: RecipeNotes) => RecipeNotes) => {
+    changeAllRecipeNotes(prev => {
+      const next = { ...prev };
+      const changed = { ...update(prev[recipeId] ?? emptyRecipeNotes(recipeId)), updatedAt: new Date().toISOString() };
+      if (hasRecipeNotes(changed)) {
+        next[recipeId] = changed;
+      } else {
+        delete next[recipeId];
+      }
+      return next;
+    });
+
+    if (!user) return;
+    if (!pendingRecipeNotesRef.current.includes(recipeId)) {
+      setPendingRecipeNotes([...pendingRecipeNotesRef.current, recipeId]);
+    }
+    syncRecipeNotes();
+  };
+
+  const setRecipeNote = (recipeId: string, note: string) => {
+    changeRecipeNotes(recipeId, notes => ({ ...notes, note: note.trim() || undefined }));
+  };
+
+  const setStepNote = (recipeId: string, stepId: string, note: string) => {
+    changeRecipeNotes(recipeId, notes => ({ ...notes, stepNotes: setNoteById(notes.stepNotes, stepId, note) }));
+  };
+
+  const setIngredientNote = (recipeId: string, ingredientId: string, note: string) => {
+    changeRecipeNotes(recipeId, notes => ({
+      ...notes,
+      ingredientNotes: setNoteById(notes.ingredientNotes, ingredientId, note),
+    }));
+  };
+
+  // Pass undefined to forget a saved default
+  const setRecipeDefaults = (recipeId: string, defaults: Pick<RecipeNotes, 'servings' | 'unitSystem'>) => {
+    changeRecipeNotes(recipeId, notes => ({ ...notes, ...defaults }));
+  };
+
+  const recipeNotesSyncStatus: SyncStatus = !user
+    ? 'local'
+    : pendingRecipeNoteIds.length > 0 ? 'pending' : 'synced';
+
+  const addRecentSearch = (query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    setRecentSearches(prev => [
+      trimmed,
+      ...prev.filter(item => item.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, MAX_RECENT_SEARCHES));
+  };
+
+  const clearRecentSearches = () => {
+    setRecentSearches([]);
+  };
+
+  // Adding a recipe that is already on the list updates its servings
+  const addToShoppingList = (entry: ShoppingListRecipe) => {
+    setShoppingList(prev =>
+      prev.some(item => item.recipeId === entry.recipeId)
+        ? prev.map(item => (item.recipeId === entry.recipeId ? entry : item))
+        : [...prev, entry]
+    );
+  };
+
+  const removeFromShoppingList = (recipeId: string) => {
+    setShoppingList(prev => prev.filter(item => item.recipeId !== recipeId));
+  };
+
+  const updateShoppingListServings = (recipeId: string, servings: number) => {
+    setShoppingList(prev => prev.map(item =>
+      item.recipeId === recipeId ? { ...item, servings: Math.max(1, servings) } : item
+    ));
+  };
+
+  const isInShoppingList = (recipeId: string) => {
+    return shoppingList.some(item => item.recipeId === recipeId);
+  };
+
+  const toggleShoppingItem = (key: string) => {
+    setCheckedShoppingItems(prev =>
+      prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]
+    );
+  };
+
+  const clearShoppingList = () => {
+    setShoppingList([]);
+    setCheckedShoppingItems([]);
+  };
+
+  const addToMealPlan = (recipe: Recipe, date: string, slot: MealSlot, servings: number) => {
+    setMealPlan(prev => [
+      ...prev,
+      {
+        id: `${recipe.id}-${Date.now()}`,
+        date,
+        slot,
+        ...toShoppingListRecipe(recipe, servings),
+        prepTimeMins: recipe.prepTimeMins,
+        cookTimeMins: recipe.cookTimeMins,
+        nutrition: getRecipeNutrition(recipe, servings)?.perServing,
+      },
+    ]);
+  };
+
+  const moveMeal = (mealId: string, date: string, slot: MealSlot) => {
+    setMealPlan(prev => prev.map(meal => (meal.id === mealId ? { ...meal, date, slot } : meal)));
+  };
+
+  const updateMealServings = (mealId: string, servings: number) => {
+    setMealPlan(prev => prev.map(meal =>
+      meal.id === mealId ? { ...meal, servings: Math.max(1, servings) } : meal
+    ));
+  };
+
+  const removeFromMealPlan = (mealId: string) => {
+    setMealPlan(prev => prev.filter(meal => meal.id !== mealId));
+  };
+
+  const updateCookingProgress = (recipeId: string, update: Partial<Omit<CookingProgress, 'updatedAt'>>) => {
+    setCookingProgress(prev => {
+      const current = prev[recipeId] ?? { currentStep: 0, checkedSteps: [], checkedIngredients: [] };
+      return { ...prev, [recipeId]: { ...current, ...update, updatedAt: new Date().toISOString() } };
+    });
+  };
+
+  const clearCookingProgress = (recipeId: string) => {
+    setCookingProgress(prev => {
+      const next = { ...prev };
+      delete next[recipeId];
+      return next;
+    });
+  };
+
   return (
     <AppContext.Provider
       value={{
         unitSystem,
         toggleUnitSystem,
+        imperialVariant,
+        setImperialVariant,
         favorites,
         addToFavorites,
         removeFromFavorites,
         isFavorite,
+        favoritesSyncStatus,
+        collections,
+        createCollection,
+        updateCollection,
+        deleteCollection,
+        addToCollection,
+        removeFromCollection,
+        moveInCollection,
+        setCollectionNote,
+        shareCollection,
+        unshareCollection,
+        collectionsSyncStatus,
+        recipeNotes,
+        setRecipeNote,
+        setStepNote,
+        setIngredientNote,
+        setRecipeDefaults,
+        recipeNotesSyncStatus,
+        recentSearches,
+        addRecentSearch,
+        clearRecentSearches,
+        shoppingList,
+        checkedShoppingItems,
+        addToShoppingList,
+        removeFromShoppingList,
+        updateShoppingListServings,
+        isInShoppingList,
+        toggleShoppingItem,
+        clearShoppingList,
+        mealPlan,
+        addToMealPlan,
+        moveMeal,
+        updateMealServings,
+        removeFromMealPlan,
+        cookingProgress,
+        updateCookingProgress,
+        clearCookingProgress,
       }}
     >
       {children}
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { User } from '@supabase/supabase-js';
+import { getSupabaseClient, isSupabaseConfigured } from '@/lib/supabase';
+import { getRecipeDataSource } from '@/lib/repositories';
+
+interface AuthContextType {
+  // Accounts need Supabase, and recipes from it (http or supabase data
+  // source) since favourites refer to recipes by their database id
+  isAvailable: boolean;
+  user: User | null;
+  loading: boolean; // true until the saved session has been checked
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string, fullName: string) => Promise<{ needsConfirmation: boolean }>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+function checkAvailable(): boolean {
+  return isSupabaseConfigured() && getRecipeDataSource() !== 'json';
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [isAvailable] = useState(checkAvailable);
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(isAvailable);
+
+  useEffect(() => {
+    if (!isAvailable) return;
+
+    const client = getSupabaseClient();
+
+    client.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = client.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [isAvailable]);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await getSupabaseClient().auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  // Profiles are created by the on_auth_user_created trigger, which reads
+  // full_name from the sign-up metadata
+  const signUp = async (email: string, password: string, fullName: string) => {
+    const { data, error } = await getSupabaseClient().auth.signUp({
+      email,
+      password,
+      options: { data: { full_name: fullName } },
+    });
+    if (error) throw error;
+    return { needsConfirmation: !data.session };
+  };
+
+  const signOut = async () => {
+    const { error } = await getSupabaseClient().auth.signOut();
+    if (error) throw error;
+  };
+
+  return (
+    <AuthContext.Provider value={{ isAvailable, user, loading, signIn, signUp, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,102 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { act, render } from '@testing-library/react';
+import { CookingTimer } from '@/types/recipe';
+import { createTimer, getRemainingSecs } from '@/lib/timers';
+import { TimerProvider, useTimers } from './TimerContext';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const vibrate = jest.fn(() => true);
+
+// Latest context value, for driving the provider from the tests
+let timerContext: ReturnType<typeof useTimers>;
+
+function Probe() {
+  timerContext = useTimers();
+  return null;
+}
+
+const renderProvider = () => render(<TimerProvider><Probe /></TimerProvider>);
+
+const savedTimers = (): CookingTimer[] => JSON.parse(localStorage.getItem('timers') ?? '[]');
+
+const remainingSecs = () => getRemainingSecs(timerContext.timers[0], Date.now());
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2024-09-10T18:00:00Z') });
+  localStorage.clear();
+  vibrate.mockClear();
+  // Stands in for the alert; jsdom has no sound or notifications
+  Object.defineProperty(navigator, 'vibrate', { value: vibrate, configurable: true });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('TimerProvider', () => {
+  it('alerts once when a timer finishes', () => {
+    renderProvider();
+    act(() => timerContext.startTimer('Boil the eggs', 1));
+
+    act(() => jest.advanceTimersByTime(59 * SECOND));
+    expect(vibrate).not.toHaveBeenCalled();
+
+    act(() => jest.advanceTimersByTime(SECOND));
+    expect(vibrate).toHaveBeenCalledTimes(1);
+
+    act(() => jest.advanceTimersByTime(MINUTE));
+    expect(vibrate).toHaveBeenCalledTimes(1);
+    expect(savedTimers()[0].alerted).toBe(true);
+  });
+
+  it('pauses, resumes and extends a timer', () => {
+    renderProvider();
+    act(() => timerContext.startTimer('Simmer', 5));
+    const timerId = timerContext.timers[0].id;
+
+    act(() => jest.advanceTimersByTime(MINUTE));
+    act(() => timerContext.pauseTimer(timerId));
+    act(() => jest.advanceTimersByTime(10 * MINUTE));
+    expect(remainingSecs()).toBe(240);
+    expect(vibrate).not.toHaveBeenCalled();
+
+    act(() => timerContext.resumeTimer(timerId));
+    act(() => timerContext.extendTimer(timerId, 1));
+    expect(remainingSecs()).toBe(300);
+
+    act(() => jest.advanceTimersByTime(5 * MINUTE));
+    expect(vibrate).toHaveBeenCalledTimes(1);
+  });
+
+  it('alerts once after a reload for a timer that ran out while the page was closed', () => {
+    const timer = createTimer('Roast', 5, Date.now() - 10 * MINUTE);
+    localStorage.setItem('timers', JSON.stringify([timer]));
+
+    const { unmount } = renderProvider();
+    expect(vibrate).toHaveBeenCalledTimes(1);
+    expect(savedTimers()).toEqual([{ ...timer, alerted: true }]);
+    unmount();
+
+    renderProvider();
+    act(() => jest.advanceTimersByTime(MINUTE));
+    expect(vibrate).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps counting a running timer across a reload', () => {
+    const { unmount } = renderProvider();
+    act(() => timerContext.startTimer('Bake', 20));
+    act(() => jest.advanceTimersByTime(5 * MINUTE));
+    unmount();
+
+    act(() => jest.advanceTimersByTime(5 * MINUTE));
+    renderProvider();
+    expect(remainingSecs()).toBe(10 * 60);
+    expect(vibrate).not.toHaveBeenCalled();
+  });
+});
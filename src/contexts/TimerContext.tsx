@@ -0,0 +1,156 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { CookingTimer } from '@/types/recipe';
+import {
+  createTimer,
+  extendTimer as extendCookingTimer,
+  isTimerFinished,
+  pauseTimer as pauseCookingTimer,
+  resumeTimer as resumeCookingTimer,
+} from '@/lib/timers';
+
+interface TimerContextType {
+  timers: CookingTimer[];
+  now: number; // updated every second while a timer is running
+  startTimer: (label: string, minutes: number, recipe?: { slug: string; title: string }) => void;
+  pauseTimer: (timerId: string) => void;
+  resumeTimer: (timerId: string) => void;
+  extendTimer: (timerId: string, minutes: number) => void;
+  removeTimer: (timerId: string) => void;
+}
+
+const TimerContext = createContext<TimerContextType | undefined>(undefined);
+
+/**
+ * Three short beeps. Browsers only allow sound after the user has
+ * interacted with the page, which starting a timer does.
+ */
+function playAlertSound() {
+  const AudioContextClass = window.AudioContext
+    ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+
+  try {
+    const audio = new AudioContextClass();
+    [0, 0.4, 0.8].forEach(offset => {
+      const oscillator = audio.createOscillator();
+      const gain = audio.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.2;
+      oscillator.connect(gain);
+      gain.connect(audio.destination);
+      oscillator.start(audio.currentTime + offset);
+      oscillator.stop(audio.currentTime + offset + 0.25);
+    });
+    setTimeout(() => audio.close(), 1500);
+  } catch (error) {
+    console.error('Error playing timer alert:', error);
+  }
+}
+
+function showTimerNotification(timer: CookingTimer) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  new Notification(`${timer.label} is done`, {
+    body: timer.recipeTitle ? `Timer for ${timer.recipeTitle}` : undefined,
+    tag: timer.id,
+  });
+}
+
+export function TimerProvider({ children }: { children: ReactNode }) {
+  const [timers, setTimers] = useState<CookingTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Load timers from localStorage on mount
+  useEffect(() => {
+    const savedTimers = localStorage.getItem('timers');
+
+    if (savedTimers) {
+      try {
+        setTimers(JSON.parse(savedTimers));
+      } catch (error) {
+        console.error('Error parsing saved timers:', error);
+      }
+    }
+  }, []);
+
+  // Save timers to localStorage when they change
+  useEffect(() => {
+    localStorage.setItem('timers', JSON.stringify(timers));
+  }, [timers]);
+
+  // Tick once a second while any timer is counting down
+  const isCounting = timers.some(timer => timer.endsAt !== null && !timer.alerted);
+  useEffect(() => {
+    if (!isCounting) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isCounting]);
+
+  // Alert once for each timer that has finished, including any that ran
+  // out while the page was closed
+  useEffect(() => {
+    const finished = timers.filter(timer => !timer.alerted && isTimerFinished(timer, now));
+    if (finished.length === 0) return;
+
+    playAlertSound();
+    navigator.vibrate?.([300, 100, 300]);
+    finished.forEach(showTimerNotification);
+    setTimers(prev => prev.map(timer => finished.some(({ id }) => id === timer.id) ? { ...timer, alerted: true } : timer));
+  }, [timers, now]);
+
+  const updateTimer = (timerId: string, update: (timer: CookingTimer) => CookingTimer) => {
+    setTimers(prev => prev.map(timer => timer.id === timerId ? update(timer) : timer));
+  };
+
+  const startTimer = (label: string, minutes: number, recipe?: { slug: string; title: string }) => {
+    // Ask while we have a user gesture; the alert falls back to sound if refused
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => undefined);
+    }
+    const timer = createTimer(label, minutes, Date.now(), recipe);
+    setNow(Date.now());
+    setTimers(prev => [...prev, timer]);
+  };
+
+  const pauseTimer = (timerId: string) => {
+    updateTimer(timerId, timer => pauseCookingTimer(timer, Date.now()));
+  };
+
+  const resumeTimer = (timerId: string) => {
+    updateTimer(timerId, timer => resumeCookingTimer(timer, Date.now()));
+  };
+
+  const extendTimer = (timerId: string, minutes: number) => {
+    updateTimer(timerId, timer => extendCookingTimer(timer, minutes, Date.now()));
+  };
+
+  const removeTimer = (timerId: string) => {
+    setTimers(prev => prev.filter(timer => timer.id !== timerId));
+  };
+
+  return (
+    <TimerContext.Provider
+      value={{
+        timers,
+        now,
+        startTimer,
+        pauseTimer,
+        resumeTimer,
+        extendTimer,
+        removeTimer,
+      }}
+    >
+      {children}
+    </TimerContext.Provider>
+  );
+}
+
+export function useTimers() {
+  const context = useContext(TimerContext);
+  if (context === undefined) {
+    throw new Error('useTimers must be used within a TimerProvider');
+  }
+  return context;
+}
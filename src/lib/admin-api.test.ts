@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+type Row = Record<string, unknown>;
+type Handler = (req: unknown, res: unknown) => Promise<unknown>;
+
+const USER_ID = '00000000-0000-4000-8000-00000000000a';
+
+// Rows written to each table by the fake database
+let tables: Record<string, Row[]> = {};
+let nextId = 0;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Stands in for PostgREST: an insert fills the columns a row leaves out with
+ * NULL, or with the column default (a new id) when the request asks for
+ * missing=default. Ids can't be NULL.
+ */
+function insertRows(table: string, url: URL, headers: Headers, body: Row | Row[]): Response {
+  const columns = url.searchParams.get('columns')?.split(',').map(column => column.replace(/"/g, ''));
+  const useDefaults = headers.get('Prefer')?.includes('missing=default');
+
+  const rows = (Array.isArray(body) ? body : [body]).map(values => {
+    const row: Row = { ...values };
+    for (const column of columns ?? []) {
+      if (!(column in row)) row[column] = useDefaults ? undefined : null;
+    }
+    if (row.id === undefined) row.id = `generated-${++nextId}`;
+    return row;
+  });
+
+  if (rows.some(row => row.id === null)) {
+    return json({ code: '23502', message: `null value in column "id" of relation "${table}"` }, 400);
+  }
+
+  tables[table] = [...(tables[table] ?? []), ...rows];
+  const single = headers.get('Accept')?.includes('vnd.pgrst.object');
+  return json(single ? rows[0] : rows, 201);
+}
+
+async function fetchFromDatabase(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(String(input));
+  const headers = new Headers(init?.headers);
+
+  if (url.pathname === '/auth/v1/user') return json({ id: USER_ID, aud: 'authenticated' });
+
+  const table = url.pathname.replace('/rest/v1/', '');
+  if (init?.method === 'POST') return insertRows(table, url, headers, JSON.parse(String(init.body)));
+  if (table === 'profiles') return json({ is_admin: true, is_moderator: false });
+  if (table === 'recipes') return json({ code: 'PGRST116', message: 'No rows found' }, 406);
+  return json([]);
+}
+
+async function callApi(handler: Handler, body: unknown) {
+  let status = 200;
+  let result: unknown = null;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json(data: unknown) {
+      result = data;
+      return res;
+    },
+  };
+
+  await handler({ method: 'POST', headers: { authorization: 'Bearer token' }, body }, res);
+  return { status, body: result };
+}
+
+const recipe = {
+  title: 'Roast Chicken',
+  slug: 'roast-chicken',
+  description: 'Sunday lunch',
+  cuisine: 'British',
+  difficulty: 'Easy',
+  prep_time_mins: 15,
+  cook_time_mins: 90,
+  base_servings: 4,
+};
+
+let createRecipe: Handler;
+
+beforeAll(async () => {
+  process.env.SUPABASE_URL = 'http://localhost:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+  jest.spyOn(globalThis, 'fetch').mockImplementation(fetchFromDatabase);
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  createRecipe = (await import('../../api/admin/create-recipe')).default;
+});
+
+beforeEach(() => {
+  tables = {};
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('POST /api/admin/create-recipe', () => {
+  it('creates a recipe whose ingredients and steps were sent without ids', async () => {
+    const { status } = await callApi(createRecipe, {
+      recipe,
+      ingredients: [
+        { ingredient_name: 'Chicken', quantity: 1.5, unit: 'kg' },
+        { ingredient_name: 'Salt and pepper', notes: 'to taste' },
+      ],
+      steps: [{ instruction: 'Roast the chicken.' }],
+    });
+
+    expect(status).toBe(201);
+    expect(tables.recipe_ingredients.map(row => row.ingredient_name)).toEqual(['Chicken', 'Salt and pepper']);
+    expect(tables.recipe_ingredients.every(row => typeof row.id === 'string')).toBe(true);
+    expect(tables.recipe_steps).toHaveLength(1);
+  });
+
+  it('keeps the ids it was sent, alongside lines without one', async () => {
+    const chickenId = '00000000-0000-4000-8000-0000000000c1';
+    const { status } = await callApi(createRecipe, {
+      recipe,
+      ingredients: [
+        { id: chickenId, ingredient_name: 'Chicken', quantity: 1.5, unit: 'kg' },
+        { ingredient_name: 'Lemon', quantity: 1 },
+      ],
+      steps: [{ instruction: 'Roast the chicken.', ingredients: [{ recipe_ingredient_id: chickenId }] }],
+    });
+
+    expect(status).toBe(201);
+    expect(tables.recipe_ingredients[0].id).toBe(chickenId);
+    expect(tables.recipe_step_ingredients).toEqual([
+      expect.objectContaining({ step_id: tables.recipe_steps[0].id, recipe_ingredient_id: chickenId }),
+    ]);
+  });
+});
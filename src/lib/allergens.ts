@@ -0,0 +1,111 @@
+import { Allergen, Diet, Ingredient, Recipe } from '@/types/recipe';
+import { INGREDIENT_CATALOGUE, findCatalogueIngredient, isPantryStaple } from './ingredients';
+import { getAllIngredients } from './sections';
+import { ALLERGENS } from './taxonomy';
+
+export type DietaryCheck = 'vegetarian' | 'vegan' | 'gluten-free';
+
+export const DIETARY_CHECKS: { value: DietaryCheck; label: string }[] = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'gluten-free', label: 'Gluten free' },
+];
+
+export type Suitability = 'suitable' | 'unsuitable' | 'unknown';
+
+export interface DietarySuitability {
+  check: DietaryCheck;
+  status: Suitability; // unknown when nothing rules it out but some lines weren't recognised
+  conflicts: string[]; // ingredients that rule it out
+}
+
+export interface RecipeAllergens {
+  allergens: Allergen[]; // in ALLERGENS order
+  sources: Partial<Record<Allergen, string[]>>; // ingredients containing each allergen
+  suitability: DietarySuitability[];
+  unrecognised: string[]; // ingredients not in the catalogue, so not checked
+}
+
+interface AllergenProfile {
+  allergens: Allergen[];
+  diet: Diet;
+}
+
+/**
+ * An ingredient's allergens and diet: carried on the line when the data
+ * source links it to the catalogue, otherwise looked up by id or name
+ */
+export function findAllergenProfile(ingredient: Ingredient): AllergenProfile | undefined {
+  if (ingredient.allergens && ingredient.diet) {
+    return { allergens: ingredient.allergens, diet: ingredient.diet };
+  }
+
+  const entry = (ingredient.ingredientId && INGREDIENT_CATALOGUE.find(candidate => candidate.id === ingredient.ingredientId)) ||
+    findCatalogueIngredient(ingredient.name);
+  return entry ? { allergens: entry.allergens, diet: entry.diet } : undefined;
+}
+
+function breaksDiet(check: DietaryCheck, profile: AllergenProfile): boolean {
+  switch (check) {
+    case 'vegetarian':
+      return profile.diet === 'non-vegetarian';
+    case 'vegan':
+      return profile.diet !== 'vegan';
+    case 'gluten-free':
+      return profile.allergens.includes('gluten');
+  }
+}
+
+/**
+ * Allergens and vegetarian, vegan and gluten-free suitability worked out
+ * from a recipe's ingredients, its components included. Pantry staples
+ * missing from the catalogue (e.g. water) count as free of everything.
+ */
+export function analyzeRecipeAllergens(recipe: Recipe): RecipeAllergens {
+  const sources: Partial<Record<Allergen, string[]>> = {};
+  const conflicts: Record<DietaryCheck, string[]> = { vegetarian: [], vegan: [], 'gluten-free': [] };
+  const unrecognised: string[] = [];
+
+  for (const ingredient of getAllIngredients(recipe)) {
+    const profile = findAllergenProfile(ingredient);
+    if (!profile) {
+      if (!isPantryStaple(ingredient.name)) unrecognised.push(ingredient.name);
+      continue;
+    }
+
+    for (const allergen of profile.allergens) {
+      const names = sources[allergen] ?? (sources[allergen] = []);
+      if (!names.includes(ingredient.name)) names.push(ingredient.name);
+    }
+    for (const { value } of DIETARY_CHECKS) {
+      if (breaksDiet(value, profile)) conflicts[value].push(ingredient.name);
+    }
+  }
+
+  return {
+    allergens: ALLERGENS.map(({ value }) => value).filter(allergen => sources[allergen]),
+    sources,
+    suitability: DIETARY_CHECKS.map(({ value }) => ({
+      check: value,
+      status: conflicts[value].length > 0 ? 'unsuitable' : unrecognised.length > 0 ? 'unknown' : 'suitable',
+      conflicts: conflicts[value],
+    })),
+    unrecognised,
+  };
+}
+
+/**
+ * The allergens a recipe contains, in ALLERGENS order
+ */
+export function getRecipeAllergens(recipe: Recipe): Allergen[] {
+  return analyzeRecipeAllergens(recipe).allergens;
+}
+
+/**
+ * Dietary tags on a recipe that its ingredients contradict, e.g. a
+ * "vegetarian" recipe with chicken stock. Tag slugs match DIETARY_CHECKS.
+ */
+export function getDietaryTagConflicts(recipe: Recipe): DietarySuitability[] {
+  return analyzeRecipeAllergens(recipe).suitability
+    .filter(item => item.status === 'unsuitable' && recipe.tags.includes(item.check));
+}
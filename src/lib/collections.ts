@@ -0,0 +1,153 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CollectionItem, RecipeCollection } from '@/types/recipe';
+import { isUuid } from './utils';
+
+/**
+ * A collection as seen through its share link
+ */
+export interface SharedCollection {
+  name: string;
+  description?: string;
+  coverRecipeId?: string;
+  ownerName?: string;
+  items: Omit<CollectionItem, 'addedAt'>[];
+}
+
+interface CollectionRow {
+  id: string;
+  name: string;
+  description: string | null;
+  cover_recipe_id: string | null;
+  share_token: string | null;
+  changed_at: string;
+  items: { recipe_id: string; note: string | null; sort_order: number; added_at: string }[] | null;
+}
+
+interface SharedCollectionRow {
+  name: string;
+  description: string | null;
+  coverRecipeId: string | null;
+  ownerName: string | null;
+  items: { recipeId: string; note: string | null }[];
+}
+
+/**
+ * The recipe whose image stands for the collection
+ */
+export function getCollectionCoverId(collection: Pick<RecipeCollection, 'coverRecipeId' | 'items'>): string | undefined {
+  return collection.coverRecipeId ?? collection.items[0]?.recipeId;
+}
+
+/**
+ * Move a recipe one place up (-1) or down (1) in a collection
+ */
+export function moveCollectionItem(items: CollectionItem[], recipeId: string, direction: -1 | 1): CollectionItem[] {
+  const index = items.findIndex(item => item.recipeId === recipeId);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= items.length) return items;
+
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+/**
+ * The user's collections stored in their account, oldest first
+ */
+export async function fetchAccountCollections(client: SupabaseClient, userId: string): Promise<RecipeCollection[]> {
+  const { data, error } = await client
+    .from('collections')
+    .select('id, name, description, cover_recipe_id, share_token, changed_at, items:collection_recipes(recipe_id, note, sort_order, added_at)')
+    .eq('user_id', userId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data as CollectionRow[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    coverRecipeId: row.cover_recipe_id ?? undefined,
+    shareToken: row.share_token ?? undefined,
+    updatedAt: row.changed_at,
+    items: [...(row.items ?? [])]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map(item => ({ recipeId: item.recipe_id, note: item.note ?? undefined, addedAt: item.added_at })),
+  }));
+}
+
+/**
+ * Save a collection to the account with save_collection(). Recipes that
+ * aren't in the database (ids that aren't UUIDs) are left out. Resolves to
+ * false when another device changed it later, in which case its version
+ * stands.
+ */
+export async function pushCollection(client: SupabaseClient, collection: RecipeCollection): Promise<boolean> {
+  const coverRecipeId = collection.coverRecipeId;
+  const { data, error } = await client.rpc('save_collection', {
+    collection_id: collection.id,
+    collection_name: collection.name,
+    collection_description: collection.description ?? null,
+    cover_recipe: coverRecipeId && isUuid(coverRecipeId) ? coverRecipeId : null,
+    token: collection.shareToken ?? null,
+    recipe_items: collection.items.filter(item => isUuid(item.recipeId)),
+    changed: collection.updatedAt,
+  });
+
+  if (error) throw error;
+  return data as boolean;
+}
+
+/**
+ * Delete a collection from the account. Deleting wins over changes made
+ * elsewhere.
+ */
+export async function deleteAccountCollection(client: SupabaseClient, collectionId: string): Promise<void> {
+  const { error } = await client.from('collections').delete().eq('id', collectionId);
+  if (error) throw error;
+}
+
+/**
+ * Put local changes that haven't been synced on top of the account's
+ * collections. Pending ids missing locally were deleted on this device;
+ * collections that are only local and not pending were deleted elsewhere.
+ */
+export function mergeCollections(
+  account: RecipeCollection[],
+  local: RecipeCollection[],
+  pendingIds: string[]
+): RecipeCollection[] {
+  const pending = new Set(pendingIds);
+  const localById = new Map(local.map(collection => [collection.id, collection]));
+  const accountIds = new Set(account.map(collection => collection.id));
+
+  return [
+    ...account.flatMap(collection => {
+      if (!pending.has(collection.id)) return [collection];
+      const changed = localById.get(collection.id);
+      return changed ? [changed] : [];
+    }),
+    ...local.filter(collection => pending.has(collection.id) && !accountIds.has(collection.id)),
+  ];
+}
+
+/**
+ * Look up a collection by its share token. Resolves to null when the link
+ * is wrong or no longer shared.
+ */
+export async function fetchSharedCollection(client: SupabaseClient, token: string): Promise<SharedCollection | null> {
+  if (!isUuid(token)) return null;
+
+  const { data, error } = await client.rpc('get_shared_collection', { token });
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const row = data as SharedCollectionRow;
+  return {
+    name: row.name,
+    description: row.description ?? undefined,
+    coverRecipeId: row.coverRecipeId ?? undefined,
+    ownerName: row.ownerName ?? undefined,
+    items: row.items.map(item => ({ recipeId: item.recipeId, note: item.note ?? undefined })),
+  };
+}
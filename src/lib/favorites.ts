@@ -0,0 +1,68 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * A favourite added or removed on this device, waiting to be synced to the
+ * user's account
+ */
+export interface FavoriteChange {
+  recipeId: string;
+  favorite: boolean;
+  changedAt: string; // ISO timestamp of when the user made the change
+}
+
+interface UserFavoriteRow {
+  recipe_id: string;
+  is_favorite: boolean;
+  changed_at: string;
+}
+
+/**
+ * Recipe ids the user has favourited on any device, oldest first
+ */
+export async function fetchAccountFavorites(client: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await client
+    .from('user_favorites')
+    .select('recipe_id, is_favorite, changed_at')
+    .eq('user_id', userId)
+    .eq('is_favorite', true)
+    .order('changed_at');
+
+  if (error) throw error;
+  return (data as UserFavoriteRow[]).map(row => row.recipe_id);
+}
+
+/**
+ * Send one change with set_favorite(). Resolves to false when it wasn't
+ * saved: another device changed the favourite later, or the recipe doesn't
+ * exist.
+ */
+export async function pushFavoriteChange(client: SupabaseClient, change: FavoriteChange): Promise<boolean> {
+  const { data, error } = await client.rpc('set_favorite', {
+    target_recipe_id: change.recipeId,
+    favorite: change.favorite,
+    changed: change.changedAt,
+  });
+
+  if (error) throw error;
+  return data as boolean;
+}
+
+/**
+ * Queue a change, dropping any earlier one for the same recipe that hasn't
+ * been sent
+ */
+export function queueFavoriteChange(queue: FavoriteChange[], change: FavoriteChange): FavoriteChange[] {
+  return [...queue.filter(item => item.recipeId !== change.recipeId), change];
+}
+
+/**
+ * Apply changes to a list of favourite recipe ids, in order
+ */
+export function applyFavoriteChanges(favorites: string[], changes: FavoriteChange[]): string[] {
+  return changes.reduce(
+    (list, change) => change.favorite
+      ? (list.includes(change.recipeId) ? list : [...list, change.recipeId])
+      : list.filter(id => id !== change.recipeId),
+    favorites
+  );
+}
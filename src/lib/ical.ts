@@ -0,0 +1,92 @@
+import { MealSlot, PlannedMeal } from '@/types/recipe';
+import { MEAL_SLOTS } from './planner';
+
+// When to start cooking for each slot, as local (floating) times so the
+// events stay put whatever time zone the calendar is in
+const SLOT_START_TIMES: Record<MealSlot, string> = {
+  breakfast: '073000',
+  lunch: '120000',
+  dinner: '180000',
+};
+
+/**
+ * Escape text for an iCalendar TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuation lines starting with a
+ * space (RFC 5545 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtcTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build an iCalendar (.ics) file with one event per planned meal, lasting
+ * as long as the recipe takes to make
+ *
+ * @param siteUrl - used for recipe links and to make event UIDs unique
+ */
+export function buildMealPlanCalendar(meals: PlannedMeal[], siteUrl: string): string {
+  const host = new URL(siteUrl).host;
+  const stamp = formatUtcTimestamp(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${host}//Meal Planner//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Meal Plan',
+  ];
+
+  for (const meal of meals) {
+    const slotLabel = MEAL_SLOTS.find(slot => slot.value === meal.slot)?.label;
+    const url = `${siteUrl.replace(/\/$/, '')}/recipes/${meal.slug}`;
+    const totalMins = Math.max(meal.prepTimeMins + meal.cookTimeMins, 15);
+    const description = `${meal.servings} serving${meal.servings !== 1 ? 's' : ''}. ` +
+      `Prep ${meal.prepTimeMins} mins, cook ${meal.cookTimeMins} mins.\n${url}`;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${meal.id}@${host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${meal.date.replace(/-/g, '')}T${SLOT_START_TIMES[meal.slot]}`,
+      `DURATION:PT${totalMins}M`,
+      `SUMMARY:${escapeText(`${slotLabel}: ${meal.title}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `URL:${url}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
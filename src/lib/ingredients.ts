@@ -0,0 +1,163 @@
+import { CatalogueIngredient, PantryMatch, Recipe } from '@/types/recipe';
+import catalogueData from '../../data/ingredients.json';
+
+/**
+ * Ingredient catalogue used by the JSON data source (mirrors the
+ * ingredients table)
+ */
+export const INGREDIENT_CATALOGUE = catalogueData as CatalogueIngredient[];
+
+// Words that describe how an ingredient is prepared or bought rather than
+// what it is, so "Fresh thyme" and "thyme" compare equal.
+// Keep in sync with normalize_ingredient_name() in sql/schema.sql.
+const DESCRIPTOR_WORDS = new Set([
+  'fresh', 'freshly', 'dried', 'frozen', 'tinned', 'canned',
+  'chopped', 'diced', 'sliced', 'minced', 'ground', 'grated', 'crushed', 'peeled',
+  'large', 'medium', 'small', 'whole', 'cold', 'warm',
+  'finely', 'roughly', 'thinly', 'ripe', 'raw', 'cooked', 'boneless', 'skinless', 'of',
+]);
+
+// Normalised names of ingredients most kitchens already have. They never
+// count as missing. Keep in sync with is_pantry_staple() in sql/schema.sql.
+export const PANTRY_STAPLES = new Set([
+  'salt', 'sea salt', 'pepper', 'black pepper', 'white pepper',
+  'oil', 'olive oil', 'extra virgin olive oil', 'vegetable oil', 'sunflower oil', 'rapeseed oil',
+  'water',
+]);
+
+/**
+ * Reduce a plural word to its singular form (tomatoes -> tomato,
+ * berries -> berry, chickpeas -> chickpea)
+ */
+function singularize(word: string): string {
+  if (/^\p{L}{2,}ies$/u.test(word)) return word.replace(/ies$/, 'y');
+  if (/^\p{L}+(o|ch|sh|x)es$/u.test(word)) return word.replace(/es$/, '');
+  if (/^\p{L}+[a-rtv-z]s$/u.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Normalise an ingredient name for comparison: lowercase, drop notes
+ * ("Onion, diced", "White fish (cod or haddock)", "Oil for frying"),
+ * descriptors and plurals.
+ *
+ * @example normalizeIngredientName('Tinned tomatoes') // 'tomato'
+ */
+export function normalizeIngredientName(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .split(',')[0]
+    .replace(/\s(for|to)\s.*$/, '');
+
+  return (base.match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => !DESCRIPTOR_WORDS.has(word))
+    .map(singularize)
+    .join(' ');
+}
+
+/**
+ * Whether an ingredient is a pantry staple ("Salt", "Olive oil",
+ * "Salt and pepper")
+ */
+export function isPantryStaple(name: string): boolean {
+  const normalized = normalizeIngredientName(name);
+  if (!normalized) return false;
+  return normalized.split(/\s+and\s+/).every(part => PANTRY_STAPLES.has(part));
+}
+
+/**
+ * Catalogue entry for a free-text ingredient name: an exact name or alias
+ * first ("Flour (plain)"), then the normalised name, then a normalised
+ * alias. Mirrors resolve_ingredient_id() in sql/schema.sql.
+ */
+export function findCatalogueIngredient(
+  name: string,
+  catalogue: CatalogueIngredient[] = INGREDIENT_CATALOGUE
+): CatalogueIngredient | undefined {
+  const lower = name.trim().toLowerCase();
+  const exact = catalogue.find(entry =>
+    entry.name.toLowerCase() === lower ||
+    entry.aliases.some(alias => alias.toLowerCase() === lower)
+  );
+  if (exact) return exact;
+
+  const normalized = normalizeIngredientName(name);
+  if (!normalized) return undefined;
+
+  return catalogue.find(entry => normalizeIngredientName(entry.name) === normalized) ??
+    catalogue.find(entry => entry.aliases.some(alias => normalizeIngredientName(alias) === normalized));
+}
+
+/**
+ * Link a recipe's ingredients to the catalogue, as the database does on save
+ */
+export function linkRecipeIngredients<T extends Pick<Recipe, 'ingredients'>>(
+  recipe: T,
+  catalogue: CatalogueIngredient[] = INGREDIENT_CATALOGUE
+): T {
+  return {
+    ...recipe,
+    ingredients: recipe.ingredients.map(ingredient => {
+      if (ingredient.ingredientId) return ingredient;
+      const entry = findCatalogueIngredient(ingredient.name, catalogue);
+      return entry
+        ? {
+            ...ingredient,
+            ingredientId: entry.id,
+            category: entry.category,
+            density: entry.density,
+            allergens: entry.allergens,
+            diet: entry.diet,
+          }
+        : ingredient;
+    }),
+  };
+}
+
+/**
+ * Whether an ingredient the user has covers a recipe ingredient: both name
+ * the same catalogue entry, or one's normalised words all appear in the
+ * other's, so "chicken" covers "chicken thigh" and "plain flour" covers
+ * "flour".
+ */
+export function ingredientMatches(have: string, ingredientName: string, ingredientId?: string): boolean {
+  if (ingredientId && findCatalogueIngredient(have)?.id === ingredientId) return true;
+
+  const haveWords = normalizeIngredientName(have).split(' ').filter(Boolean);
+  const ingredientWords = normalizeIngredientName(ingredientName).split(' ').filter(Boolean);
+  if (haveWords.length === 0 || ingredientWords.length === 0) return false;
+
+  return haveWords.every(word => ingredientWords.includes(word)) ||
+    ingredientWords.every(word => haveWords.includes(word));
+}
+
+/**
+ * Split a recipe's ingredients (pantry staples aside) into those the user
+ * has and those they are missing
+ */
+export function matchPantry(recipe: Recipe, haveIngredients: string[]): PantryMatch {
+  const matched: string[] = [];
+  const missing: string[] = [];
+
+  for (const ingredient of recipe.ingredients) {
+    if (isPantryStaple(ingredient.name) || !normalizeIngredientName(ingredient.name)) continue;
+
+    if (haveIngredients.some(have => ingredientMatches(have, ingredient.name, ingredient.ingredientId))) {
+      matched.push(ingredient.name);
+    } else {
+      missing.push(ingredient.name);
+    }
+  }
+
+  return { matched, missing };
+}
+
+/**
+ * Order pantry matches best first: most ingredients on hand, then fewest
+ * missing
+ */
+export function comparePantryMatches(a?: PantryMatch, b?: PantryMatch): number {
+  if (!a || !b) return 0;
+  return (b.matched.length - a.matched.length) || (a.missing.length - b.missing.length);
+}
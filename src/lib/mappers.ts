@@ -0,0 +1,153 @@
+import { Ingredient, Recipe, RecipeComponent, RecipeFilters, RecipeSort, RecipeStep } from '@/types/recipe';
+import {
+  RecipeComponentRow,
+  RecipeIngredientRow,
+  RecipeListQuery,
+  RecipeRow,
+  RecipeStepRow,
+} from '@/types/api';
+import { normalizePagination } from './repositories/query';
+import { formatDateUK } from './utils';
+
+/**
+ * Map a recipe_ingredients row to an Ingredient
+ */
+export function mapIngredientRow(row: RecipeIngredientRow): Ingredient {
+  return {
+    id: row.id,
+    name: row.ingredient_name,
+    quantity: row.quantity !== null ? Number(row.quantity) : undefined,
+    unit: row.unit ?? '',
+    note: row.notes ?? undefined,
+    ingredientId: row.ingredient_id ?? undefined,
+    category: row.catalogue?.category,
+    density: row.catalogue?.density != null ? Number(row.catalogue.density) : undefined,
+    allergens: row.catalogue?.allergens ?? undefined,
+    diet: row.catalogue?.diet ?? undefined,
+    scalable: row.scalable === false ? false : undefined,
+    roundTo: row.round_to != null ? Number(row.round_to) : undefined,
+    section: row.section || undefined,
+  };
+}
+
+/**
+ * Map a recipe_steps row to a RecipeStep
+ */
+export function mapStepRow(row: RecipeStepRow): RecipeStep {
+  return {
+    id: row.id,
+    text: row.instruction,
+    section: row.section || undefined,
+    ingredients: row.ingredients?.length
+      ? row.ingredients.map(ref => ({
+          ingredientId: ref.recipe_ingredient_id,
+          quantity: ref.quantity !== null ? Number(ref.quantity) : undefined,
+        }))
+      : undefined,
+  };
+}
+
+function mapIngredientRows(rows: RecipeIngredientRow[] | null | undefined): Ingredient[] {
+  return [...(rows ?? [])].sort((a, b) => a.sort_order - b.sort_order).map(mapIngredientRow);
+}
+
+function mapStepRows(rows: RecipeStepRow[] | null | undefined): RecipeStep[] {
+  return [...(rows ?? [])].sort((a, b) => a.step_number - b.step_number).map(mapStepRow);
+}
+
+/**
+ * Map a recipe_components row with its embedded recipe to a RecipeComponent.
+ * Returns null when the component recipe isn't visible (e.g. unpublished).
+ */
+export function mapComponentRow(row: RecipeComponentRow): RecipeComponent | null {
+  if (!row.recipe) return null;
+
+  return {
+    id: row.id,
+    recipeId: row.recipe.id,
+    slug: row.recipe.slug,
+    title: row.recipe.title,
+    label: row.label ?? undefined,
+    servings: Number(row.servings),
+    baseServings: row.recipe.base_servings,
+    ingredients: mapIngredientRows(row.recipe.ingredients),
+    steps: mapStepRows(row.recipe.steps),
+  };
+}
+
+/**
+ * Map a recipe row (list or detail) to the Recipe type used by the site
+ */
+export function mapRecipeRow(row: RecipeRow): Recipe {
+  const ingredients = mapIngredientRows(row.ingredients);
+  const steps = mapStepRows(row.steps);
+
+  const components = [...(row.components ?? [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .flatMap(component => {
+      const mapped = mapComponentRow(component);
+      return mapped ? [mapped] : [];
+    });
+
+  return {
+    id: row.id,
+    title: row.title,
+    slug: row.slug,
+    description: row.description,
+    imageUrl: row.image_url ?? '',
+    cuisine: row.cuisine,
+    tags: (row.tags ?? []).map(tag => tag.slug),
+    prepTimeMins: row.prep_time_mins,
+    cookTimeMins: row.cook_time_mins,
+    totalTimeMins: row.total_time_mins ?? row.prep_time_mins + row.cook_time_mins,
+    difficulty: row.difficulty,
+    baseServings: row.base_servings,
+    ingredients,
+    steps,
+    components: components.length ? components : undefined,
+    author: row.author_name ? { name: row.author_name } : undefined,
+    datePublished: row.date_published ? formatDateUK(row.date_published) : undefined,
+    nutrition: row.nutrition ?? undefined,
+    searchMatches: row.search_matches ?? undefined,
+    pantryMatch: row.pantry_match ?? undefined,
+    rating: row.rating?.count ? row.rating : undefined,
+    featured: row.is_featured || undefined,
+  };
+}
+
+/**
+ * Build the query string for GET /api/public/recipes from site filters.
+ * Limit and offset are normalised as in the other adapters and sent as they
+ * are, so offsets needn't fall on a page boundary.
+ */
+export function toRecipeListQuery(
+  filters?: RecipeFilters,
+  sort?: RecipeSort,
+  limit?: number,
+  offset?: number
+): RecipeListQuery {
+  const query: RecipeListQuery = {};
+
+  if (filters?.search) query.q = filters.search;
+  if (filters?.tags?.length) {
+    query.tag = filters.tags.join(',');
+    query.tagMode = filters.tagMatch ?? 'any';
+  }
+  if (filters?.excludeTags?.length) query.excludeTag = filters.excludeTags.join(',');
+  if (filters?.excludeAllergens?.length) query.excludeAllergen = filters.excludeAllergens.join(',');
+  if (filters?.haveIngredients?.length) query.have = filters.haveIngredients.join(',');
+  if (filters?.cuisine?.length) query.cuisine = filters.cuisine.join(',');
+  if (filters?.difficulty?.length) query.difficulty = filters.difficulty.join(',');
+  if (filters?.maxPrepTime) query.maxPrepTime = filters.maxPrepTime.toString();
+
+  if (sort) {
+    query.sortBy = sort.field;
+    query.sortOrder = sort.direction;
+  }
+
+  const page = normalizePagination(limit, offset);
+  query.limit = page.limit.toString();
+  if (page.offset) query.offset = page.offset.toString();
+
+  return query;
+}
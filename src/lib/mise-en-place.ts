@@ -0,0 +1,49 @@
+import { Ingredient, Recipe, RecipeStep } from '@/types/recipe';
+
+// Notes that mean knife or prep work before cooking ("diced", "zested")
+const PREP_PATTERN = /\b(chop|dice|slice|mince|grate|crush|peel|halve|quarter|zest|juice|trim|shred|cube|core|deseed|drain|rinse|soften|beat)\w*/i;
+
+export interface MiseEnPlaceGroup {
+  stepNumber: number | null; // null for ingredients no step claims
+  ingredients: Ingredient[]; // quantities are the part used in the step
+}
+
+export interface MiseEnPlace {
+  prep: Ingredient[]; // need chopping or preparing first
+  groups: MiseEnPlaceGroup[]; // measured out, one bowl per step
+}
+
+/**
+ * The ingredients a step uses, with quantity set to the amount that goes
+ * in at this step (still for the recipe's base servings)
+ */
+export function getStepIngredients(recipe: Recipe, step: RecipeStep): Ingredient[] {
+  return (step.ingredients ?? []).flatMap(ref => {
+    const ingredient = recipe.ingredients.find(candidate => candidate.id === ref.ingredientId);
+    return ingredient ? [{ ...ingredient, quantity: ref.quantity ?? ingredient.quantity }] : [];
+  });
+}
+
+/**
+ * Whether an ingredient needs work before it can go in, judging by its note
+ */
+export function needsPrep(ingredient: Ingredient): boolean {
+  return Boolean(ingredient.note && PREP_PATTERN.test(ingredient.note));
+}
+
+/**
+ * Everything to do before the cooking starts: what to chop, then what to
+ * measure out, grouped by the step it goes in. Recipes without step
+ * references get a single group.
+ */
+export function buildMiseEnPlace(recipe: Recipe): MiseEnPlace {
+  const groups: MiseEnPlaceGroup[] = recipe.steps
+    .map((step, index) => ({ stepNumber: index + 1, ingredients: getStepIngredients(recipe, step) }))
+    .filter(group => group.ingredients.length > 0);
+
+  const used = new Set(groups.flatMap(group => group.ingredients.map(ingredient => ingredient.id)));
+  const unused = recipe.ingredients.filter(ingredient => !used.has(ingredient.id));
+  if (unused.length > 0) groups.push({ stepNumber: null, ingredients: unused });
+
+  return { prep: recipe.ingredients.filter(needsPrep), groups };
+}
@@ -0,0 +1,177 @@
+import { Ingredient, Nutrition, Recipe } from '@/types/recipe';
+import nutrientData from '../../data/nutrients.json';
+import { INGREDIENT_CATALOGUE, findCatalogueIngredient } from './ingredients';
+import { scaleIngredient } from './scaling';
+import { getAllIngredients } from './sections';
+import { toBaseQuantity } from './units';
+
+export type NutrientKey = keyof Nutrition;
+
+/**
+ * Nutrients in 100 g of an ingredient, with what its counted units weigh
+ */
+export interface NutrientProfile extends Required<Nutrition> {
+  pieceWeight?: number; // grams in one whole item ("1 onion")
+  unitWeights?: Record<string, number>; // grams in other counted units ("clove": 5)
+}
+
+/**
+ * Local nutrient table, keyed by catalogue ingredient id (data/nutrients.json)
+ */
+export const NUTRIENT_TABLE = nutrientData as Record<string, NutrientProfile>;
+
+export const NUTRIENT_KEYS: NutrientKey[] = ['calories', 'protein', 'carbs', 'sugars', 'fat', 'saturates', 'fibre', 'salt'];
+
+// Units that mean "one whole item"
+const PIECE_UNITS = new Set(['', 'pc', 'pcs', 'piece', 'pieces', 'whole']);
+
+export interface RecipeNutrition {
+  perServing: Required<Nutrition>;
+  per100g: Required<Nutrition> | null; // null when the serving weight is unknown
+  servingWeight: number; // grams of raw ingredients in one serving
+  missing: string[]; // ingredients left out of the calculation
+  overridden: NutrientKey[]; // values set by an admin rather than calculated
+}
+
+function emptyNutrition(): Required<Nutrition> {
+  return { calories: 0, protein: 0, carbs: 0, sugars: 0, fat: 0, saturates: 0, fibre: 0, salt: 0 };
+}
+
+/**
+ * The nutrient table entry for an ingredient, found through the catalogue
+ */
+export function findNutrientProfile(ingredient: Ingredient): NutrientProfile | undefined {
+  const entry = (ingredient.ingredientId && INGREDIENT_CATALOGUE.find(candidate => candidate.id === ingredient.ingredientId)) ||
+    findCatalogueIngredient(ingredient.name);
+  return entry ? NUTRIENT_TABLE[entry.id] : undefined;
+}
+
+/**
+ * Grams of an ingredient in the given amount. Volumes use the ingredient's
+ * density (water when unknown); counted units use the weights in the
+ * nutrient table. Returns null when the weight can't be worked out.
+ */
+export function getIngredientWeight(ingredient: Ingredient, quantity: number, profile: NutrientProfile): number | null {
+  const base = toBaseQuantity(quantity, ingredient.unit);
+  if (base?.dimension === 'mass') return base.value;
+  if (base?.dimension === 'volume') return base.value * (ingredient.density ?? 1);
+  if (base) return null;
+
+  const unit = ingredient.unit.trim().toLowerCase();
+  if (PIECE_UNITS.has(unit)) return profile.pieceWeight != null ? quantity * profile.pieceWeight : null;
+
+  const match = Object.entries(profile.unitWeights ?? {})
+    .find(([name]) => unit === name || unit === `${name}s` || unit === `${name}es`);
+  return match ? quantity * match[1] : null;
+}
+
+/**
+ * Nutrition per serving worked out from raw ingredients at the chosen
+ * servings, following the same scaling rules as the ingredient list.
+ * Ingredients not in the nutrient table, or in units it can't weigh, are
+ * left out and listed in `missing`.
+ */
+export function calculateNutrition(
+  ingredients: Ingredient[],
+  baseServings: number,
+  servings: number
+): Omit<RecipeNutrition, 'overridden'> {
+  const total = emptyNutrition();
+  const missing: string[] = [];
+  let weight = 0;
+
+  for (const ingredient of ingredients) {
+    const profile = findNutrientProfile(ingredient);
+    const grams = profile ? getIngredientWeight(ingredient, scaleIngredient(ingredient, baseServings, servings), profile) : null;
+    if (!profile || grams === null) {
+      missing.push(ingredient.name);
+      continue;
+    }
+
+    weight += grams;
+    for (const key of NUTRIENT_KEYS) total[key] += profile[key] * grams / 100;
+  }
+
+  const portions = Math.max(servings, 1);
+  const perServing = emptyNutrition();
+  for (const key of NUTRIENT_KEYS) perServing[key] = total[key] / portions;
+  const servingWeight = weight / portions;
+
+  return { perServing, per100g: toPer100g(perServing, servingWeight), servingWeight, missing };
+}
+
+function toPer100g(perServing: Required<Nutrition>, servingWeight: number): Required<Nutrition> | null {
+  if (!servingWeight) return null;
+
+  const per100g = emptyNutrition();
+  for (const key of NUTRIENT_KEYS) per100g[key] = perServing[key] / servingWeight * 100;
+  return per100g;
+}
+
+/**
+ * A recipe's nutrition per serving: calculated from its ingredients (and
+ * those of its components), with any values an admin has set taking their
+ * place. Returns null when there is nothing to go on, e.g. list results
+ * that come without ingredients.
+ */
+export function getRecipeNutrition(recipe: Recipe, servings: number): RecipeNutrition | null {
+  const ingredients = getAllIngredients(recipe);
+  const overridden = NUTRIENT_KEYS.filter(key => recipe.nutrition?.[key] != null);
+  if (ingredients.length === 0 && overridden.length === 0) return null;
+
+  const calculated = calculateNutrition(ingredients, recipe.baseServings, servings);
+  const perServing = { ...calculated.perServing };
+  for (const key of overridden) perServing[key] = recipe.nutrition![key]!;
+
+  return {
+    ...calculated,
+    perServing,
+    per100g: toPer100g(perServing, calculated.servingWeight),
+    overridden,
+  };
+}
+
+export type TrafficLight = 'low' | 'medium' | 'high';
+
+// UK front-of-pack criteria for food (FSA/DHSC): per 100 g, low at or below
+// the first value and high above the second; portions over 100 g are also
+// high above the per-portion limit (30% of the reference intake).
+const TRAFFIC_LIGHT_CRITERIA: Record<'fat' | 'saturates' | 'sugars' | 'salt', { low: number; high: number; portionHigh: number }> = {
+  fat: { low: 3, high: 17.5, portionHigh: 21 },
+  saturates: { low: 1.5, high: 5, portionHigh: 6 },
+  sugars: { low: 5, high: 22.5, portionHigh: 27 },
+  salt: { low: 0.3, high: 1.5, portionHigh: 1.8 },
+};
+
+export type TrafficLightNutrient = keyof typeof TRAFFIC_LIGHT_CRITERIA;
+
+// Adult reference intakes per day
+export const REFERENCE_INTAKES: Record<'calories' | TrafficLightNutrient, number> = {
+  calories: 2000,
+  fat: 70,
+  saturates: 20,
+  sugars: 90,
+  salt: 6,
+};
+
+export const KJ_PER_KCAL = 4.184;
+
+/**
+ * Traffic light colour for fat, saturates, sugars or salt in one serving
+ */
+export function getTrafficLight(nutrient: TrafficLightNutrient, nutrition: RecipeNutrition): TrafficLight {
+  const criteria = TRAFFIC_LIGHT_CRITERIA[nutrient];
+  const perServing = nutrition.perServing[nutrient];
+  const per100g = nutrition.per100g?.[nutrient];
+
+  if (per100g === undefined) return perServing > criteria.portionHigh ? 'high' : 'medium';
+  if (per100g > criteria.high || (nutrition.servingWeight > 100 && perServing > criteria.portionHigh)) return 'high';
+  return per100g <= criteria.low ? 'low' : 'medium';
+}
+
+/**
+ * Share of an adult's daily reference intake, as a whole percentage
+ */
+export function getReferenceIntakePercent(nutrient: keyof typeof REFERENCE_INTAKES, amount: number): number {
+  return Math.round(amount / REFERENCE_INTAKES[nutrient] * 100);
+}
@@ -0,0 +1,98 @@
+import { MealSlot, Nutrition, PlannedMeal, ShoppingListRecipe } from '@/types/recipe';
+
+export const MEAL_SLOTS: { value: MealSlot; label: string }[] = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+];
+
+export interface DaySummary {
+  prepTimeMins: number;
+  cookTimeMins: number;
+  nutrition: Required<Pick<Nutrition, 'calories' | 'protein' | 'carbs' | 'fat'>>; // per person: one serving of each meal
+  hasNutrition: boolean;
+}
+
+/**
+ * Local date as YYYY-MM-DD (toISOString would shift it to UTC)
+ */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD key as a local date
+ */
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Monday of the week containing the date
+ */
+export function getWeekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+/**
+ * The seven days of the week starting on the given Monday
+ */
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, i) =>
+    new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i)
+  );
+}
+
+/**
+ * Total prep and cook time for a day's meals, and the nutrition of one
+ * serving of each added up
+ */
+export function summarizeDay(meals: PlannedMeal[]): DaySummary {
+  const summary: DaySummary = {
+    prepTimeMins: 0,
+    cookTimeMins: 0,
+    nutrition: { calories: 0, protein: 0, carbs: 0, fat: 0 },
+    hasNutrition: false,
+  };
+
+  for (const meal of meals) {
+    summary.prepTimeMins += meal.prepTimeMins;
+    summary.cookTimeMins += meal.cookTimeMins;
+    if (!meal.nutrition) continue;
+
+    summary.hasNutrition = true;
+    summary.nutrition.calories += meal.nutrition.calories ?? 0;
+    summary.nutrition.protein += meal.nutrition.protein ?? 0;
+    summary.nutrition.carbs += meal.nutrition.carbs ?? 0;
+    summary.nutrition.fat += meal.nutrition.fat ?? 0;
+  }
+
+  return summary;
+}
+
+/**
+ * Shopping list entries for a set of planned meals. A recipe planned more
+ * than once becomes one entry with the servings added together.
+ */
+export function mealPlanToShoppingList(meals: PlannedMeal[]): ShoppingListRecipe[] {
+  const entries = new Map<string, ShoppingListRecipe>();
+
+  for (const meal of meals) {
+    const existing = entries.get(meal.recipeId);
+    entries.set(meal.recipeId, {
+      recipeId: meal.recipeId,
+      slug: meal.slug,
+      title: meal.title,
+      baseServings: meal.baseServings,
+      servings: (existing?.servings ?? 0) + meal.servings,
+      ingredients: meal.ingredients,
+    });
+  }
+
+  return Array.from(entries.values());
+}
@@ -0,0 +1,133 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RecipeNotes, UnitSystem } from '@/types/recipe';
+import { isUuid } from './utils';
+
+export const MAX_NOTE_LENGTH = 2000;
+
+interface RecipeNotesRow {
+  recipe_id: string;
+  note: string | null;
+  step_notes: Record<string, string>;
+  ingredient_notes: Record<string, string>;
+  servings: number | null;
+  unit_system: UnitSystem | null;
+  changed_at: string;
+}
+
+/**
+ * Empty notes for a recipe, to build changes on
+ */
+export function emptyRecipeNotes(recipeId: string): RecipeNotes {
+  return { recipeId, stepNotes: {}, ingredientNotes: {}, updatedAt: '' };
+}
+
+/**
+ * Whether there is anything left worth keeping
+ */
+export function hasRecipeNotes(notes: RecipeNotes): boolean {
+  return Boolean(
+    notes.note ||
+    Object.keys(notes.stepNotes).length ||
+    Object.keys(notes.ingredientNotes).length ||
+    notes.servings ||
+    notes.unitSystem
+  );
+}
+
+/**
+ * Set or, when blank, remove the note for one step or ingredient
+ */
+export function setNoteById(notes: Record<string, string>, id: string, text: string): Record<string, string> {
+  const next = { ...notes };
+  const trimmed = text.trim();
+  if (trimmed) {
+    next[id] = trimmed;
+  } else {
+    delete next[id];
+  }
+  return next;
+}
+
+/**
+ * The user's notes stored in their account, by recipe id
+ */
+export async function fetchAccountRecipeNotes(client: SupabaseClient, userId: string): Promise<Record<string, RecipeNotes>> {
+  const { data, error } = await client
+    .from('recipe_notes')
+    .select('recipe_id, note, step_notes, ingredient_notes, servings, unit_system, changed_at')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return Object.fromEntries((data as RecipeNotesRow[]).map(row => [
+    row.recipe_id,
+    {
+      recipeId: row.recipe_id,
+      note: row.note ?? undefined,
+      stepNotes: row.step_notes,
+      ingredientNotes: row.ingredient_notes,
+      servings: row.servings ?? undefined,
+      unitSystem: row.unit_system ?? undefined,
+      updatedAt: row.changed_at,
+    },
+  ]));
+}
+
+/**
+ * Save notes to the account with save_recipe_notes(). Resolves to false when
+ * another device changed them later, in which case its version stands.
+ */
+export async function pushRecipeNotes(client: SupabaseClient, notes: RecipeNotes): Promise<boolean> {
+  const { data, error } = await client.rpc('save_recipe_notes', {
+    target_recipe_id: notes.recipeId,
+    recipe_note: notes.note ?? null,
+    notes_by_step: notes.stepNotes,
+    notes_by_ingredient: notes.ingredientNotes,
+    default_servings: notes.servings ?? null,
+    default_unit_system: notes.unitSystem ?? null,
+    changed: notes.updatedAt,
+  });
+
+  if (error) throw error;
+  return data as boolean;
+}
+
+/**
+ * Delete the user's notes on a recipe from the account (RLS limits this to
+ * their own row)
+ */
+export async function deleteAccountRecipeNotes(client: SupabaseClient, recipeId: string): Promise<void> {
+  const { error } = await client.from('recipe_notes').delete().eq('recipe_id', recipeId);
+  if (error) throw error;
+}
+
+/**
+ * Whether notes on a recipe can be stored in the account. Recipes from the
+ * bundled JSON data don't have UUIDs, so their notes stay on the device.
+ */
+export function canSyncRecipeNotes(recipeId: string): boolean {
+  return isUuid(recipeId);
+}
+
+/**
+ * Put local changes that haven't been synced on top of the account's notes,
+ * the same way as mergeCollections: pending recipe ids missing locally were
+ * cleared on this device. Notes that can't be synced are kept as they are.
+ */
+export function mergeRecipeNotes(
+  account: Record<string, RecipeNotes>,
+  local: Record<string, RecipeNotes>,
+  pendingIds: string[]
+): Record<string, RecipeNotes> {
+  const merged = { ...account };
+  for (const recipeId of Object.keys(local).filter(id => !canSyncRecipeNotes(id))) {
+    merged[recipeId] = local[recipeId];
+  }
+  for (const recipeId of pendingIds) {
+    if (local[recipeId]) {
+      merged[recipeId] = local[recipeId];
+    } else {
+      delete merged[recipeId];
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,238 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Allergen, Recipe, RecipeFilters, RecipeSort } from '@/types/recipe';
+import { RecipeRow } from '@/types/api';
+import { createHttpRecipeRepository } from './http';
+import { createJsonRecipeRepository } from './json';
+import { createSupabaseRecipeRepository } from './supabase';
+import { matchRecipes } from './query';
+import { RecipeRepository } from './types';
+
+// The API routes create their client on load (see beforeAll); point them at
+// the fake database
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({ rpc: mockRpc }),
+}));
+
+const TITLES = ['Roast Chicken', 'Vegetable Curry', 'Cheese Scones', 'Lamb Stew', 'Fish Pie'];
+const CUISINES = ['British', 'Indian', 'Italian'];
+const DIFFICULTIES: Recipe['difficulty'][] = ['Easy', 'Medium', 'Hard'];
+const TAGS = ['dinner', 'quick', 'vegetarian', 'baking'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// More recipes than the largest page, with every field varying independently
+const recipes: Recipe[] = Array.from({ length: 130 }, (_, i) => ({
+  id: `00000000-0000-4000-8000-${(i + 1).toString(16).padStart(12, '0')}`,
+  title: `${TITLES[i % TITLES.length]} ${i + 1}`,
+  slug: `recipe-${i + 1}`,
+  description: '',
+  imageUrl: '',
+  cuisine: CUISINES[i % CUISINES.length],
+  tags: TAGS.filter((_, bit) => (i >> bit) & 1),
+  prepTimeMins: 5 + (i * 13) % 60,
+  cookTimeMins: 10,
+  totalTimeMins: 15 + (i * 13) % 60,
+  difficulty: DIFFICULTIES[(i >> 1) % DIFFICULTIES.length],
+  baseServings: 4,
+  ingredients: [],
+  steps: [],
+  datePublished: `${pad(1 + i % 28)}/${pad(1 + (i * 5) % 12)}/${2020 + i % 5}`,
+  featured: i % 10 === 0 || undefined,
+}));
+
+interface RpcParams {
+  search_query?: string | null;
+  tag_filter?: string[] | null;
+  tag_match_all?: boolean;
+  exclude_tags?: string[] | null;
+  exclude_allergens?: Allergen[] | null;
+  have_ingredients?: string[] | null;
+  cuisine_filter?: string[] | null;
+  difficulty_filter?: Recipe['difficulty'][] | null;
+  max_prep_time?: number | null;
+  sort_by?: RecipeSort['field'] | null;
+  sort_order?: RecipeSort['direction'];
+  featured_only?: boolean;
+  recipe_ids?: string[];
+  limit_count?: number;
+  offset_count?: number;
+}
+
+function toRecipeRow(recipe: Recipe, total: number): RecipeRow {
+  return {
+    id: recipe.id,
+    title: recipe.title,
+    slug: recipe.slug,
+    description: recipe.description,
+    cuisine: recipe.cuisine,
+    difficulty: recipe.difficulty,
+    prep_time_mins: recipe.prepTimeMins,
+    cook_time_mins: recipe.cookTimeMins,
+    total_time_mins: recipe.totalTimeMins,
+    base_servings: recipe.baseServings,
+    image_url: recipe.imageUrl,
+    image_alt: null,
+    author_name: null,
+    date_published: recipe.datePublished ?? null,
+    is_featured: Boolean(recipe.featured),
+    tags: recipe.tags.map(slug => ({ name: slug, slug })),
+    total_count: total,
+  };
+}
+
+/**
+ * Stands in for get_published_recipes: the reference filters and sorting,
+ * then LIMIT/OFFSET exactly as passed (the SQL defaults are 20 and 0), with
+ * the total on every row. The SQL itself isn't run here, so these tests check
+ * that each adapter and API route passes filters and pages through and reads
+ * the results back the same way, not that the SQL matches query.ts.
+ */
+function getPublishedRecipes(params: RpcParams): RecipeRow[] {
+  const candidates = recipes.filter(recipe =>
+    (!params.featured_only || recipe.featured) &&
+    (!params.recipe_ids || params.recipe_ids.some(id => id.toLowerCase() === recipe.id))
+  );
+
+  const matches = matchRecipes(
+    candidates,
+    {
+      search: params.search_query ?? undefined,
+      tags: params.tag_filter ?? undefined,
+      tagMatch: params.tag_match_all ? 'all' : 'any',
+      excludeTags: params.exclude_tags ?? undefined,
+      excludeAllergens: params.exclude_allergens ?? undefined,
+      haveIngredients: params.have_ingredients ?? undefined,
+      cuisine: params.cuisine_filter ?? undefined,
+      difficulty: params.difficulty_filter ?? undefined,
+      maxPrepTime: params.max_prep_time ?? undefined,
+    },
+    params.sort_by ? { field: params.sort_by, direction: params.sort_order ?? 'asc' } : undefined
+  );
+
+  const limit = params.limit_count ?? 20;
+  const offset = params.offset_count ?? 0;
+  return matches.slice(offset, offset + limit).map(recipe => toRecipeRow(recipe, matches.length));
+}
+
+function mockRpc(fn: string, params: RpcParams) {
+  const result = Promise.resolve(
+    fn === 'get_published_recipes'
+      ? { data: getPublishedRecipes(params), error: null }
+      : { data: null, error: { message: `Unknown function ${fn}` } }
+  );
+  return Object.assign(result, { abortSignal: () => result });
+}
+
+type Handler = (req: unknown, res: unknown) => Promise<unknown>;
+
+let routes: Record<string, Handler> = {};
+
+/**
+ * Serve fetch() from the API route handlers
+ */
+async function fetchFromRoutes(input: RequestInfo | URL): Promise<Response> {
+  const url = new URL(String(input), 'http://localhost');
+  const handler = routes[url.pathname];
+  if (!handler) return new Response(null, { status: 404 });
+
+  let status = 200;
+  let body: unknown = null;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json(data: unknown) {
+      body = data;
+      return res;
+    },
+    setHeader() {},
+  };
+
+  await handler({ method: 'GET', query: Object.fromEntries(url.searchParams) }, res);
+  return new Response(JSON.stringify(body), { status });
+}
+
+interface ListCase {
+  name: string;
+  filters?: RecipeFilters;
+  sort?: RecipeSort;
+  limit?: number;
+  offset?: number;
+  // Expected page of the filtered, sorted recipes
+  start: number;
+  size: number;
+}
+
+const LIST_CASES: ListCase[] = [
+  { name: 'the default page size', start: 0, size: 20 },
+  { name: 'at most 100 recipes', limit: 500, start: 0, size: 100 },
+  { name: 'an offset off a page boundary', sort: { field: 'title', direction: 'asc' }, limit: 10, offset: 15, start: 15, size: 10 },
+  { name: 'an offset without a limit', sort: { field: 'totalTimeMins', direction: 'desc' }, offset: 25, start: 25, size: 20 },
+  { name: 'a partial last page', limit: 50, offset: 100, start: 100, size: 50 },
+  { name: 'an offset past the last recipe', limit: 20, offset: 200, start: 200, size: 20 },
+  { name: 'cuisines and difficulty', filters: { cuisine: ['British', 'Italian'], difficulty: ['Easy'] }, limit: 100, start: 0, size: 100 },
+  { name: 'any of the tags', filters: { tags: ['quick', 'vegetarian'] }, sort: { field: 'datePublished', direction: 'desc' }, limit: 100, start: 0, size: 100 },
+  { name: 'all of the tags', filters: { tags: ['quick', 'vegetarian'], tagMatch: 'all' }, sort: { field: 'title', direction: 'desc' }, limit: 100, start: 0, size: 100 },
+  { name: 'excluded tags and a prep time limit', filters: { excludeTags: ['baking'], maxPrepTime: 30 }, sort: { field: 'difficulty', direction: 'asc' }, limit: 100, start: 0, size: 100 },
+  { name: 'a search', filters: { search: 'curry' }, limit: 5, offset: 2, start: 2, size: 5 },
+];
+
+const slugs = (list: Recipe[]) => list.map(recipe => recipe.slug);
+
+const supabaseClient = { rpc: mockRpc } as unknown as SupabaseClient;
+
+const ADAPTERS: [string, () => RecipeRepository][] = [
+  ['json', () => createJsonRecipeRepository(recipes)],
+  ['http', () => createHttpRecipeRepository()],
+  ['supabase', () => createSupabaseRecipeRepository(supabaseClient)],
+];
+
+beforeAll(async () => {
+  routes = {
+    '/api/public/recipes': (await import('../../../api/public/recipes')).default,
+    '/api/public/recipes/by-ids': (await import('../../../api/public/recipes/by-ids')).default,
+    '/api/public/recipes/featured': (await import('../../../api/public/recipes/featured')).default,
+    '/api/public/recipes/search': (await import('../../../api/public/recipes/search')).default,
+  };
+  jest.spyOn(globalThis, 'fetch').mockImplementation(fetchFromRoutes);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe.each(ADAPTERS)('%s recipe repository', (_, createRepository) => {
+  const repository = createRepository();
+
+  it.each(LIST_CASES)('lists with $name', async ({ filters, sort, limit, offset, start, size }) => {
+    const matches = matchRecipes(recipes, filters, sort);
+    const result = await repository.list(filters, sort, limit, offset);
+
+    expect(slugs(result.recipes)).toEqual(slugs(matches.slice(start, start + size)));
+    expect(result.total).toBe(matches.length);
+  });
+
+  it('returns only featured recipes, newest first', async () => {
+    const featured = matchRecipes(
+      recipes.filter(recipe => recipe.featured),
+      undefined,
+      { field: 'datePublished', direction: 'desc' }
+    );
+
+    expect(slugs(await repository.getFeatured(5))).toEqual(slugs(featured.slice(0, 5)));
+  });
+
+  it('gets recipes by id in the order given, leaving out unknown ids', async () => {
+    const ids = [recipes[42].id.toUpperCase(), 'not-a-recipe', recipes[3].id, '00000000-0000-4000-8000-999999999999', recipes[120].id];
+
+    expect(slugs(await repository.getByIds(ids))).toEqual(['recipe-43', 'recipe-4', 'recipe-121']);
+  });
+
+  it('searches with a limit', async () => {
+    const matches = matchRecipes(recipes, { search: 'curry' });
+
+    expect(slugs(await repository.search('curry', 8))).toEqual(slugs(matches.slice(0, 8)));
+  });
+});
@@ -0,0 +1,91 @@
+import { ApiResponse, RecipeCollectionData, RecipeDetailData, RecipeListData } from '@/types/api';
+import { mapRecipeRow, toRecipeListQuery } from '../mappers';
+import { RecipeRepository } from './types';
+
+/**
+ * Error thrown when an API route fails, keeping the HTTP status
+ */
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Limit of /api/public/recipes/by-ids
+const MAX_IDS_PER_REQUEST = 100;
+
+/**
+ * Repository backed by the serverless functions under /api/public
+ */
+export function createHttpRecipeRepository(baseUrl: string = ''): RecipeRepository {
+  /**
+   * Call a public API route and unwrap its { success, data } envelope.
+   * Errors are thrown rather than masked with mock data.
+   */
+  const fetchApi = async <T>(path: string, query: object = {}, signal?: AbortSignal): Promise<T> => {
+    const params = new URLSearchParams(
+      Object.entries(query).filter(([, value]) => value !== undefined && value !== '')
+    );
+    const url = `${baseUrl}${path}${params.toString() ? `?${params}` : ''}`;
+
+    const response = await fetch(url, { signal });
+    const body = (await response.json().catch(() => null)) as ApiResponse<T> | null;
+
+    if (!response.ok || !body?.success) {
+      const message = body && !body.success ? body.error : `HTTP error! status: ${response.status}`;
+      throw new ApiError(message, response.status);
+    }
+
+    return body.data;
+  };
+
+  return {
+    async list(filters, sort, limit, offset) {
+      const query = toRecipeListQuery(filters, sort, limit, offset);
+      const data = await fetchApi<RecipeListData>('/api/public/recipes', query);
+
+      return {
+        recipes: data.recipes.map(mapRecipeRow),
+        total: data.pagination.total,
+      };
+    },
+
+    async getBySlug(slug) {
+      try {
+        const data = await fetchApi<RecipeDetailData>(`/api/public/recipes/${encodeURIComponent(slug)}`);
+        return mapRecipeRow(data.recipe);
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 404) return null;
+        throw error;
+      }
+    },
+
+    async getByIds(ids) {
+      const batches: string[][] = [];
+      for (let i = 0; i < ids.length; i += MAX_IDS_PER_REQUEST) {
+        batches.push(ids.slice(i, i + MAX_IDS_PER_REQUEST));
+      }
+
+      const results = await Promise.all(batches.map(batch =>
+        fetchApi<RecipeCollectionData>('/api/public/recipes/by-ids', { ids: batch.join(',') })
+      ));
+      return results.flatMap(data => data.recipes.map(mapRecipeRow));
+    },
+
+    async getFeatured(limit) {
+      const data = await fetchApi<RecipeCollectionData>('/api/public/recipes/featured', {
+        limit: limit.toString(),
+      });
+      return data.recipes.map(mapRecipeRow);
+    },
+
+    async search(query, limit, signal) {
+      const data = await fetchApi<RecipeCollectionData>('/api/public/recipes/search', {
+        q: query,
+        limit: limit.toString(),
+      }, signal);
+      return data.recipes.map(mapRecipeRow);
+    },
+  };
+}
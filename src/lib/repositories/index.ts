@@ -0,0 +1,50 @@
+import { RecipeDataSource, RecipeRepository } from './types';
+import { createJsonRecipeRepository } from './json';
+import { createHttpRecipeRepository } from './http';
+import { createSupabaseRecipeRepository } from './supabase';
+import { getSupabaseClient } from '../supabase';
+
+export type { RecipeDataSource, RecipeListResult, RecipeRepository } from './types';
+export { createJsonRecipeRepository } from './json';
+export { createHttpRecipeRepository, ApiError } from './http';
+export { createSupabaseRecipeRepository } from './supabase';
+
+const DATA_SOURCES: RecipeDataSource[] = ['json', 'http', 'supabase'];
+
+/**
+ * Read the configured data source (NEXT_PUBLIC_RECIPE_DATA_SOURCE).
+ * Defaults to the bundled JSON file when unset.
+ */
+export function getRecipeDataSource(): RecipeDataSource {
+  const value = process.env.NEXT_PUBLIC_RECIPE_DATA_SOURCE || 'json';
+
+  if (!DATA_SOURCES.includes(value as RecipeDataSource)) {
+    throw new Error(
+      `Invalid NEXT_PUBLIC_RECIPE_DATA_SOURCE "${value}". Expected one of: ${DATA_SOURCES.join(', ')}`
+    );
+  }
+
+  return value as RecipeDataSource;
+}
+
+let repository: RecipeRepository | null = null;
+
+/**
+ * Repository for the configured data source, created on first use
+ */
+export function getRecipeRepository(): RecipeRepository {
+  if (!repository) {
+    switch (getRecipeDataSource()) {
+      case 'http':
+        repository = createHttpRecipeRepository(process.env.NEXT_PUBLIC_API_URL || '');
+        break;
+      case 'supabase':
+        repository = createSupabaseRecipeRepository(getSupabaseClient());
+        break;
+      default:
+        repository = createJsonRecipeRepository();
+    }
+  }
+
+  return repository;
+}
@@ -0,0 +1,82 @@
+import { Recipe, RecipeComponent } from '@/types/recipe';
+import { RecipeRepository } from './types';
+import { queryRecipes } from './query';
+import { linkRecipeIngredients } from '../ingredients';
+
+// data/recipes.json stores components as references to other recipes
+type StoredComponent = Pick<RecipeComponent, 'id' | 'recipeId' | 'label' | 'servings'>;
+type StoredRecipe = Omit<Recipe, 'components'> & { components?: StoredComponent[] };
+
+/**
+ * Fill in each component from the recipe it refers to. References to
+ * recipes that aren't in the list are dropped.
+ */
+function resolveComponents(recipes: StoredRecipe[]): Recipe[] {
+  const byId = new Map(recipes.map(recipe => [recipe.id, recipe]));
+
+  return recipes.map(({ components, ...recipe }) => {
+    const resolved = (components ?? []).flatMap((component): RecipeComponent[] => {
+      const source = byId.get(component.recipeId);
+      if (!source) return [];
+      return [{
+        id: component.id,
+        recipeId: source.id,
+        slug: source.slug,
+        title: source.title,
+        label: component.label,
+        servings: component.servings,
+        baseServings: source.baseServings,
+        ingredients: source.ingredients,
+        steps: source.steps,
+      }];
+    });
+
+    return resolved.length ? { ...recipe, components: resolved } : recipe;
+  });
+}
+
+/**
+ * In-memory repository. Without arguments it serves data/recipes.json;
+ * pass a recipe list to use it as a fixture. Ingredients are linked to
+ * data/ingredients.json on load.
+ */
+export function createJsonRecipeRepository(fixture?: Recipe[]): RecipeRepository {
+  let recipes: Recipe[] | null = fixture
+    ? resolveComponents(fixture.map(recipe => linkRecipeIngredients(recipe)))
+    : null;
+
+  const load = async (): Promise<Recipe[]> => {
+    if (!recipes) {
+      const data = await import('../../../data/recipes.json');
+      recipes = resolveComponents((data.default as StoredRecipe[]).map(recipe => linkRecipeIngredients(recipe)));
+    }
+    return recipes;
+  };
+
+  return {
+    async list(filters, sort, limit, offset) {
+      return queryRecipes(await load(), filters, sort, limit, offset);
+    },
+
+    async getBySlug(slug) {
+      return (await load()).find(recipe => recipe.slug === slug) || null;
+    },
+
+    async getByIds(ids) {
+      // Ignoring case, as the database does for UUIDs
+      const byId = new Map((await load()).map(recipe => [recipe.id.toLowerCase(), recipe]));
+      return ids.flatMap(id => byId.get(id.toLowerCase()) ?? []);
+    },
+
+    async getFeatured(limit) {
+      const featured = (await load()).filter(recipe => recipe.featured);
+      return queryRecipes(featured, undefined, { field: 'datePublished', direction: 'desc' }, limit).recipes;
+    },
+
+    async search(query, limit, signal) {
+      const recipes = await load();
+      signal?.throwIfAborted();
+      return queryRecipes(recipes, { search: query }, undefined, limit).recipes;
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import { Recipe, RecipeFilters, RecipeSort } from '@/types/recipe';
+import { getRecipeAllergens } from '../allergens';
+import { searchRecipe } from '../search';
+import { comparePantryMatches, matchPantry } from '../ingredients';
+import { RecipeListResult } from './types';
+
+// Page size when none is given, and the largest page any adapter returns
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Reference filter/sort/paginate semantics shared by all adapters:
+ * - search: every term matches title, tags, ingredients, description or steps,
+ *   by prefix or with a typo (see lib/search.ts); results carry searchMatches
+ * - cuisine, difficulty: recipe value is one of the selected values
+ * - tags: recipe has at least one of the selected tags ('any', the default)
+ *   or every selected tag ('all')
+ * - excludeTags: recipe has none of the excluded tags
+ * - excludeAllergens: no ingredient (components included) contains any of
+ *   them, going by the catalogue (see lib/allergens.ts)
+ * - haveIngredients: recipe uses at least one of them, compared by normalised
+ *   name with pantry staples ignored (see lib/ingredients.ts); results carry
+ *   pantryMatch
+ * - maxPrepTime: prep time is at or below the limit
+ * - sort: case-insensitive text, numeric times, DD/MM/YYYY dates; with a
+ *   search or haveIngredients and no sort (or 'relevance') results are ordered
+ *   by most ingredients on hand, fewest missing, then best search match
+ * - pagination: offset/limit applied after filtering, normalised by
+ *   normalizePagination (limit defaults to 20, at most 100); total counts all
+ *   matches, also on a page past the last
+ */
+export function matchesFilters(recipe: Recipe, filters: RecipeFilters): boolean {
+  if (filters.search && !searchRecipe(recipe, filters.search)) {
+    return false;
+  }
+
+  if (filters.cuisine?.length && !filters.cuisine.includes(recipe.cuisine)) {
+    return false;
+  }
+
+  if (filters.tags?.length) {
+    const hasTag = (tag: string) => recipe.tags.includes(tag);
+    const matchesTags = filters.tagMatch === 'all'
+      ? filters.tags.every(hasTag)
+      : filters.tags.some(hasTag);
+    if (!matchesTags) return false;
+  }
+
+  if (filters.excludeTags?.some(tag => recipe.tags.includes(tag))) {
+    return false;
+  }
+
+  if (filters.excludeAllergens?.length) {
+    const allergens = getRecipeAllergens(recipe);
+    if (filters.excludeAllergens.some(allergen => allergens.includes(allergen))) return false;
+  }
+
+  if (filters.haveIngredients?.length && matchPantry(recipe, filters.haveIngredients).matched.length === 0) {
+    return false;
+  }
+
+  if (filters.maxPrepTime && recipe.prepTimeMins > filters.maxPrepTime) {
+    return false;
+  }
+
+  if (filters.difficulty?.length && !filters.difficulty.includes(recipe.difficulty)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Parse a DD/MM/YYYY date into a timestamp (0 when missing or invalid)
+ */
+function parseUKDate(value: string | undefined): number {
+  if (!value) return 0;
+  const parts = value.split('/');
+  if (parts.length !== 3) return 0;
+  const [dd, mm, yyyy] = parts;
+  const t = new Date(`${yyyy}-${mm}-${dd}`).getTime();
+  return Number.isNaN(t) ? 0 : t;
+}
+
+export function compareRecipes(a: Recipe, b: Recipe, sort: RecipeSort): number {
+  const directionFactor = sort.direction === 'asc' ? 1 : -1;
+
+  switch (sort.field) {
+    case 'relevance':
+      // Needs search scores, ordered in queryRecipes
+      return 0;
+    case 'datePublished':
+      return (parseUKDate(a.datePublished) - parseUKDate(b.datePublished)) * directionFactor;
+    case 'totalTimeMins':
+      return (a.totalTimeMins - b.totalTimeMins) * directionFactor;
+    default: {
+      const cmp = String(a[sort.field]).localeCompare(String(b[sort.field]), undefined, { sensitivity: 'base' });
+      return cmp * directionFactor;
+    }
+  }
+}
+
+/**
+ * The limit and offset every adapter pages with. A missing or invalid limit
+ * becomes DEFAULT_PAGE_SIZE and larger ones MAX_PAGE_SIZE; a missing or
+ * negative offset starts at the first recipe.
+ */
+export function normalizePagination(limit?: number, offset?: number): { limit: number; offset: number } {
+  return {
+    limit: Math.min(limit && limit > 0 ? Math.floor(limit) : DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    offset: offset && offset > 0 ? Math.floor(offset) : 0,
+  };
+}
+
+/**
+ * Apply filters and sorting to an in-memory recipe list, without paginating
+ */
+export function matchRecipes(recipes: Recipe[], filters?: RecipeFilters, sort?: RecipeSort): Recipe[] {
+  const searchScores = new Map<string, number>();
+
+  // Search and pantry matching filter and annotate in one pass
+  const annotate = (recipe: Recipe): Recipe | null => {
+    let annotated = recipe;
+
+    if (filters?.search) {
+      const result = searchRecipe(recipe, filters.search);
+      if (!result) return null;
+      searchScores.set(recipe.id, result.score);
+      annotated = { ...annotated, searchMatches: result.matches };
+    }
+
+    if (filters?.haveIngredients?.length) {
+      const pantryMatch = matchPantry(recipe, filters.haveIngredients);
+      if (pantryMatch.matched.length === 0) return null;
+      annotated = { ...annotated, pantryMatch };
+    }
+
+    return annotated;
+  };
+
+  const filteredRecipes: Recipe[] = [];
+  for (const recipe of recipes) {
+    if (filters && !matchesFilters(recipe, { ...filters, search: undefined, haveIngredients: undefined })) {
+      continue;
+    }
+    const annotated = annotate(recipe);
+    if (annotated) filteredRecipes.push(annotated);
+  }
+
+  const isRanked = Boolean(filters?.search || filters?.haveIngredients?.length);
+  const score = (recipe: Recipe) => searchScores.get(recipe.id) ?? 0;
+
+  if (isRanked && (!sort || sort.field === 'relevance')) {
+    filteredRecipes.sort((a, b) =>
+      comparePantryMatches(a.pantryMatch, b.pantryMatch) || score(b) - score(a)
+    );
+  } else if (sort && sort.field !== 'relevance') {
+    filteredRecipes.sort((a, b) => compareRecipes(a, b, sort));
+  }
+
+  return filteredRecipes;
+}
+
+/**
+ * Apply filters, sorting and pagination to an in-memory recipe list
+ */
+export function queryRecipes(
+  recipes: Recipe[],
+  filters?: RecipeFilters,
+  sort?: RecipeSort,
+  limit?: number,
+  offset?: number
+): RecipeListResult {
+  const matches = matchRecipes(recipes, filters, sort);
+  const page = normalizePagination(limit, offset);
+
+  return {
+    recipes: matches.slice(page.offset, page.offset + page.limit),
+    total: matches.length,
+  };
+}
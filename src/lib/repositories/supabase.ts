@@ -0,0 +1,146 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RecipeFilters, RecipeSort } from '@/types/recipe';
+import { RecipeRow } from '@/types/api';
+import { mapRecipeRow } from '../mappers';
+import { isUuid } from '../utils';
+import { MAX_PAGE_SIZE, normalizePagination } from './query';
+import { RecipeRepository } from './types';
+
+// Columns and nested rows needed to build a full Recipe
+const RECIPE_DETAIL_SELECT = `
+  id,
+  title,
+  slug,
+  description,
+  cuisine,
+  difficulty,
+  prep_time_mins,
+  cook_time_mins,
+  total_time_mins,
+  base_servings,
+  image_url,
+  image_alt,
+  author_name,
+  date_published,
+  is_featured,
+  nutrition,
+  recipe_ingredients(id, ingredient_id, ingredient_name, quantity, unit, notes, scalable, round_to, section, sort_order, catalogue:ingredients(name, category, density, allergens, diet)),
+  recipe_steps(id, step_number, instruction, section, image_url, image_alt, ingredients:recipe_step_ingredients(recipe_ingredient_id, quantity)),
+  components:recipe_components!recipe_id(id, label, servings, sort_order, recipe:recipes!component_recipe_id(
+    id, title, slug, base_servings,
+    ingredients:recipe_ingredients(id, ingredient_id, ingredient_name, quantity, unit, notes, scalable, round_to, section, sort_order, catalogue:ingredients(name, category, density, allergens, diet)),
+    steps:recipe_steps(id, step_number, instruction, section, image_url, image_alt, ingredients:recipe_step_ingredients(recipe_ingredient_id, quantity))
+  )),
+  recipe_tags(tags(name, slug)),
+  rating:recipe_ratings(average, count)
+`;
+
+/**
+ * Build get_published_recipes arguments from site filters, paginating like
+ * the other adapters (see normalizePagination)
+ */
+function toRpcParams(filters?: RecipeFilters, sort?: RecipeSort, limit?: number, offset?: number) {
+  const page = normalizePagination(limit, offset);
+
+  return {
+    search_query: filters?.search || null,
+    tag_filter: filters?.tags?.length ? filters.tags : null,
+    tag_match_all: filters?.tagMatch === 'all',
+    exclude_tags: filters?.excludeTags?.length ? filters.excludeTags : null,
+    exclude_allergens: filters?.excludeAllergens?.length ? filters.excludeAllergens : null,
+    have_ingredients: filters?.haveIngredients?.length ? filters.haveIngredients : null,
+    cuisine_filter: filters?.cuisine?.length ? filters.cuisine : null,
+    difficulty_filter: filters?.difficulty?.length ? filters.difficulty : null,
+    max_prep_time: filters?.maxPrepTime || null,
+    sort_by: sort?.field ?? null,
+    sort_order: sort?.direction ?? 'asc',
+    limit_count: page.limit,
+    offset_count: page.offset,
+  };
+}
+
+/**
+ * Repository that queries Supabase directly with the anon key
+ */
+export function createSupabaseRecipeRepository(client: SupabaseClient): RecipeRepository {
+  const callRpc = async (
+    params: ReturnType<typeof toRpcParams> & { featured_only?: boolean; recipe_ids?: string[] },
+    signal?: AbortSignal
+  ) => {
+    const request = client.rpc('get_published_recipes', params);
+    const { data, error } = await (signal ? request.abortSignal(signal) : request);
+    if (error) throw new Error(`Failed to fetch recipes: ${error.message}`);
+    return (data ?? []) as RecipeRow[];
+  };
+
+  return {
+    async list(filters, sort, limit, offset) {
+      const params = toRpcParams(filters, sort, limit, offset);
+      const rows = await callRpc(params);
+
+      // Rows carry the total, so a page past the end counts from the first
+      const countRows = rows.length === 0 && params.offset_count > 0
+        ? await callRpc({ ...params, limit_count: 1, offset_count: 0 })
+        : rows;
+
+      return {
+        recipes: rows.map(mapRecipeRow),
+        total: countRows[0]?.total_count ?? 0,
+      };
+    },
+
+    async getBySlug(slug) {
+      const { data, error } = await client
+        .from('recipes')
+        .select(RECIPE_DETAIL_SELECT)
+        .eq('slug', slug)
+        .eq('is_published', true)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to fetch recipe: ${error.message}`);
+      if (!data) return null;
+
+      const { recipe_ingredients, recipe_steps, recipe_tags, ...recipeFields } = data as unknown as RecipeRow & {
+        recipe_ingredients: RecipeRow['ingredients'];
+        recipe_steps: RecipeRow['steps'];
+        recipe_tags: { tags: { name: string; slug: string } | null }[] | null;
+      };
+
+      return mapRecipeRow({
+        ...recipeFields,
+        tags: (recipe_tags ?? []).flatMap(rt => (rt.tags ? [rt.tags] : [])),
+        ingredients: recipe_ingredients,
+        steps: recipe_steps,
+      });
+    },
+
+    async getByIds(ids) {
+      // recipe_ids is UUID[], so anything else can't match and would fail the
+      // cast. Rows come back with lower-case ids.
+      const uuids = ids.filter(isUuid).map(id => id.toLowerCase());
+      const batches: string[][] = [];
+      for (let i = 0; i < uuids.length; i += MAX_PAGE_SIZE) {
+        batches.push(uuids.slice(i, i + MAX_PAGE_SIZE));
+      }
+
+      const results = await Promise.all(batches.map(batch =>
+        callRpc({ ...toRpcParams(undefined, undefined, batch.length), recipe_ids: batch })
+      ));
+      const byId = new Map(results.flat().map(row => [row.id, mapRecipeRow(row)]));
+      return uuids.flatMap(id => byId.get(id) ?? []);
+    },
+
+    async getFeatured(limit) {
+      const rows = await callRpc({
+        ...toRpcParams(undefined, { field: 'datePublished', direction: 'desc' }, limit),
+        featured_only: true,
+      });
+      return rows.map(mapRecipeRow);
+    },
+
+    async search(query, limit, signal) {
+      const rows = await callRpc(toRpcParams({ search: query }, undefined, limit), signal);
+      return rows.map(mapRecipeRow);
+    },
+  };
+}
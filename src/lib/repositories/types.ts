@@ -0,0 +1,28 @@
+import { Recipe, RecipeFilters, RecipeSort } from '@/types/recipe';
+
+export interface RecipeListResult {
+  recipes: Recipe[];
+  total: number;
+}
+
+/**
+ * Read access to published recipes. Every adapter must apply the same
+ * filter, sort and pagination semantics (see ./query.ts for the reference
+ * implementation used by the in-memory adapter).
+ */
+export interface RecipeRepository {
+  list(
+    filters?: RecipeFilters,
+    sort?: RecipeSort,
+    limit?: number,
+    offset?: number
+  ): Promise<RecipeListResult>;
+  getBySlug(slug: string): Promise<Recipe | null>;
+  /** Published recipes among the ids, in the order given; others are left out */
+  getByIds(ids: string[]): Promise<Recipe[]>;
+  getFeatured(limit: number): Promise<Recipe[]>;
+  /** Aborting the signal cancels the request where the adapter can */
+  search(query: string, limit: number, signal?: AbortSignal): Promise<Recipe[]>;
+}
+
+export type RecipeDataSource = 'json' | 'http' | 'supabase';
@@ -0,0 +1,183 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RecipeReview, ReviewStatus } from '@/types/recipe';
+
+export const REVIEWS_PAGE_SIZE = 10;
+export const MAX_REVIEW_PHOTOS = 3;
+export const MAX_REVIEW_LENGTH = 2000;
+
+const PHOTO_BUCKET = 'review-photos';
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+const PHOTO_URL_EXPIRY_SECS = 60 * 60;
+
+const REVIEW_SELECT =
+  'id, recipe_id, rating, body, made_it, photo_paths, status, moderation_note, created_at, updated_at, author:public_profiles!user_id(full_name)';
+
+interface ReviewRow {
+  id: string;
+  recipe_id: string;
+  rating: number;
+  body: string | null;
+  made_it: boolean;
+  photo_paths: string[];
+  status: ReviewStatus;
+  moderation_note: string | null;
+  created_at: string;
+  updated_at: string;
+  author: { full_name: string | null } | null;
+}
+
+/**
+ * What the reviewer fills in
+ */
+export interface ReviewInput {
+  rating: number;
+  body?: string;
+  madeIt: boolean;
+  photoPaths: string[];
+}
+
+/**
+ * Signed URLs for photos in the private review-photos bucket, by path.
+ * Storage policies decide which can be signed: anyone's on approved
+ * reviews, the user's own and, for staff, all of them. Others are left out.
+ */
+export async function getReviewPhotoUrls(client: SupabaseClient, paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await client.storage.from(PHOTO_BUCKET).createSignedUrls(paths, PHOTO_URL_EXPIRY_SECS);
+  if (error) throw error;
+  return Object.fromEntries(data.flatMap(item => (item.path && !item.error ? [[item.path, item.signedUrl]] : [])));
+}
+
+/**
+ * Map review rows, signing all their photos at once
+ */
+async function mapReviewRows(client: SupabaseClient, rows: ReviewRow[]): Promise<RecipeReview[]> {
+  const photoUrls = await getReviewPhotoUrls(client, rows.flatMap(row => row.photo_paths));
+  return rows.map(row => mapReviewRow(row, photoUrls));
+}
+
+function mapReviewRow(row: ReviewRow, photoUrls: Record<string, string>): RecipeReview {
+  return {
+    id: row.id,
+    recipeId: row.recipe_id,
+    rating: row.rating,
+    body: row.body ?? undefined,
+    madeIt: row.made_it,
+    photoPaths: row.photo_paths,
+    photoUrls: row.photo_paths.flatMap(path => photoUrls[path] ?? []),
+    status: row.status,
+    moderationNote: row.moderation_note ?? undefined,
+    authorName: row.author?.full_name ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * A page of a recipe's approved reviews, newest first
+ */
+export async function fetchReviews(
+  client: SupabaseClient,
+  recipeId: string,
+  offset = 0
+): Promise<{ reviews: RecipeReview[]; total: number }> {
+  const { data, count, error } = await client
+    .from('recipe_reviews')
+    .select(REVIEW_SELECT, { count: 'exact' })
+    .eq('recipe_id', recipeId)
+    .eq('status', 'approved')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + REVIEWS_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return {
+    reviews: await mapReviewRows(client, data as unknown as ReviewRow[]),
+    total: count ?? 0,
+  };
+}
+
+/**
+ * The user's own review of a recipe, whatever its status
+ */
+export async function fetchOwnReview(client: SupabaseClient, recipeId: string, userId: string): Promise<RecipeReview | null> {
+  const { data, error } = await client
+    .from('recipe_reviews')
+    .select(REVIEW_SELECT)
+    .eq('recipe_id', recipeId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? (await mapReviewRows(client, [data as unknown as ReviewRow]))[0] : null;
+}
+
+/**
+ * Add or replace the user's review. Either way it goes back to the
+ * moderation queue.
+ */
+export async function saveReview(
+  client: SupabaseClient,
+  recipeId: string,
+  userId: string,
+  input: ReviewInput
+): Promise<RecipeReview> {
+  const { data, error } = await client
+    .from('recipe_reviews')
+    .upsert(
+      {
+        recipe_id: recipeId,
+        user_id: userId,
+        rating: input.rating,
+        body: input.body?.trim() || null,
+        made_it: input.madeIt,
+        photo_paths: input.photoPaths,
+      },
+      { onConflict: 'recipe_id,user_id' }
+    )
+    .select(REVIEW_SELECT)
+    .single();
+
+  if (error) throw error;
+  return (await mapReviewRows(client, [data as unknown as ReviewRow]))[0];
+}
+
+/**
+ * Delete the user's review and its photos
+ */
+export async function deleteReview(client: SupabaseClient, review: RecipeReview): Promise<void> {
+  const { error } = await client.from('recipe_reviews').delete().eq('id', review.id);
+  if (error) throw error;
+  await deleteReviewPhotos(client, review.photoPaths);
+}
+
+/**
+ * Upload a photo into the user's folder, resolving to its path. The bucket
+ * is private: the photo only becomes public once the review is approved.
+ */
+export async function uploadReviewPhoto(client: SupabaseClient, userId: string, file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Photos must be image files.');
+  }
+  if (file.size > MAX_PHOTO_BYTES) {
+    throw new Error('Photos must be 5 MB or smaller.');
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await client.storage.from(PHOTO_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+  return path;
+}
+
+/**
+ * Remove photos that are no longer on a review. Failures are only logged,
+ * as a leftover file does no harm.
+ */
+export async function deleteReviewPhotos(client: SupabaseClient, paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await client.storage.from(PHOTO_BUCKET).remove(paths);
+  if (error) console.error('Error deleting review photos:', error);
+}
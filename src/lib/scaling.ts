@@ -0,0 +1,71 @@
+import { Ingredient } from '@/types/recipe';
+import { MeasurementSystem, findUnit, formatAmount, formatQuantity } from './units';
+
+// Herbs and spices go up more slowly than the rest of a recipe: doubling
+// needs about 1.7x the spice, not 2x
+const SUBLINEAR_EXPONENT = 0.75;
+
+export interface ScaledAmount {
+  amount: string; // "1½", "200"
+  unit: string;
+  hint?: string; // "or 1 large + 1 small" when a whole item was rounded
+}
+
+/**
+ * How much an ingredient is multiplied by for the chosen servings
+ */
+export function getScaleFactor(ingredient: Ingredient, baseServings: number, servings: number): number {
+  if (ingredient.scalable === false || !baseServings) return 1;
+
+  const factor = servings / baseServings;
+  return ingredient.category === 'herbs-spices' ? Math.pow(factor, SUBLINEAR_EXPONENT) : factor;
+}
+
+/**
+ * The smallest step an ingredient's amount comes in. Set per ingredient
+ * (roundTo); counted units (pcs, cloves, sprigs) default to halves.
+ */
+function getRoundingStep(ingredient: Ingredient): number | undefined {
+  if (ingredient.roundTo) return ingredient.roundTo;
+  return ingredient.unit && !findUnit(ingredient.unit) ? 0.5 : undefined;
+}
+
+/**
+ * Scale an ingredient to the chosen servings, following its scaling rules
+ * and rounding indivisible items to the nearest step (never to zero). Lines
+ * without an amount ("salt, to taste") come out as 0.
+ */
+export function scaleIngredient(ingredient: Ingredient, baseServings: number, servings: number): number {
+  const exact = (ingredient.quantity ?? 0) * getScaleFactor(ingredient, baseServings, servings);
+  const step = getRoundingStep(ingredient);
+  if (!step || !exact) return exact;
+
+  return Math.max(step, Math.round(exact / step) * step);
+}
+
+/**
+ * A scaled ingredient ready to show: converted to the user's units, with
+ * kitchen fractions, and a hint when whole items were rounded
+ * ("2, or 1 large + 1 small" for 1½ eggs).
+ */
+export function formatScaledIngredient(
+  ingredient: Ingredient,
+  baseServings: number,
+  servings: number,
+  system: MeasurementSystem
+): ScaledAmount {
+  const scaled = scaleIngredient(ingredient, baseServings, servings);
+  const converted = formatQuantity(scaled, ingredient.unit, system, ingredient.density);
+  const result: ScaledAmount = { amount: formatAmount(converted.value, converted.unit), unit: converted.unit };
+
+  const step = getRoundingStep(ingredient);
+  if (step === 1) {
+    const exact = (ingredient.quantity ?? 0) * getScaleFactor(ingredient, baseServings, servings);
+    const large = Math.floor(exact);
+    if (exact - large >= 0.25 && exact - large < 0.75) {
+      result.hint = large ? `or ${large} large + 1 small` : 'or 1 small';
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,133 @@
+import { Recipe, SearchField, SearchMatch } from '@/types/recipe';
+
+// Relative weight of a hit in each field, in the same order as the
+// search_vector weights in sql/schema.sql (title A, tags/ingredients B,
+// description C, steps D)
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  tags: 3,
+  ingredients: 3,
+  description: 2,
+  steps: 1,
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export interface SearchResult {
+  score: number;
+  matches: SearchMatch[];
+}
+
+/**
+ * Split text into lowercase words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) ?? []);
+}
+
+/**
+ * Levenshtein distance between two words
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Typos allowed for a search term: none for short words, then one, then two
+ */
+function allowedTypos(term: string): number {
+  if (term.length <= 3) return 0;
+  if (term.length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * How well a word matches a search term: 1 exact, 0.8 prefix, 0.5 within
+ * the typo allowance, 0 no match
+ */
+function matchWord(word: string, term: string): number {
+  if (word === term) return 1;
+  if (term.length > 1 && word.startsWith(term)) return 0.8;
+
+  const typos = allowedTypos(term);
+  if (typos > 0 && Math.abs(word.length - term.length) <= typos && editDistance(word, term) <= typos) {
+    return 0.5;
+  }
+
+  return 0;
+}
+
+/**
+ * Score a recipe against a search query. Every query term has to match some
+ * field (by prefix or with a typo); the score adds up each term's best
+ * weighted hit. Returns null when the recipe does not match.
+ */
+export function searchRecipe(recipe: Recipe, query: string): SearchResult | null {
+  const terms = tokenize(query);
+  if (terms.length === 0) return { score: 0, matches: [] };
+
+  const sources: { field: SearchField; text: string }[] = [
+    { field: 'title', text: recipe.title },
+    ...recipe.tags.map(tag => ({ field: 'tags' as const, text: tag })),
+    ...recipe.ingredients.map(ingredient => ({ field: 'ingredients' as const, text: ingredient.name })),
+    { field: 'description', text: recipe.description },
+    ...recipe.steps.map(step => ({ field: 'steps' as const, text: step.text })),
+  ];
+
+  const bestByTerm = new Map<string, number>();
+  const matches: SearchMatch[] = [];
+
+  for (const { field, text } of sources) {
+    const hits = new Set<string>();
+
+    for (const word of text.match(WORD_PATTERN) ?? []) {
+      for (const term of terms) {
+        const quality = matchWord(word.toLowerCase(), term);
+        if (quality === 0) continue;
+        hits.add(word);
+        bestByTerm.set(term, Math.max(bestByTerm.get(term) ?? 0, quality * FIELD_WEIGHTS[field]));
+      }
+    }
+
+    // One step is enough to show why a recipe matched
+    if (hits.size > 0 && !(field === 'steps' && matches.some(match => match.field === 'steps'))) {
+      matches.push({ field, snippet: text, terms: Array.from(hits) });
+    }
+  }
+
+  if (bestByTerm.size < terms.length) return null;
+
+  let score = 0;
+  bestByTerm.forEach(value => { score += value; });
+
+  return { score, matches };
+}
+
+/**
+ * Shorten a snippet to the text around its first highlighted term
+ */
+export function excerpt(snippet: string, terms: string[], radius: number = 60): string {
+  if (snippet.length <= radius * 2) return snippet;
+
+  const lower = snippet.toLowerCase();
+  const positions = terms
+    .map(term => lower.indexOf(term.toLowerCase()))
+    .filter(index => index >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - radius);
+  const end = Math.min(snippet.length, first + radius);
+
+  return `${start > 0 ? '…' : ''}${snippet.slice(start, end).trim()}${end < snippet.length ? '…' : ''}`;
+}
@@ -0,0 +1,50 @@
+import { Ingredient, Recipe, RecipeComponent } from '@/types/recipe';
+
+export interface Section<T> {
+  title?: string; // undefined for items before the first heading
+  items: T[];
+}
+
+/**
+ * Group ingredients or steps under their section headings. Runs of items
+ * with the same section stay together in the order given, so a section
+ * that appears twice is shown twice.
+ */
+export function groupBySection<T extends { section?: string }>(items: T[]): Section<T>[] {
+  const sections: Section<T>[] = [];
+
+  for (const item of items) {
+    const last = sections[sections.length - 1];
+    if (last && last.title === item.section) {
+      last.items.push(item);
+    } else {
+      sections.push({ title: item.section, items: [item] });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * A component's ingredients restated for the recipe it belongs to: amounts
+ * are for the recipe's baseServings, so they scale with it like any other
+ * line. Ids are prefixed with the component id to keep them unique.
+ */
+export function getComponentIngredients(component: RecipeComponent): Ingredient[] {
+  const factor = component.baseServings ? component.servings / component.baseServings : 1;
+
+  return component.ingredients.map(ingredient => ({
+    ...ingredient,
+    id: `${component.id}:${ingredient.id}`,
+    quantity: ingredient.scalable === false || ingredient.quantity === undefined
+      ? ingredient.quantity
+      : ingredient.quantity * factor,
+  }));
+}
+
+/**
+ * Everything needed to make a recipe, its components included
+ */
+export function getAllIngredients(recipe: Recipe): Ingredient[] {
+  return [...recipe.ingredients, ...(recipe.components ?? []).flatMap(getComponentIngredients)];
+}
@@ -0,0 +1,159 @@
+import { IngredientCategory, Recipe, ShoppingListItem, ShoppingListRecipe } from '@/types/recipe';
+import { INGREDIENT_CATALOGUE, normalizeIngredientName } from './ingredients';
+import { INGREDIENT_CATEGORIES } from './taxonomy';
+import { scaleIngredient } from './scaling';
+import { getAllIngredients } from './sections';
+import { BaseQuantity, MeasurementSystem, findUnit, formatAmount, formatBaseQuantity, roundQuantity, toBaseQuantity } from './units';
+
+export interface ShoppingListGroup {
+  category: IngredientCategory;
+  label: string;
+  items: ShoppingListItem[];
+}
+
+/**
+ * Shopping list entry for a recipe at the given servings, including the
+ * ingredients of any components
+ */
+export function toShoppingListRecipe(recipe: Recipe, servings: number): ShoppingListRecipe {
+  return {
+    recipeId: recipe.id,
+    slug: recipe.slug,
+    title: recipe.title,
+    baseServings: recipe.baseServings,
+    servings,
+    ingredients: getAllIngredients(recipe),
+  };
+}
+
+type Total =
+  | { kind: 'measured'; base: BaseQuantity; fromCups: boolean }
+  | { kind: 'counted'; value: number; unit: string };
+
+/**
+ * Merge the ingredients of every recipe on the list, scaled to the chosen
+ * servings. The same ingredient is recognised across recipes by its
+ * catalogue id, or failing that its normalised name. Amounts are added up
+ * in grams or ml, and weights and volumes of the same ingredient are
+ * combined when its density is known.
+ */
+export function buildShoppingList(recipes: ShoppingListRecipe[], system: MeasurementSystem): ShoppingListItem[] {
+  const items = new Map<string, { item: ShoppingListItem; density?: number; totals: Map<string, Total> }>();
+
+  for (const recipe of recipes) {
+    for (const ingredient of recipe.ingredients) {
+      const key = ingredient.ingredientId || normalizeIngredientName(ingredient.name) || ingredient.name.toLowerCase();
+      const quantity = scaleIngredient(ingredient, recipe.baseServings, recipe.servings);
+
+      let entry = items.get(key);
+      if (!entry) {
+        const catalogueEntry = ingredient.ingredientId
+          ? INGREDIENT_CATALOGUE.find(candidate => candidate.id === ingredient.ingredientId)
+          : undefined;
+        entry = {
+          item: {
+            key,
+            name: catalogueEntry?.name ?? ingredient.name,
+            category: ingredient.category ?? catalogueEntry?.category ?? 'other',
+            quantities: [],
+            recipes: [],
+          },
+          density: ingredient.density ?? catalogueEntry?.density,
+          totals: new Map(),
+        };
+        items.set(key, entry);
+      }
+
+      if (!entry.item.recipes.includes(recipe.title)) entry.item.recipes.push(recipe.title);
+      if (!quantity) continue;
+
+      const base = toBaseQuantity(quantity, ingredient.unit);
+      if (!base) {
+        const totalKey = `count:${ingredient.unit.toLowerCase()}`;
+        const existing = entry.totals.get(totalKey);
+        entry.totals.set(totalKey, {
+          kind: 'counted',
+          value: (existing?.kind === 'counted' ? existing.value : 0) + quantity,
+          unit: ingredient.unit,
+        });
+        continue;
+      }
+
+      const fromCups = findUnit(ingredient.unit)?.id === 'cup';
+      const existing = entry.totals.get(base.dimension);
+      entry.totals.set(base.dimension, existing?.kind === 'measured'
+        ? {
+            kind: 'measured',
+            base: { ...base, value: existing.base.value + base.value, kitchen: existing.base.kitchen && base.kitchen },
+            fromCups: existing.fromCups && fromCups,
+          }
+        : { kind: 'measured', base, fromCups });
+    }
+  }
+
+  return Array.from(items.values()).map(({ item, density, totals }) => {
+    const mass = totals.get('mass');
+    const volume = totals.get('volume');
+    if (density && mass?.kind === 'measured' && volume?.kind === 'measured') {
+      mass.base.value += volume.base.value * density;
+      totals.delete('volume');
+    }
+
+    return {
+      ...item,
+      quantities: Array.from(totals.values(), total => total.kind === 'measured'
+        ? formatBaseQuantity(total.base, system, density, total.fromCups)
+        : { value: roundQuantity(total.value), unit: total.unit }),
+    };
+  });
+}
+
+/**
+ * Group shopping list items by aisle, in aisle order, sorted by name
+ */
+export function groupShoppingList(items: ShoppingListItem[]): ShoppingListGroup[] {
+  return INGREDIENT_CATEGORIES
+    .map(({ value, label }) => ({
+      category: value,
+      label,
+      items: items
+        .filter(item => item.category === value)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .filter(group => group.items.length > 0);
+}
+
+/**
+ * "200 g + 1½ pcs", or an empty string for ingredients without an amount
+ */
+export function formatShoppingQuantities(item: ShoppingListItem): string {
+  return item.quantities.map(({ value, unit }) => `${formatAmount(value, unit)} ${unit}`).join(' + ');
+}
+
+/**
+ * Plain-text version of the list for downloading or sharing, with ticked
+ * items marked
+ */
+export function formatShoppingList(
+  recipes: ShoppingListRecipe[],
+  groups: ShoppingListGroup[],
+  checkedItems: string[]
+): string {
+  const lines = ['Shopping List', ''];
+
+  lines.push('For:');
+  for (const recipe of recipes) {
+    lines.push(`- ${recipe.title} (${recipe.servings} serving${recipe.servings !== 1 ? 's' : ''})`);
+  }
+
+  for (const group of groups) {
+    lines.push('', group.label);
+    for (const item of group.items) {
+      const quantities = formatShoppingQuantities(item);
+      const mark = checkedItems.includes(item.key) ? '[x]' : '[ ]';
+      lines.push(`${mark} ${quantities ? `${quantities} ` : ''}${item.name}`);
+    }
+  }
+
+  return lines.join('\n');
+}
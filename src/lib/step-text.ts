@@ -0,0 +1,145 @@
+// Pull measurements out of recipe step text so they can follow the unit
+// toggle: "Preheat oven to 200°C (180°C fan)", "gas mark 6", "a 23cm tin",
+// "500g", "simmer for 10-12 minutes".
+
+export type StepToken =
+  | { type: 'text'; text: string }
+  | { type: 'temperature'; text: string; celsius: number; fan: boolean }
+  | { type: 'gas-mark'; text: string; mark: number }
+  | { type: 'quantity'; text: string; value: number; unit: string } // weights and volumes
+  | { type: 'size'; text: string; values: number[]; unit: string } // "23cm", "20 x 30cm"
+  | { type: 'duration'; text: string; minutes: number; maxMinutes?: number };
+
+type Measurement = Exclude<StepToken, { type: 'text' }>;
+
+const FRACTIONS: Record<string, number> = { '¼': 0.25, '½': 0.5, '¾': 0.75 };
+
+// Gas mark to °C, as printed on UK ovens
+const GAS_MARKS: Record<number, number> = {
+  1: 140, 2: 150, 3: 170, 4: 180, 5: 190, 6: 200, 7: 220, 8: 230, 9: 240,
+};
+
+const NUMBER = String.raw`\d+(?:\.\d+)?(?:\s?[¼½¾])?|[¼½¾]`;
+
+function parseNumber(text: string): number {
+  const match = text.match(/^(\d+(?:\.\d+)?)?\s?([¼½¾])?$/);
+  if (!match) return Number(text);
+  return (match[1] ? Number(match[1]) : 0) + (match[2] ? FRACTIONS[match[2]] : 0);
+}
+
+function toMinutes(value: number, unit: string): number {
+  if (/^h/i.test(unit)) return value * 60;
+  if (/^s/i.test(unit)) return value / 60;
+  return value;
+}
+
+// Tried in order; when two match at the same place the earlier one wins
+const PATTERNS: { regex: RegExp; build: (match: RegExpExecArray) => Measurement | null }[] = [
+  {
+    // 200°C, 180 °C fan, 400 degrees F, 350F
+    regex: new RegExp(String.raw`(\d{2,3})\s?(?:°|º|degrees\s)\s?(C|F)\b(\s+fan)?|(\d{3})(C|F)\b(\s+fan)?`, 'g'),
+    build: (match) => {
+      const value = Number(match[1] ?? match[4]);
+      const scale = match[2] ?? match[5];
+      return {
+        type: 'temperature',
+        text: match[0],
+        celsius: scale === 'F' ? (value - 32) * 5 / 9 : value,
+        fan: Boolean(match[3] ?? match[6]),
+      };
+    },
+  },
+  {
+    regex: /gas\s+mark\s+(\d)\b/gi,
+    build: (match) => {
+      const mark = Number(match[1]);
+      return GAS_MARKS[mark] ? { type: 'gas-mark', text: match[0], mark } : null;
+    },
+  },
+  {
+    // 1 hour 30 minutes, 1hr 15 mins
+    regex: /(\d+)\s?(?:hours?|hrs?)\s*(?:and\s+)?(\d+)\s?(?:minutes?|mins?)\b/gi,
+    build: (match) => ({
+      type: 'duration',
+      text: match[0],
+      minutes: Number(match[1]) * 60 + Number(match[2]),
+    }),
+  },
+  {
+    // 10 minutes, 3-4 mins, 1½ hours, 30 seconds
+    regex: new RegExp(
+      String.raw`(${NUMBER})(?:\s?(?:-|–|to)\s?(${NUMBER}))?\s?(hours?|hrs?|minutes?|mins?|seconds?|secs?)\b`,
+      'gi'
+    ),
+    build: (match) => {
+      const minutes = toMinutes(parseNumber(match[1]), match[3]);
+      const maxMinutes = match[2] ? toMinutes(parseNumber(match[2]), match[3]) : undefined;
+      return { type: 'duration', text: match[0], minutes, maxMinutes };
+    },
+  },
+  {
+    // 23cm, 20 x 30 cm, 2.5mm, 9 inch, 8"
+    regex: new RegExp(String.raw`(${NUMBER})(?:\s?x\s?(${NUMBER}))?\s?(cm|mm|inch(?:es)?\b|")(?![a-z])`, 'gi'),
+    build: (match) => ({
+      type: 'size',
+      text: match[0],
+      values: match[2] ? [parseNumber(match[1]), parseNumber(match[2])] : [parseNumber(match[1])],
+      unit: match[3].startsWith('inch') || match[3] === '"' ? 'in' : match[3].toLowerCase(),
+    }),
+  },
+  {
+    // 500g, 1.5 kg, 250ml, 2 tbsp, 8oz
+    regex: new RegExp(String.raw`(${NUMBER})\s?(kg|g|ml|l|oz|lb|tsp|tbsp)\b`, 'gi'),
+    build: (match) => ({
+      type: 'quantity',
+      text: match[0],
+      value: parseNumber(match[1]),
+      unit: match[2].toLowerCase(),
+    }),
+  },
+];
+
+/**
+ * Split step text into plain text and measurement tokens
+ *
+ * @example
+ * parseStepText('Roast at 200°C for 1 hour')
+ * // [text 'Roast at ', temperature 200, text ' for ', duration 60]
+ */
+export function parseStepText(text: string): StepToken[] {
+  const tokens: StepToken[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    let next: { index: number; length: number; token: Measurement } | null = null;
+
+    for (const { regex, build } of PATTERNS) {
+      regex.lastIndex = position;
+      let match = regex.exec(text);
+      let token = match ? build(match) : null;
+      // Skip matches that don't stand for anything (gas mark 12)
+      while (match && !token) {
+        match = regex.exec(text);
+        token = match ? build(match) : null;
+      }
+      if (match && token && (!next || match.index < next.index)) {
+        next = { index: match.index, length: match[0].length, token };
+      }
+    }
+
+    if (!next) break;
+    if (next.index > position) tokens.push({ type: 'text', text: text.slice(position, next.index) });
+    tokens.push(next.token);
+    position = next.index + next.length;
+  }
+
+  if (position < text.length) tokens.push({ type: 'text', text: text.slice(position) });
+  return tokens;
+}
+
+/**
+ * °C for a gas mark
+ */
+export function gasMarkToCelsius(mark: number): number {
+  return GAS_MARKS[mark];
+}
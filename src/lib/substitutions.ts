@@ -0,0 +1,180 @@
+import { Allergen, Diet, Ingredient, Recipe, RecipeStep } from '@/types/recipe';
+import substitutionData from '../../data/substitutions.json';
+import { findAllergenProfile } from './allergens';
+import { INGREDIENT_CATALOGUE, findCatalogueIngredient } from './ingredients';
+import { convertQuantity, findUnit } from './units';
+
+export interface SubstitutionPart {
+  ingredientId: string; // catalogue entry
+  quantity: number; // for `per` of the original, or a ratio of it when there is no `per`
+  unit?: string; // only with `per`; otherwise the original's unit is kept
+}
+
+/**
+ * A way to replace an ingredient, e.g. buttermilk with milk and lemon juice
+ */
+export interface Substitution {
+  id: string;
+  per?: { quantity: number; unit: string }; // amount of the original the parts replace
+  parts: SubstitutionPart[];
+  note?: string; // how to use it
+}
+
+/**
+ * Substitution knowledge base, keyed by catalogue ingredient id
+ * (data/substitutions.json)
+ */
+export const SUBSTITUTIONS = substitutionData as Record<string, Substitution[]>;
+
+export interface SubstitutionOption {
+  substitution: Substitution;
+  label: string; // "Milk + Lemon juice"
+  ingredients: Ingredient[]; // the lines that replace the original, for the same servings
+  removes: Allergen[]; // allergens of the original the swap leaves out
+  diet?: Diet; // set when the swap suits a stricter diet than the original
+}
+
+// Swaps chosen on a recipe page: ingredient line id -> substitution id
+export type IngredientSwaps = Record<string, string>;
+
+const DIET_ORDER: Diet[] = ['vegan', 'vegetarian', 'non-vegetarian'];
+
+/**
+ * Amount of an ingredient in the unit a substitution is given per, or null
+ * when the units can't be converted. Counted units ("2 eggs", "2 large
+ * eggs") count as the same.
+ */
+function toPerUnit(ingredient: Ingredient, quantity: number, unit: string): number | null {
+  const from = ingredient.unit.trim().toLowerCase();
+  const to = unit.trim().toLowerCase();
+  if (from === to || (!findUnit(from) && !findUnit(to))) return quantity;
+  return convertQuantity(quantity, ingredient.unit, unit, ingredient.density);
+}
+
+/**
+ * The lines that replace an ingredient, at its unscaled amount, or null
+ * when the substitution can't be measured against it. A line without an
+ * amount is replaced by lines without one.
+ */
+function applySubstitution(ingredient: Ingredient, substitution: Substitution): Ingredient[] | null {
+  const { per } = substitution;
+  const { quantity } = ingredient;
+  const amount = per && quantity !== undefined ? toPerUnit(ingredient, quantity, per.unit) : quantity;
+  if (amount === null) return null;
+
+  return substitution.parts.flatMap((part, index) => {
+    const entry = INGREDIENT_CATALOGUE.find(candidate => candidate.id === part.ingredientId);
+    if (!entry) return [];
+
+    return [{
+      id: index === 0 ? ingredient.id : `${ingredient.id}+${index}`,
+      name: entry.name,
+      quantity: amount === undefined
+        ? undefined
+        : per ? part.quantity * amount / per.quantity : part.quantity * amount,
+      unit: per ? part.unit ?? per.unit : ingredient.unit,
+      note: substitution.parts.length === 1 ? ingredient.note : undefined,
+      ingredientId: entry.id,
+      category: entry.category,
+      density: entry.density,
+      allergens: entry.allergens,
+      diet: entry.diet,
+      scalable: ingredient.scalable,
+      section: ingredient.section,
+    }];
+  });
+}
+
+/**
+ * What an ingredient can be swapped for, found through the catalogue.
+ * Lines that are already a swap have no options.
+ */
+export function getSubstitutionOptions(ingredient: Ingredient): SubstitutionOption[] {
+  if (ingredient.substitutes) return [];
+
+  const entry = (ingredient.ingredientId && INGREDIENT_CATALOGUE.find(candidate => candidate.id === ingredient.ingredientId)) ||
+    findCatalogueIngredient(ingredient.name);
+  if (!entry) return [];
+
+  const original = findAllergenProfile(ingredient);
+
+  return (SUBSTITUTIONS[entry.id] ?? []).flatMap(substitution => {
+    const ingredients = applySubstitution(ingredient, substitution);
+    if (!ingredients?.length) return [];
+
+    const allergens = ingredients.flatMap(line => line.allergens ?? []);
+    const diet = DIET_ORDER[Math.max(...ingredients.map(line => DIET_ORDER.indexOf(line.diet ?? 'non-vegetarian')))];
+    const isStricter = original && DIET_ORDER.indexOf(diet) < DIET_ORDER.indexOf(original.diet);
+
+    return [{
+      substitution,
+      label: ingredients.map(line => line.name).join(' + '),
+      ingredients,
+      removes: (original?.allergens ?? []).filter(allergen => !allergens.includes(allergen)),
+      diet: isStricter ? diet : undefined,
+    }];
+  });
+}
+
+/**
+ * Swap the chosen lines of an ingredient list, pointing step references at
+ * the new lines with the same share of each
+ */
+function swapLines(
+  ingredients: Ingredient[],
+  steps: RecipeStep[],
+  swaps: IngredientSwaps,
+  idPrefix: string
+): { ingredients: Ingredient[]; steps: RecipeStep[] } {
+  const replaced = new Map<string, { original: Ingredient; lines: Ingredient[] }>();
+
+  const swapped = ingredients.flatMap(ingredient => {
+    const key = idPrefix + ingredient.id;
+    const option = swaps[key] && getSubstitutionOptions(ingredient)
+      .find(candidate => candidate.substitution.id === swaps[key]);
+    if (!option) return [ingredient];
+
+    const lines = option.ingredients.map(line => ({ ...line, substitutes: { id: key, name: ingredient.name } }));
+    replaced.set(ingredient.id, { original: ingredient, lines });
+    return lines;
+  });
+
+  if (replaced.size === 0) return { ingredients, steps };
+
+  return {
+    ingredients: swapped,
+    steps: steps.map(step => step.ingredients
+      ? {
+          ...step,
+          ingredients: step.ingredients.flatMap(ref => {
+            const swap = replaced.get(ref.ingredientId);
+            if (!swap) return [ref];
+
+            const share = ref.quantity != null && swap.original.quantity ? ref.quantity / swap.original.quantity : undefined;
+            return swap.lines.map(line => ({
+              ingredientId: line.id,
+              quantity: share !== undefined && line.quantity !== undefined ? line.quantity * share : undefined,
+            }));
+          }),
+        }
+      : step),
+  };
+}
+
+/**
+ * A recipe with the chosen swaps made, components included, so scaling,
+ * nutrition, allergens and the shopping list all follow them. Component
+ * lines are keyed by the ids getComponentIngredients() gives them.
+ */
+export function applySwaps(recipe: Recipe, swaps: IngredientSwaps): Recipe {
+  if (Object.keys(swaps).length === 0) return recipe;
+
+  return {
+    ...recipe,
+    ...swapLines(recipe.ingredients, recipe.steps, swaps, ''),
+    components: recipe.components?.map(component => ({
+      ...component,
+      ...swapLines(component.ingredients, component.steps, swaps, `${component.id}:`),
+    })),
+  };
+}
@@ -0,0 +1,40 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null = null;
+
+/**
+ * Whether the Supabase environment variables are set
+ */
+export function isSupabaseConfigured(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY);
+}
+
+/**
+ * Whether Postgres rejected the data itself, a data exception or constraint
+ * violation (SQLSTATE classes 22 and 23). Sending the same request again
+ * would fail the same way, unlike network or server errors.
+ */
+export function isRejectedByDatabase(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && /^2[23]/.test(code);
+}
+
+/**
+ * Shared Supabase client for the public site (anon key). Recipes are
+ * read-only; a signed-in visitor's session also gives access to their own
+ * favourites.
+ */
+export function getSupabaseClient(): SupabaseClient {
+  if (!client) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      throw new Error('Missing Supabase environment variables. Please check your .env file.');
+    }
+
+    client = createClient(supabaseUrl, supabaseAnonKey);
+  }
+
+  return client;
+}
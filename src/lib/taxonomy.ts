@@ -0,0 +1,47 @@
+import { Allergen, IngredientCategory } from '@/types/recipe';
+
+// Cuisines, tags and difficulties offered in filters and search suggestions.
+// Tag values are slugs, matching tags.slug in sql/schema.sql.
+
+export const CUISINES = ['British', 'Indian', 'Italian', 'Chinese', 'Mediterranean', 'French', 'American'];
+
+export const TAGS = ['vegetarian', 'vegan', 'gluten-free', 'quick', '30min', 'healthy', 'classic', 'traditional', 'baking', 'dinner', 'breakfast', 'lunch'];
+
+export const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+
+// Ingredient categories in supermarket aisle order, for grouping shopping
+// lists. Values match the ingredients.category check in sql/schema.sql.
+export const INGREDIENT_CATEGORIES: { value: IngredientCategory; label: string }[] = [
+  { value: 'veg', label: 'Vegetables' },
+  { value: 'fruit', label: 'Fruit' },
+  { value: 'herbs-spices', label: 'Herbs & spices' },
+  { value: 'meat', label: 'Meat' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'dairy', label: 'Dairy & eggs' },
+  { value: 'baking', label: 'Baking' },
+  { value: 'grains-pulses', label: 'Pasta, rice & pulses' },
+  { value: 'tins-jars', label: 'Tins & jars' },
+  { value: 'condiments', label: 'Sauces & condiments' },
+  { value: 'oils', label: 'Oils & vinegars' },
+  { value: 'drinks', label: 'Drinks' },
+  { value: 'other', label: 'Other' },
+];
+
+// The 14 major allergens, in the order UK labelling guidance lists them.
+// Values match the ingredients.allergens check in sql/schema.sql.
+export const ALLERGENS: { value: Allergen; label: string }[] = [
+  { value: 'celery', label: 'Celery' },
+  { value: 'gluten', label: 'Gluten' },
+  { value: 'crustaceans', label: 'Crustaceans' },
+  { value: 'eggs', label: 'Eggs' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'lupin', label: 'Lupin' },
+  { value: 'milk', label: 'Milk' },
+  { value: 'molluscs', label: 'Molluscs' },
+  { value: 'mustard', label: 'Mustard' },
+  { value: 'nuts', label: 'Tree nuts' },
+  { value: 'peanuts', label: 'Peanuts' },
+  { value: 'sesame', label: 'Sesame' },
+  { value: 'soya', label: 'Soya' },
+  { value: 'sulphites', label: 'Sulphites' },
+];
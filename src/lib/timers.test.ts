@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  createTimer,
+  extendTimer,
+  formatTimerRemaining,
+  getRemainingSecs,
+  getTimerProgress,
+  isTimerFinished,
+  isTimerPaused,
+  pauseTimer,
+  resumeTimer,
+} from './timers';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2024-09-10T18:00:00Z') });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createTimer', () => {
+  it('counts down from the given minutes', () => {
+    const timer = createTimer('Roast', 5, Date.now(), { slug: 'roast-chicken', title: 'Roast Chicken' });
+
+    expect(getRemainingSecs(timer, Date.now())).toBe(300);
+    expect(timer.recipeSlug).toBe('roast-chicken');
+
+    jest.advanceTimersByTime(90 * SECOND);
+    expect(getRemainingSecs(timer, Date.now())).toBe(210);
+    expect(getTimerProgress(timer, Date.now())).toBeCloseTo(0.3);
+  });
+
+  it('finishes at zero and stays there', () => {
+    const timer = createTimer('Rest', 0.5, Date.now());
+
+    jest.advanceTimersByTime(29 * SECOND);
+    expect(isTimerFinished(timer, Date.now())).toBe(false);
+
+    jest.advanceTimersByTime(10 * SECOND);
+    expect(isTimerFinished(timer, Date.now())).toBe(true);
+    expect(getRemainingSecs(timer, Date.now())).toBe(0);
+    expect(getTimerProgress(timer, Date.now())).toBe(1);
+  });
+});
+
+describe('pauseTimer and resumeTimer', () => {
+  it('hold the remaining time while paused', () => {
+    let timer = createTimer('Simmer', 5, Date.now());
+
+    jest.advanceTimersByTime(MINUTE);
+    timer = pauseTimer(timer, Date.now());
+    expect(isTimerPaused(timer)).toBe(true);
+
+    jest.advanceTimersByTime(10 * MINUTE);
+    expect(getRemainingSecs(timer, Date.now())).toBe(240);
+    expect(isTimerFinished(timer, Date.now())).toBe(false);
+
+    timer = resumeTimer(timer, Date.now());
+    expect(isTimerPaused(timer)).toBe(false);
+
+    jest.advanceTimersByTime(4 * MINUTE - SECOND);
+    expect(getRemainingSecs(timer, Date.now())).toBe(1);
+
+    jest.advanceTimersByTime(SECOND);
+    expect(isTimerFinished(timer, Date.now())).toBe(true);
+  });
+
+  it('leave finished and running timers alone', () => {
+    const timer = createTimer('Boil', 1, Date.now());
+    expect(resumeTimer(timer, Date.now())).toBe(timer);
+
+    jest.advanceTimersByTime(2 * MINUTE);
+    expect(pauseTimer(timer, Date.now())).toBe(timer);
+  });
+});
+
+describe('extendTimer', () => {
+  it('adds time to a running timer', () => {
+    let timer = createTimer('Bake', 20, Date.now());
+
+    jest.advanceTimersByTime(5 * MINUTE);
+    timer = extendTimer(timer, 2, Date.now());
+
+    expect(getRemainingSecs(timer, Date.now())).toBe(17 * 60);
+    expect(timer.durationSecs).toBe(22 * 60);
+  });
+
+  it('adds time to a paused timer without starting it', () => {
+    let timer = pauseTimer(createTimer('Prove', 10, Date.now()), Date.now());
+
+    timer = extendTimer(timer, 5, Date.now());
+    jest.advanceTimersByTime(MINUTE);
+
+    expect(isTimerPaused(timer)).toBe(true);
+    expect(getRemainingSecs(timer, Date.now())).toBe(15 * 60);
+  });
+
+  it('restarts a finished timer for the extra time and alerts again', () => {
+    let timer = { ...createTimer('Boil', 1, Date.now()), alerted: true };
+
+    jest.advanceTimersByTime(5 * MINUTE);
+    timer = extendTimer(timer, 2, Date.now());
+
+    expect(timer.alerted).toBe(false);
+    expect(timer.durationSecs).toBe(120);
+    expect(getRemainingSecs(timer, Date.now())).toBe(120);
+    expect(getTimerProgress(timer, Date.now())).toBe(0);
+  });
+});
+
+describe('formatTimerRemaining', () => {
+  it('shows minutes and seconds, with hours when needed', () => {
+    expect(formatTimerRemaining(0)).toBe('0:00');
+    expect(formatTimerRemaining(245)).toBe('4:05');
+    expect(formatTimerRemaining(3750)).toBe('1:02:30');
+  });
+});
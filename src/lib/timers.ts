@@ -0,0 +1,93 @@
+import { CookingTimer } from '@/types/recipe';
+
+// Every function here takes the current time as an argument instead of
+// reading the clock, so timers behave the same under fake timers.
+
+/**
+ * A new running timer for the given number of minutes
+ */
+export function createTimer(
+  label: string,
+  minutes: number,
+  now: number,
+  recipe?: { slug: string; title: string }
+): CookingTimer {
+  const durationSecs = Math.round(minutes * 60);
+  return {
+    id: `timer-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    recipeSlug: recipe?.slug,
+    recipeTitle: recipe?.title,
+    durationSecs,
+    endsAt: now + durationSecs * 1000,
+    alerted: false,
+  };
+}
+
+/**
+ * Whole seconds left, never below zero
+ */
+export function getRemainingSecs(timer: CookingTimer, now: number): number {
+  if (timer.endsAt === null) return timer.pausedRemainingSecs ?? timer.durationSecs;
+  return Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+}
+
+export function isTimerPaused(timer: CookingTimer): boolean {
+  return timer.endsAt === null;
+}
+
+export function isTimerFinished(timer: CookingTimer, now: number): boolean {
+  return timer.endsAt !== null && timer.endsAt <= now;
+}
+
+/**
+ * How far through the timer is, from 0 to 1
+ */
+export function getTimerProgress(timer: CookingTimer, now: number): number {
+  if (!timer.durationSecs) return 1;
+  return Math.min(1, 1 - getRemainingSecs(timer, now) / timer.durationSecs);
+}
+
+export function pauseTimer(timer: CookingTimer, now: number): CookingTimer {
+  if (timer.endsAt === null || isTimerFinished(timer, now)) return timer;
+  return { ...timer, endsAt: null, pausedRemainingSecs: getRemainingSecs(timer, now) };
+}
+
+export function resumeTimer(timer: CookingTimer, now: number): CookingTimer {
+  if (timer.endsAt !== null) return timer;
+  return {
+    ...timer,
+    endsAt: now + getRemainingSecs(timer, now) * 1000,
+    pausedRemainingSecs: undefined,
+  };
+}
+
+/**
+ * Add time to a timer, restarting it if it had finished
+ */
+export function extendTimer(timer: CookingTimer, minutes: number, now: number): CookingTimer {
+  const extraSecs = Math.round(minutes * 60);
+  if (timer.endsAt === null) {
+    return {
+      ...timer,
+      durationSecs: timer.durationSecs + extraSecs,
+      pausedRemainingSecs: getRemainingSecs(timer, now) + extraSecs,
+    };
+  }
+  return {
+    ...timer,
+    durationSecs: getRemainingSecs(timer, now) === 0 ? extraSecs : timer.durationSecs + extraSecs,
+    endsAt: Math.max(timer.endsAt, now) + extraSecs * 1000,
+    alerted: false,
+  };
+}
+
+/**
+ * "4:05", or "1:02:30" for an hour or more
+ */
+export function formatTimerRemaining(secs: number): string {
+  const hours = Math.floor(secs / 3600);
+  const minutes = Math.floor((secs % 3600) / 60);
+  const seconds = (secs % 60).toString().padStart(2, '0');
+  return hours ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
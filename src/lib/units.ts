@@ -0,0 +1,262 @@
+import { ImperialVariant, UnitSystem } from '@/types/recipe';
+
+export type UnitDimension = 'mass' | 'volume' | 'length' | 'temperature';
+
+// What quantities are shown in: metric, or UK or US imperial
+export type MeasurementSystem = 'metric' | 'uk' | 'us';
+
+export interface UnitDefinition {
+  id: string;
+  label: string; // what is shown next to the number
+  dimension: UnitDimension;
+  factor: number; // grams, ml or cm in one unit (unused for temperature)
+  aliases: string[]; // other spellings recipes use, lowercase
+  kitchen?: boolean; // spoon and cup measures
+}
+
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+/**
+ * An amount in grams, ml, cm or degrees Celsius
+ */
+export interface BaseQuantity {
+  dimension: UnitDimension;
+  value: number;
+  kitchen: boolean;
+}
+
+// Every unit the engine understands. Bare "tsp"/"tbsp" are metric spoons
+// (5/15 ml, as used in the UK); bare "cup" is the US cup, which is what
+// recipes written in cups almost always mean.
+export const UNITS: UnitDefinition[] = [
+  { id: 'mg', label: 'mg', dimension: 'mass', factor: 0.001, aliases: ['milligram', 'milligrams'] },
+  { id: 'g', label: 'g', dimension: 'mass', factor: 1, aliases: ['gram', 'grams', 'gr'] },
+  { id: 'kg', label: 'kg', dimension: 'mass', factor: 1000, aliases: ['kilo', 'kilos', 'kilogram', 'kilograms'] },
+  { id: 'oz', label: 'oz', dimension: 'mass', factor: 28.3495, aliases: ['ounce', 'ounces'] },
+  { id: 'lb', label: 'lb', dimension: 'mass', factor: 453.592, aliases: ['lbs', 'pound', 'pounds'] },
+
+  { id: 'ml', label: 'ml', dimension: 'volume', factor: 1, aliases: ['millilitre', 'millilitres', 'milliliter', 'milliliters'] },
+  { id: 'l', label: 'l', dimension: 'volume', factor: 1000, aliases: ['litre', 'litres', 'liter', 'liters'] },
+  { id: 'tsp', label: 'tsp', dimension: 'volume', factor: 5, aliases: ['teaspoon', 'teaspoons', 'tsps'], kitchen: true },
+  { id: 'tbsp', label: 'tbsp', dimension: 'volume', factor: 15, aliases: ['tablespoon', 'tablespoons', 'tbsps', 'tbs', 'tbl'], kitchen: true },
+  { id: 'fl oz', label: 'fl oz', dimension: 'volume', factor: 28.4131, aliases: ['fluid ounce', 'fluid ounces', 'uk fl oz'] },
+  { id: 'pint', label: 'pint', dimension: 'volume', factor: 568.261, aliases: ['pints', 'pt', 'uk pint'] },
+  { id: 'us tsp', label: 'tsp', dimension: 'volume', factor: 4.92892, aliases: [], kitchen: true },
+  { id: 'us tbsp', label: 'tbsp', dimension: 'volume', factor: 14.7868, aliases: [], kitchen: true },
+  { id: 'cup', label: 'cup', dimension: 'volume', factor: 236.588, aliases: ['cups', 'us cup', 'us cups'], kitchen: true },
+  { id: 'us fl oz', label: 'fl oz', dimension: 'volume', factor: 29.5735, aliases: [] },
+  { id: 'us pint', label: 'pint', dimension: 'volume', factor: 473.176, aliases: [] },
+
+  { id: 'mm', label: 'mm', dimension: 'length', factor: 0.1, aliases: ['millimetre', 'millimetres', 'millimeter', 'millimeters'] },
+  { id: 'cm', label: 'cm', dimension: 'length', factor: 1, aliases: ['centimetre', 'centimetres', 'centimeter', 'centimeters'] },
+  { id: 'in', label: 'in', dimension: 'length', factor: 2.54, aliases: ['inch', 'inches', '"'] },
+
+  { id: '°C', label: '°C', dimension: 'temperature', factor: 1, aliases: ['°c', 'ºc', 'celsius'] },
+  { id: '°F', label: '°F', dimension: 'temperature', factor: 1, aliases: ['°f', 'ºf', 'fahrenheit'] },
+];
+
+// Display units for each system, smallest first, with the least of each
+// worth showing (a quarter cup, not 0.1 cup)
+type Ladder = { unit: string; min?: number }[];
+
+const LADDERS: Record<MeasurementSystem, Record<'mass' | 'volume' | 'kitchen' | 'length', Ladder>> = {
+  metric: {
+    mass: [{ unit: 'g' }, { unit: 'kg' }],
+    volume: [{ unit: 'ml' }, { unit: 'l' }],
+    kitchen: [{ unit: 'tsp' }, { unit: 'tbsp' }, { unit: 'ml', min: 100 }, { unit: 'l' }],
+    length: [{ unit: 'mm' }, { unit: 'cm' }],
+  },
+  uk: {
+    mass: [{ unit: 'oz' }, { unit: 'lb' }],
+    volume: [{ unit: 'tsp' }, { unit: 'tbsp' }, { unit: 'fl oz', min: 2 }, { unit: 'pint' }],
+    kitchen: [{ unit: 'tsp' }, { unit: 'tbsp' }, { unit: 'fl oz', min: 2 }, { unit: 'pint' }],
+    length: [{ unit: 'in' }],
+  },
+  us: {
+    mass: [{ unit: 'oz' }, { unit: 'lb' }],
+    volume: [{ unit: 'us tsp' }, { unit: 'us tbsp' }, { unit: 'cup', min: 0.25 }],
+    kitchen: [{ unit: 'us tsp' }, { unit: 'us tbsp' }, { unit: 'cup', min: 0.25 }],
+    length: [{ unit: 'in' }],
+  },
+};
+
+// Slack when choosing and rounding a unit, so a US tablespoon (0.0625 cup,
+// 14.8 ml) shows as 1 tbsp in metric rather than 3 tsp or 0.99 tbsp
+const LADDER_TOLERANCE = 0.02;
+
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const unit of UNITS) {
+  UNIT_LOOKUP.set(unit.id.toLowerCase(), unit);
+  unit.aliases.forEach(alias => UNIT_LOOKUP.set(alias, unit));
+}
+
+/**
+ * Look a unit up by symbol or name ("tbsp", "Tablespoons", "°C"). Counted
+ * units (pcs, sprigs, cloves) are not in the registry.
+ */
+export function findUnit(unit: string): UnitDefinition | undefined {
+  return UNIT_LOOKUP.get(unit.trim().toLowerCase());
+}
+
+/**
+ * The measurement system for the user's unit toggle
+ */
+export function getMeasurementSystem(unitSystem: UnitSystem, imperialVariant: ImperialVariant = 'uk'): MeasurementSystem {
+  return unitSystem === 'metric' ? 'metric' : imperialVariant;
+}
+
+/**
+ * Round for display: two decimals below 1, one decimal above. Temperatures
+ * go to the nearest 5 degrees (oven dials) and tin sizes to a quarter,
+ * half or whole unit.
+ */
+export function roundQuantity(value: number, dimension?: UnitDimension): number {
+  if (dimension === 'temperature') return Math.round(value / 5) * 5;
+  if (dimension === 'length') {
+    const step = value < 2 ? 0.25 : value < 10 ? 0.5 : 1;
+    return Math.round(value / step) * step;
+  }
+  return value < 1 ? Math.round(value * 100) / 100 : Math.round(value * 10) / 10;
+}
+
+// Fractions found on measuring spoons and cups
+const KITCHEN_FRACTIONS: [number, string][] = [
+  [1 / 8, '⅛'], [1 / 4, '¼'], [1 / 3, '⅓'], [1 / 2, '½'], [2 / 3, '⅔'], [3 / 4, '¾'],
+];
+
+// Units measured finely enough that decimals read better than fractions
+const DECIMAL_UNITS = ['mg', 'g', 'ml', 'mm', 'cm', '°C', '°F'];
+
+/**
+ * Show an amount the way a cook would write it: kitchen fractions for
+ * spoons, cups, pounds and counted items (⅓ tsp, 1½ eggs), plain numbers
+ * for grams and millilitres. Amounts that don't sit near a fraction keep
+ * their decimals.
+ *
+ * @example formatAmount(0.33, 'tsp') // '⅓'
+ */
+export function formatAmount(value: number, unit: string): string {
+  if (DECIMAL_UNITS.includes(findUnit(unit)?.label ?? unit)) return String(value);
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  if (remainder < 0.04) return String(whole);
+  if (remainder > 0.96) return String(whole + 1);
+
+  const fraction = KITCHEN_FRACTIONS.find(([amount]) => Math.abs(remainder - amount) <= 0.04);
+  if (!fraction) return String(roundQuantity(value));
+  return whole ? `${whole}${fraction[1]}` : fraction[1];
+}
+
+/**
+ * Express an amount in grams, ml or °C, or null for counted units
+ */
+export function toBaseQuantity(value: number, unit: string): BaseQuantity | null {
+  const definition = findUnit(unit);
+  if (!definition) return null;
+
+  if (definition.dimension === 'temperature') {
+    return {
+      dimension: 'temperature',
+      value: definition.id === '°F' ? (value - 32) * 5 / 9 : value,
+      kitchen: false,
+    };
+  }
+
+  return { dimension: definition.dimension, value: value * definition.factor, kitchen: Boolean(definition.kitchen) };
+}
+
+/**
+ * Convert between two units. Mass and volume convert into each other when
+ * the ingredient's density (g per ml) is given. Returns null when the
+ * units can't be converted.
+ *
+ * @example convertQuantity(1, 'cup', 'g', 0.51) // 120.66 (plain flour)
+ */
+export function convertQuantity(value: number, fromUnit: string, toUnit: string, density?: number): number | null {
+  const base = toBaseQuantity(value, fromUnit);
+  const target = findUnit(toUnit);
+  if (!base || !target) return null;
+
+  if (target.dimension === 'temperature') {
+    if (base.dimension !== 'temperature') return null;
+    return target.id === '°F' ? base.value * 9 / 5 + 32 : base.value;
+  }
+
+  let baseValue = base.value;
+  if (base.dimension !== target.dimension) {
+    const massAndVolume = [base.dimension, target.dimension].every(d => d === 'mass' || d === 'volume');
+    if (!density || !massAndVolume) return null;
+    baseValue = base.dimension === 'volume' ? base.value * density : base.value / density;
+  }
+
+  return baseValue / target.factor;
+}
+
+/**
+ * Pick the unit from a ladder that gives the most readable number
+ */
+function climbLadder(baseValue: number, ladder: Ladder, dimension?: UnitDimension): Quantity {
+  let chosen = ladder[0];
+
+  for (const step of ladder.slice(1)) {
+    const factor = findUnit(step.unit)!.factor;
+    if (baseValue / factor >= (step.min ?? 1) * (1 - LADDER_TOLERANCE)) chosen = step;
+  }
+
+  const definition = findUnit(chosen.unit)!;
+  const value = baseValue / definition.factor;
+  const whole = Math.round(value);
+  return {
+    value: whole > 0 && Math.abs(value - whole) <= value * LADDER_TOLERANCE ? whole : roundQuantity(value, dimension),
+    unit: definition.label,
+  };
+}
+
+/**
+ * Show an amount in grams, ml, cm or °C in a measurement system, choosing a
+ * sensible unit (1000 g -> 1 kg, 0.0625 cup -> 1 tbsp).
+ *
+ * Cups are not a UK or metric measure, so with a density they become
+ * weights there; in the US, weighed ingredients with a density are shown in
+ * cups and spoons.
+ */
+export function formatBaseQuantity(
+  base: BaseQuantity,
+  system: MeasurementSystem,
+  density?: number,
+  fromCups: boolean = false
+): Quantity {
+  if (base.dimension === 'temperature') {
+    return system === 'metric'
+      ? { value: roundQuantity(base.value, 'temperature'), unit: '°C' }
+      : { value: roundQuantity(base.value * 9 / 5 + 32, 'temperature'), unit: '°F' };
+  }
+
+  const ladders = LADDERS[system];
+
+  if (density && base.dimension === 'mass' && system === 'us') {
+    return climbLadder(base.value / density, ladders.kitchen);
+  }
+  if (density && base.dimension === 'volume' && fromCups && system !== 'us') {
+    return climbLadder(base.value * density, ladders.mass);
+  }
+
+  if (base.dimension === 'mass') return climbLadder(base.value, ladders.mass);
+  if (base.dimension === 'length') return climbLadder(base.value, ladders.length, 'length');
+  return climbLadder(base.value, base.kitchen ? ladders.kitchen : ladders.volume);
+}
+
+/**
+ * Convert a recipe quantity for display in a measurement system. Counted
+ * units (pcs, sprigs) and unknown units are returned unchanged.
+ */
+export function formatQuantity(value: number, unit: string, system: MeasurementSystem, density?: number): Quantity {
+  const base = toBaseQuantity(value, unit);
+  if (!base) return { value: roundQuantity(value), unit };
+
+  return formatBaseQuantity(base, system, density, findUnit(unit)?.id === 'cup');
+}
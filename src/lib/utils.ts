@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { UnitSystem, UnitConversion } from "@/types/recipe"
+import { ImperialVariant, UnitSystem } from "@/types/recipe"
+import { formatQuantity, getMeasurementSystem } from "./units"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -16,7 +17,13 @@ export function formatDateUK(dateString: string): string {
   if (dateString.match(/^\d{2}\/\d{2}\/\d{4}$/)) {
     return dateString;
   }
-  
+
+  // ISO dates (YYYY-MM-DD) from the database - avoid timezone shifts
+  const isoMatch = dateString.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoMatch) {
+    return `${isoMatch[3]}/${isoMatch[2]}/${isoMatch[1]}`;
+  }
+
   // Convert from other formats
   const date = new Date(dateString);
   if (isNaN(date.getTime())) return dateString;
@@ -47,105 +54,31 @@ export function formatCookingTime(minutes: number): string {
 }
 
 /**
- * Convert units between metric and imperial systems
+ * Convert units between metric and imperial systems, picking a readable
+ * unit for the result. See src/lib/units.ts.
  */
 export function convertUnits(
   quantity: number,
   unit: string,
-  targetSystem: UnitSystem
+  targetSystem: UnitSystem,
+  options: { imperialVariant?: ImperialVariant; density?: number } = {}
 ): { value: number; unit: string } {
-  const conversions: Record<string, UnitConversion> = {
-    // Weight conversions
-    'g': {
-      metric: { value: 1, unit: 'g' },
-      imperial: { value: 0.035274, unit: 'oz' }
-    },
-    'kg': {
-      metric: { value: 1, unit: 'kg' },
-      imperial: { value: 2.20462, unit: 'lb' }
-    },
-    'oz': {
-      metric: { value: 28.3495, unit: 'g' },
-      imperial: { value: 1, unit: 'oz' }
-    },
-    'lb': {
-      metric: { value: 0.453592, unit: 'kg' },
-      imperial: { value: 1, unit: 'lb' }
-    },
-    
-    // Volume conversions
-    'ml': {
-      metric: { value: 1, unit: 'ml' },
-      imperial: { value: 0.033814, unit: 'fl oz' }
-    },
-    'l': {
-      metric: { value: 1, unit: 'l' },
-      imperial: { value: 1.75975, unit: 'pint' }
-    },
-    'fl oz': {
-      metric: { value: 29.5735, unit: 'ml' },
-      imperial: { value: 1, unit: 'fl oz' }
-    },
-    'pint': {
-      metric: { value: 568.261, unit: 'ml' },
-      imperial: { value: 1, unit: 'pint' }
-    },
-    
-    // Temperature conversions
-    '°C': {
-      metric: { value: 1, unit: '°C' },
-      imperial: { value: 1, unit: '°F' } // Special case handled below
-    },
-    '°F': {
-      metric: { value: 1, unit: '°C' }, // Special case handled below
-      imperial: { value: 1, unit: '°F' }
-    }
-  };
-
-  const conversion = conversions[unit.toLowerCase()];
-  if (!conversion) {
-    // Return original if no conversion available
-    return { value: quantity, unit };
-  }
-
-  // Special handling for temperature
-  if (unit === '°C' && targetSystem === 'imperial') {
-    return { value: Math.round((quantity * 9/5) + 32), unit: '°F' };
-  }
-  if (unit === '°F' && targetSystem === 'metric') {
-    return { value: Math.round((quantity - 32) * 5/9), unit: '°C' };
-  }
-
-  const target = conversion[targetSystem];
-  const convertedValue = quantity * target.value;
-  
-  // Round to appropriate decimal places
-  const rounded = convertedValue < 1 
-    ? Math.round(convertedValue * 100) / 100
-    : Math.round(convertedValue * 10) / 10;
-
-  return { value: rounded, unit: target.unit };
+  return formatQuantity(quantity, unit, getMeasurementSystem(targetSystem, options.imperialVariant), options.density);
 }
 
 /**
- * Scale ingredient quantities based on servings
+ * Download text as a file (.txt unless another type is given)
  */
-export function scaleIngredientQuantity(
-  originalQuantity: number,
-  originalServings: number,
-  newServings: number
-): number {
-  const scaleFactor = newServings / originalServings;
-  const scaledQuantity = originalQuantity * scaleFactor;
-  
-  // Round to appropriate decimal places
-  if (scaledQuantity < 1) {
-    return Math.round(scaledQuantity * 100) / 100;
-  } else if (scaledQuantity < 10) {
-    return Math.round(scaledQuantity * 10) / 10;
-  } else {
-    return Math.round(scaledQuantity);
-  }
+export function downloadTextFile(filename: string, text: string, type: string = 'text/plain'): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 }
 
 /**
@@ -160,6 +93,13 @@ export function generateSlug(title: string): string {
     .trim();
 }
 
+/**
+ * Whether a string is a UUID, as database ids are
+ */
+export function isUuid(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
 /**
  * Debounce function for search inputs
  */
@@ -198,6 +138,7 @@ export function getTagColor(tag: string): string {
   const tagColors: Record<string, string> = {
     'vegetarian': 'bg-fresh-100 text-fresh-800',
     'vegan': 'bg-fresh-100 text-fresh-800',
+    'gluten-free': 'bg-fresh-100 text-fresh-800',
     'quick': 'bg-accent-100 text-accent-800',
     '30min': 'bg-accent-100 text-accent-800',
     'healthy': 'bg-fresh-100 text-fresh-800',
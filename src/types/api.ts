@@ -0,0 +1,175 @@
+import { Allergen, Diet, IngredientCategory, Nutrition, PantryMatch, RecipeSort, SearchMatch, TagMatchMode } from './recipe';
+
+// ============================================================================
+// Public API contract shared by src/lib/api.ts and api/public/*.js
+// ============================================================================
+
+/**
+ * Envelope returned by every serverless function
+ */
+export interface ApiSuccess<T> {
+  success: true;
+  data: T;
+}
+
+export interface ApiFailure {
+  success: false;
+  error: string;
+}
+
+export type ApiResponse<T> = ApiSuccess<T> | ApiFailure;
+
+/**
+ * Query string accepted by GET /api/public/recipes.
+ * List values (tag, excludeTag, excludeAllergen, have, cuisine, difficulty) are
+ * comma-separated.
+ */
+export interface RecipeListQuery {
+  q?: string;
+  tag?: string;
+  tagMode?: TagMatchMode;
+  excludeTag?: string;
+  excludeAllergen?: string;
+  have?: string; // ingredients the user has
+  cuisine?: string;
+  difficulty?: string;
+  maxPrepTime?: string;
+  sortBy?: RecipeSort['field'];
+  sortOrder?: RecipeSort['direction'];
+  limit?: string;
+  page?: string;
+  offset?: string; // used instead of page when given
+  featured?: 'true' | 'false';
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+export interface RecipeListData {
+  recipes: RecipeRow[];
+  pagination: Pagination;
+  filters: {
+    search: string | null;
+    tag: string[] | null;
+    tagMode: TagMatchMode;
+    excludeTag: string[] | null;
+    excludeAllergen: string[] | null;
+    have: string[] | null;
+    cuisine: string[] | null;
+    difficulty: string[] | null;
+    maxPrepTime: number | null;
+    featured: boolean;
+  };
+}
+
+/**
+ * Payload of GET /api/public/recipes/:slug
+ */
+export interface RecipeDetailData {
+  recipe: RecipeRow;
+}
+
+/**
+ * Payload of GET /api/public/recipes/featured, /api/public/recipes/search
+ * and /api/public/recipes/by-ids
+ */
+export interface RecipeCollectionData {
+  recipes: RecipeRow[];
+}
+
+// ============================================================================
+// Database rows (snake_case, as returned by Supabase)
+// ============================================================================
+
+export interface TagRow {
+  name: string;
+  slug: string;
+}
+
+export interface RecipeIngredientRow {
+  id: string;
+  ingredient_id?: string | null;
+  ingredient_name: string;
+  quantity: number | null;
+  unit: string | null;
+  notes: string | null;
+  scalable?: boolean | null;
+  round_to?: number | null;
+  section?: string | null;
+  sort_order: number;
+  catalogue?: IngredientCatalogueRow | null; // embedded ingredients row
+}
+
+export interface IngredientCatalogueRow {
+  name: string;
+  category: IngredientCategory;
+  density: number | null;
+  allergens?: Allergen[] | null;
+  diet?: Diet | null;
+}
+
+export interface RecipeStepRow {
+  id: string;
+  step_number: number;
+  instruction: string;
+  section?: string | null;
+  image_url: string | null;
+  image_alt: string | null;
+  ingredients?: RecipeStepIngredientRow[] | null; // embedded recipe_step_ingredients rows
+}
+
+export interface RecipeStepIngredientRow {
+  recipe_ingredient_id: string;
+  quantity: number | null;
+}
+
+export interface RecipeComponentRow {
+  id: string;
+  label: string | null;
+  servings: number;
+  sort_order: number;
+  recipe: RecipeComponentRecipeRow | null; // embedded component recipe, null when not visible
+}
+
+export interface RecipeComponentRecipeRow {
+  id: string;
+  title: string;
+  slug: string;
+  base_servings: number;
+  ingredients?: RecipeIngredientRow[] | null;
+  steps?: RecipeStepRow[] | null;
+}
+
+export interface RecipeRow {
+  id: string;
+  title: string;
+  slug: string;
+  description: string;
+  cuisine: string;
+  difficulty: 'Easy' | 'Medium' | 'Hard';
+  prep_time_mins: number;
+  cook_time_mins: number;
+  total_time_mins: number | null;
+  base_servings: number;
+  image_url: string | null;
+  image_alt: string | null;
+  author_name: string | null;
+  date_published: string | null; // YYYY-MM-DD
+  is_featured: boolean;
+  nutrition?: Nutrition | null; // admin overrides, only on the detail endpoint
+  tags: TagRow[] | null;
+  total_count?: number; // rows matching the filters, before pagination
+  search_rank?: number;
+  search_matches?: SearchMatch[] | null; // only when searching
+  pantry_match?: PantryMatch | null; // only when filtering by have
+  rating?: { average: number; count: number } | null; // approved reviews, null until there are some
+  ingredients?: RecipeIngredientRow[] | null;
+  steps?: RecipeStepRow[] | null;
+  components?: RecipeComponentRow[] | null; // only on the detail endpoint
+}
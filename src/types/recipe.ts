@@ -1,15 +1,102 @@
 export interface Ingredient {
   id: string;
   name: string;
-  quantity: number; // base qty for baseServings
+  quantity?: number; // base qty for baseServings; none for lines like "salt, to taste"
   unit: string; // g, ml, tsp, tbsp, pcs
   note?: string; // e.g., "chopped"
+  ingredientId?: string; // catalogue entry, when the name is recognised
+  category?: IngredientCategory;
+  density?: number; // grams per ml, from the catalogue
+  allergens?: Allergen[]; // from the catalogue
+  diet?: Diet; // from the catalogue
+  scalable?: boolean; // false for "to taste" lines that stay the same at any servings
+  roundTo?: number; // smallest step the amount comes in, e.g. 1 for eggs
+  section?: string; // group heading, e.g. "For the batter"
+  substitutes?: { id: string; name: string }; // the line this one was swapped in for
+}
+
+export type IngredientCategory =
+  | 'veg'
+  | 'fruit'
+  | 'meat'
+  | 'fish'
+  | 'dairy'
+  | 'baking'
+  | 'grains-pulses'
+  | 'tins-jars'
+  | 'condiments'
+  | 'herbs-spices'
+  | 'oils'
+  | 'drinks'
+  | 'other';
+
+// The 14 allergens UK food law requires recipes and menus to declare.
+// Values match the ingredients.allergens check in sql/schema.sql.
+export type Allergen =
+  | 'celery'
+  | 'gluten'
+  | 'crustaceans'
+  | 'eggs'
+  | 'fish'
+  | 'lupin'
+  | 'milk'
+  | 'molluscs'
+  | 'mustard'
+  | 'nuts'
+  | 'peanuts'
+  | 'sesame'
+  | 'soya'
+  | 'sulphites';
+
+// Strictest diet an ingredient suits: vegan ingredients suit vegetarians too
+export type Diet = 'vegan' | 'vegetarian' | 'non-vegetarian';
+
+/**
+ * Canonical ingredient from the catalogue (ingredients table,
+ * data/ingredients.json)
+ */
+export interface CatalogueIngredient {
+  id: string;
+  name: string;
+  aliases: string[];
+  category: IngredientCategory;
+  density?: number; // grams per ml, when known
+  allergens: Allergen[];
+  diet: Diet;
 }
 
 export interface RecipeStep {
   id: string;
   text: string;
   durationMins?: number;
+  ingredients?: StepIngredient[]; // what goes in at this step
+  section?: string; // group heading, e.g. "Make the pastry"
+}
+
+/**
+ * An ingredient used in a step. quantity is the part of the recipe line
+ * used here, in the line's unit; left out, the step uses all of it.
+ */
+export interface StepIngredient {
+  ingredientId: string; // Ingredient.id within the recipe
+  quantity?: number;
+}
+
+/**
+ * Another recipe used as part of this one, e.g. the gravy for a roast.
+ * servings is how much of the component the recipe needs at its own
+ * baseServings; the component scales with the recipe from there.
+ */
+export interface RecipeComponent {
+  id: string;
+  recipeId: string;
+  slug: string;
+  title: string;
+  label?: string; // heading shown instead of the title, e.g. "For the gravy"
+  servings: number;
+  baseServings: number;
+  ingredients: Ingredient[];
+  steps: RecipeStep[];
 }
 
 export interface Author {
@@ -17,11 +104,18 @@ export interface Author {
   profileUrl?: string;
 }
 
+/**
+ * Nutrition per serving: kcal, and grams of everything else
+ */
 export interface Nutrition {
   calories?: number;
   protein?: number;
   carbs?: number;
+  sugars?: number;
   fat?: number;
+  saturates?: number;
+  fibre?: number;
+  salt?: number;
 }
 
 export interface Recipe {
@@ -39,27 +133,187 @@ export interface Recipe {
   baseServings: number;
   ingredients: Ingredient[];
   steps: RecipeStep[];
+  components?: RecipeComponent[];
   author?: Author;
   datePublished?: string; // DD/MM/YYYY
-  nutrition?: Nutrition;
+  featured?: boolean; // picked for the homepage
+  nutrition?: Nutrition; // set by an admin, replaces the calculated values
+  searchMatches?: SearchMatch[]; // only on search results
+  pantryMatch?: PantryMatch; // only when filtering by haveIngredients
+  rating?: RecipeRating; // only once a review has been approved
+}
+
+/**
+ * Average of a recipe's approved review ratings
+ */
+export interface RecipeRating {
+  average: number; // 1-5, two decimal places
+  count: number;
+}
+
+/**
+ * Which of a recipe's ingredients the user has, pantry staples aside
+ */
+export interface PantryMatch {
+  matched: string[];
+  missing: string[];
 }
 
+export type SearchField = 'title' | 'tags' | 'ingredients' | 'description' | 'steps';
+
+/**
+ * Part of a recipe that matched a search, with the words to highlight
+ * (as written in the snippet, which may differ from a misspelt query)
+ */
+export interface SearchMatch {
+  field: SearchField;
+  snippet: string;
+  terms: string[];
+}
+
+export type TagMatchMode = 'any' | 'all';
+
 export interface RecipeFilters {
   cuisine?: string[];
   tags?: string[];
+  tagMatch?: TagMatchMode; // how `tags` combine, defaults to 'any'
+  excludeTags?: string[]; // recipes with any of these tags are left out
+  excludeAllergens?: Allergen[]; // recipes containing any of these are left out
+  haveIngredients?: string[]; // "what can I cook": ingredients the user has
   maxPrepTime?: number;
   difficulty?: ('Easy' | 'Medium' | 'Hard')[];
   search?: string;
 }
 
 export interface RecipeSort {
-  field: 'title' | 'totalTimeMins' | 'datePublished' | 'difficulty';
+  field: 'relevance' | 'title' | 'totalTimeMins' | 'datePublished' | 'difficulty';
   direction: 'asc' | 'desc';
 }
 
 export type UnitSystem = 'metric' | 'imperial';
 
-export interface UnitConversion {
-  metric: { value: number; unit: string };
-  imperial: { value: number; unit: string };
+// Imperial cups, pints and fluid ounces differ between the UK and the US
+export type ImperialVariant = 'uk' | 'us';
+
+/**
+ * A recipe added to the shopping list at the chosen servings. Ingredients
+ * are copied in so the list works without refetching the recipe.
+ */
+export interface ShoppingListRecipe {
+  recipeId: string;
+  slug: string;
+  title: string;
+  baseServings: number;
+  servings: number;
+  ingredients: Ingredient[];
+}
+
+/**
+ * One line of the aggregated shopping list. Amounts that cannot be added
+ * together (200 g and 2 pcs of onion) are kept side by side.
+ */
+export interface ShoppingListItem {
+  key: string; // catalogue id, or the normalised name
+  name: string;
+  category: IngredientCategory;
+  quantities: { value: number; unit: string }[];
+  recipes: string[]; // titles of the recipes that need it
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+/**
+ * A recipe placed on the meal planner. Like shopping list entries it keeps
+ * a copy of what the planner needs from the recipe.
+ */
+export interface PlannedMeal extends ShoppingListRecipe {
+  id: string;
+  date: string; // YYYY-MM-DD, local time
+  slot: MealSlot;
+  prepTimeMins: number;
+  cookTimeMins: number;
+  nutrition?: Nutrition; // per serving
+}
+
+/**
+ * A recipe in a collection, with the user's note on it
+ */
+export interface CollectionItem {
+  recipeId: string;
+  note?: string;
+  addedAt: string; // ISO timestamp
+}
+
+/**
+ * A named folder of recipes ("Sunday roasts"), in the user's order
+ */
+export interface RecipeCollection {
+  id: string; // UUID, made on the device
+  name: string;
+  description?: string;
+  coverRecipeId?: string; // the first recipe's image is used when unset
+  items: CollectionItem[];
+  shareToken?: string; // set while a read-only link is shared
+  updatedAt: string; // ISO timestamp of the last change
+}
+
+/**
+ * A cook's private notes on a recipe ("used half the chilli") and the
+ * servings and units it opens with
+ */
+export interface RecipeNotes {
+  recipeId: string;
+  note?: string;
+  stepNotes: Record<string, string>; // by step id
+  ingredientNotes: Record<string, string>; // by ingredient id, as in the recipe before swaps
+  servings?: number;
+  unitSystem?: UnitSystem;
+  updatedAt: string; // ISO timestamp of the last change
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A star rating with an optional write-up. Reviews are public once a
+ * moderator approves them.
+ */
+export interface RecipeReview {
+  id: string;
+  recipeId: string;
+  rating: number; // 1-5
+  body?: string;
+  madeIt: boolean; // the reviewer cooked the recipe
+  photoUrls: string[]; // signed, valid for an hour
+  photoPaths: string[]; // in the review-photos bucket
+  status: ReviewStatus;
+  moderationNote?: string; // why it was rejected, shown to the reviewer
+  authorName?: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+/**
+ * A cooking timer. Times are stored as timestamps rather than a running
+ * count, so a timer carries on across navigation and page reloads.
+ */
+export interface CookingTimer {
+  id: string;
+  label: string; // "Step 3"
+  recipeSlug?: string;
+  recipeTitle?: string;
+  durationSecs: number;
+  endsAt: number | null; // epoch ms; null while paused
+  pausedRemainingSecs?: number; // seconds left when paused
+  alerted: boolean; // the finish alert has been shown
+}
+
+/**
+ * Where the cook is in a recipe, kept per recipe so cooking can be picked
+ * up again after a refresh or another day
+ */
+export interface CookingProgress {
+  currentStep: number; // index into steps
+  checkedSteps: string[]; // step ids
+  checkedIngredients: string[]; // ingredient ids
+  updatedAt: string; // ISO timestamp
 }